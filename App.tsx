@@ -1,16 +1,168 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { MapPin, Power, AlertTriangle, MessageCircle, Map as MapIcon, Key, ExternalLink, Compass, ShieldCheck, RefreshCw } from 'lucide-react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { MapPin, Power, AlertTriangle, MessageCircle, Mic, Map as MapIcon, Key, ExternalLink, Compass, ShieldCheck, RefreshCw, ScrollText, Footprints, Settings, Keyboard, X, Crosshair, Gauge, ScanSearch, Route, Star, RotateCcw, SwitchCamera, Flashlight, FlashlightOff, Flag, ShieldAlert, Film } from 'lucide-react';
 import { useLiveGemini } from './hooks/useLiveGemini';
-import { ConnectionState, GeoLocation, MapSearchResult } from './types';
+import { useCompassHeading } from './hooks/useCompassHeading';
+import { useWalkingNavigation } from './hooks/useWalkingNavigation';
+import { usePersona } from './hooks/usePersona';
+import { useUserLocation } from './hooks/useUserLocation';
+import { useUsageMeter } from './hooks/useUsageMeter';
+import { useLandmarkCards } from './hooks/useLandmarkCards';
+import { useTripJournal } from './hooks/useTripJournal';
+import { useTranslatedCaptions } from './hooks/useTranslatedCaptions';
+import { useAudioOutputs } from './hooks/useAudioOutputs';
+import { useMediaStream } from './hooks/useMediaStream';
+import { usePinchZoom } from './hooks/usePinchZoom';
+import { useGuidedTour } from './hooks/useGuidedTour';
+import { useSafetyMode, useSosBriefing } from './hooks/useSafetyMode';
+import TranscriptPanel from './components/TranscriptPanel';
+import ArOverlay from './components/ArOverlay';
+import NavigationBanner from './components/NavigationBanner';
+import SettingsSheet from './components/SettingsSheet';
+import TextChatBar from './components/TextChatBar';
+import LocationPicker from './components/LocationPicker';
+import RecoveryScreen, { shouldShowRecovery } from './components/RecoveryScreen';
+import UsagePanel from './components/UsagePanel';
+import LandmarkCardView from './components/LandmarkCardView';
+import LandmarkAlbum from './components/LandmarkAlbum';
+import TripSheet from './components/TripSheet';
+import CaptionOverlay from './components/CaptionOverlay';
+import TourSheet from './components/TourSheet';
+import ScheduleCard from './components/ScheduleCard';
+import SosScreen from './components/SosScreen';
+import SosButton from './components/SosButton';
+import ReplayViewer from './components/ReplayViewer';
+import { distanceMeters, formatDistance } from './utils/geo';
+import { describeNavigationEvent } from './utils/navigation';
+import { FramePresetName, loadFramePreset, saveFramePreset } from './utils/frameScheduler';
+import { loadMicMode, MicMode, saveMicMode } from './utils/voiceActivity';
+import { loadPlaybackSettings, PlaybackSettings, savePlaybackSettings } from './utils/replyPlayer';
+import { ConnectionState, LandmarkCard, MapSearchResult, NavigationEvent, ScheduleAnswer } from './types';
+import { createScriptedLiveTransport } from './services/fakeLiveTransport';
+import { MapSearchProvider, offlineMapSearchProvider } from './services/mapService';
+import { describeLandmarkCard, LandmarkIdentifier, offlineLandmarkIdentifier } from './services/landmarkService';
+import { LiveTransport } from './services/liveTransport';
+import { CaptionLanguage, loadCaptionLanguage, passthroughTranslator, saveCaptionLanguage, Translator } from './services/translationService';
+import { assessLocation } from './services/locationService';
+import { formatTokens } from './services/usageMeter';
+import { itineraryToGpx, itineraryToJson, shareFile } from './services/tripPlanner';
+import { waypointToPlace } from './services/tourService';
+import { KeyMode, loadKeyMode, proxyLandmarkIdentifier, proxyLiveTransport, proxyMapSearchProvider, proxyTranslator, saveKeyMode } from './services/proxyBackend';
+import { FAKE_LIVE_SCRIPTS } from './fixtures/liveScripts';
+import { SOS_PERSONA } from './data/personas';
+import {
+  createRecordedLiveTransport,
+  createSessionRecorder,
+  exportRecording,
+  loadRecordSessions,
+  recordingFileName,
+  saveRecordSessions,
+  SessionRecording,
+} from './services/sessionRecorder';
+
+// ?transport=fake[&script=flaky] swaps Gemini for a scripted backend: no key, no network
+const queryParams = new URLSearchParams(window.location.search);
+const fakeScript = queryParams.get('transport') === 'fake'
+  ? FAKE_LIVE_SCRIPTS[queryParams.get('script') ?? 'demo'] ?? FAKE_LIVE_SCRIPTS.demo
+  : null;
+// Leaving a field out means talking to Gemini directly with the key in the page
+interface Backend {
+  transport?: LiveTransport;
+  mapSearchProvider?: MapSearchProvider;
+  landmarkIdentifier?: LandmarkIdentifier;
+  translator?: Translator;
+}
+
+const fakeBackend: Backend | null = fakeScript
+  ? { transport: createScriptedLiveTransport(fakeScript), mapSearchProvider: offlineMapSearchProvider, landmarkIdentifier: offlineLandmarkIdentifier, translator: passthroughTranslator }
+  : null;
+const proxyBackend: Backend = {
+  transport: proxyLiveTransport,
+  mapSearchProvider: proxyMapSearchProvider,
+  landmarkIdentifier: proxyLandmarkIdentifier,
+  translator: proxyTranslator,
+};
 
 const App: React.FC = () => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [location, setLocation] = useState<GeoLocation | null>(null);
+  const camera = useMediaStream(videoRef);
+  const pinch = usePinchZoom(camera.zoom, camera.setZoom);
   const [mapResult, setMapResult] = useState<MapSearchResult | null>(null);
-  const [permissionError, setPermissionError] = useState<string | null>(null);
+  // Latest darshan/festival lookup; the card stays until dismissed or replaced
+  const [schedule, setSchedule] = useState<ScheduleAnswer | null>(null);
+  const [permissionNotes, setPermissionNotes] = useState<string[]>([]);
+  const [isTyping, setIsTyping] = useState(false);
   const [hasApiKey, setHasApiKey] = useState<boolean>(false);
   const [isInitializing, setIsInitializing] = useState(true);
+  const [showTranscript, setShowTranscript] = useState(true);
+
+  const [showSettings, setShowSettings] = useState(false);
+  const [showLocationPicker, setShowLocationPicker] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [showLandmarks, setShowLandmarks] = useState(false);
+  const [showTrip, setShowTrip] = useState(false);
+  const [showTour, setShowTour] = useState(false);
+  const [showSos, setShowSos] = useState(false);
+  const [showReplay, setShowReplay] = useState(false);
+  // What the viewer opens on: a snapshot of this phone's recording, taken when it's opened
+  const [replayRecording, setReplayRecording] = useState<SessionRecording | null>(null);
+  const [recordSessions, setRecordSessions] = useState(loadRecordSessions);
+  const [recorder] = useState(createSessionRecorder);
+  // Set while a recording stands in for Gemini, from the viewer's "Chalao"
+  const [replayBackend, setReplayBackend] = useState<Backend | null>(null);
+  const { location, gpsLocation, manualPin, error: locationError, pinLandmark, clearPin } = useUserLocation();
+  const { persona, selectPersona } = usePersona();
+  const safety = useSafetyMode(gpsLocation, location);
+  const { activate: activateSos } = safety;
+  const [framePreset, setFramePreset] = useState<FramePresetName>(loadFramePreset);
+  const usage = useUsageMeter(persona.id);
+  // Set when the budget, not the user, ended the session, so the history says why
+  const budgetStopRef = useRef(false);
+  const [audioOnly, setAudioOnly] = useState(false);
+
+  const selectFramePreset = useCallback((name: FramePresetName) => {
+    saveFramePreset(name);
+    setFramePreset(name);
+  }, []);
+
+  const [micMode, setMicMode] = useState<MicMode>(loadMicMode);
+  const [keyMode, setKeyMode] = useState<KeyMode>(loadKeyMode);
+  const { landmarkIdentifier, translator, ...liveBackend } = useMemo<Backend>(
+    () => replayBackend ?? fakeBackend ?? (keyMode === 'proxy' ? proxyBackend : {}),
+    [keyMode, replayBackend]
+  );
+
+  const selectKeyMode = useCallback((mode: KeyMode) => {
+    saveKeyMode(mode);
+    setKeyMode(mode);
+    // The proxy holds the key, so there's nothing left to configure here
+    if (mode === 'proxy') setHasApiKey(true);
+  }, []);
+
+  const selectRecordSessions = useCallback((on: boolean) => {
+    saveRecordSessions(on);
+    setRecordSessions(on);
+  }, []);
+
+  const [captionLanguage, setCaptionLanguage] = useState<CaptionLanguage>(loadCaptionLanguage);
+
+  const selectCaptionLanguage = useCallback((language: CaptionLanguage) => {
+    saveCaptionLanguage(language);
+    setCaptionLanguage(language);
+  }, []);
+
+  const selectMicMode = useCallback((mode: MicMode) => {
+    saveMicMode(mode);
+    setMicMode(mode);
+  }, []);
+
+  const [playback, setPlayback] = useState<PlaybackSettings>(loadPlaybackSettings);
+  const audioOutputs = useAudioOutputs();
+
+  const changePlayback = useCallback((settings: PlaybackSettings) => {
+    savePlaybackSettings(settings);
+    setPlayback(settings);
+  }, []);
 
   const onResetKey = useCallback(async () => {
     setHasApiKey(false);
@@ -21,18 +173,94 @@ const App: React.FC = () => {
     setHasApiKey(true);
   }, []);
 
-  const { connect, disconnect, connectionState, isTalking, volume } = useLiveGemini(
+  const trip = useTripJournal(location);
+  const { record: recordJournal } = trip;
+  // The overlay only shows the latest answer; the journal keeps every one
+  const handleMapResults = useCallback((result: MapSearchResult, query: string) => {
+    setMapResult(result);
+    recordJournal(query, result);
+  }, [recordJournal]);
+
+  const onSosRequest = useCallback(() => {
+    activateSos('voice');
+    setShowSos(true);
+  }, [activateSos]);
+
+  const {
+    connect,
+    disconnect,
+    sendContext,
+    sendText,
+    connectionState,
+    lastError,
+    clearError,
+    retryMic,
+    isTalking,
+    replayLast,
+    canReplay,
+    volume,
+    transcript,
+    speechCues,
+    clearTranscript,
+    micActive,
+    speakReplies,
+    setSpeakReplies,
+    frameStats,
+    userSpeaking,
+    pushToTalk,
+  } = useLiveGemini(
     videoRef, 
     canvasRef, 
     location, 
-    setMapResult, 
-    onResetKey
+    handleMapResults, 
+    { persona: safety.active ? SOS_PERSONA : persona, framePreset, micMode, cameraEnabled: !audioOnly, onUsage: usage.record, onScheduleResult: setSchedule, onSosRequest, playback, media: camera.media, micDeviceId: camera.micId, recorder: recordSessions && !replayBackend ? recorder : null, ...liveBackend }
   );
 
+  const { caption } = useTranslatedCaptions(speechCues, transcript, captionLanguage, { translator, onUsage: usage.record });
+
+  const onLandmarkCard = useCallback((card: LandmarkCard) => {
+    sendContext(describeLandmarkCard(card));
+  }, [sendContext]);
+
+  const landmarks = useLandmarkCards(videoRef, canvasRef, location, {
+    identifier: landmarkIdentifier,
+    onUsage: usage.record,
+    onCard: onLandmarkCard,
+  });
+
+  const { heading, permissionGranted: compassGranted, requestPermission: requestCompass } = useCompassHeading();
+
+  const onNavigationEvent = useCallback((event: NavigationEvent) => {
+    sendContext(describeNavigationEvent(event));
+  }, [sendContext]);
+
+  const {
+    status: navStatus,
+    route: navRoute,
+    progress: navProgress,
+    error: navError,
+    start: startNavigation,
+    stop: stopNavigation,
+  } = useWalkingNavigation(location, onNavigationEvent);
+
+  const guidedTour = useGuidedTour(location, connectionState, sendContext);
+  useSosBriefing(safety.session, location, connectionState, sendContext);
+
+  const addPermissionNote = useCallback((note: string) => {
+    setPermissionNotes(prev => prev.includes(note) ? prev : [...prev, note]);
+  }, []);
+
+  useEffect(() => {
+    if (locationError === 'denied') addPermissionNote("Location na mili. Upar pin daba ke batao kaha ho.");
+    if (locationError === 'unsupported') addPermissionNote("Is phone mein location hi na hai. Pin se batao kaha ho.");
+  }, [locationError, addPermissionNote]);
+
   useEffect(() => {
     const checkApiKey = async () => {
       try {
-        if (window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function') {
+        if (fakeScript || keyMode === 'proxy') {
+          setHasApiKey(true);
+        } else if (window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function') {
           const selected = await window.aistudio.hasSelectedApiKey();
           setHasApiKey(selected || !!process.env.API_KEY);
         } else {
@@ -46,27 +274,26 @@ const App: React.FC = () => {
     };
     checkApiKey();
 
+    // Each permission is optional: without camera Buddy is blind, without location the map guesses,
+    // and the mic is only asked for when a voice session starts
     const initPerms = async () => {
       try {
-        if ('geolocation' in navigator) {
-          navigator.geolocation.watchPosition(
-            (pos) => setLocation({ lat: pos.coords.latitude, lng: pos.coords.longitude }),
-            (err) => console.warn("Location error", err),
-            { enableHighAccuracy: true }
-          );
-        }
-        const stream = await navigator.mediaDevices.getUserMedia({ 
-          video: { facingMode: "environment" },
-          audio: true
-        });
-        if (videoRef.current) videoRef.current.srcObject = stream;
+        await camera.startCamera();
       } catch (err) {
-        setPermissionError("Are lalla! Camera aur location ki bina rasta kaise dikhayenge? Permission de de!");
+        console.warn("Camera error", err);
+        addPermissionNote("Camera na mili. Buddy bina dekhe baat karego.");
       }
     };
     initPerms();
   }, []);
 
+  const handleCameraChange = (change: Promise<void>) => {
+    change.catch(err => {
+      console.warn("Camera switch failed", err);
+      addPermissionNote("Wo camera na khulo. Pehlo wala phir se chalao.");
+    });
+  };
+
   const handleOpenKey = async () => {
     if (window.aistudio && typeof window.aistudio.openSelectKey === 'function') {
       await window.aistudio.openSelectKey();
@@ -74,14 +301,123 @@ const App: React.FC = () => {
     setHasApiKey(true);
   };
 
+  const isSessionLive = connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.RECONNECTING;
+
+  // One usage record per session; reconnects inside a session keep adding to it
+  useEffect(() => {
+    if (connectionState === ConnectionState.CONNECTED && !usage.current) {
+      budgetStopRef.current = false;
+      usage.startSession();
+    } else if (connectionState === ConnectionState.DISCONNECTED || connectionState === ConnectionState.ERROR) {
+      usage.endSession(connectionState === ConnectionState.ERROR ? 'error' : budgetStopRef.current ? 'budget' : 'user');
+      setAudioOnly(false);
+    }
+  }, [connectionState, usage.current, usage.startSession, usage.endSession]);
+
+  const { status: budgetStatus, limit: budgetLimit } = usage.check;
+  useEffect(() => {
+    if (budgetStatus !== 'exceeded' || !isSessionLive) return;
+    if (usage.budget.onExceed === 'audio_only') {
+      // Frames are most of a session's tokens, so going blind buys the most time
+      setAudioOnly(true);
+    } else {
+      budgetStopRef.current = true;
+      disconnect();
+      setIsTyping(false);
+    }
+  }, [budgetStatus, isSessionLive, usage.budget.onExceed, disconnect]);
+
+  // Past the daily cap a fresh session would be cut off straight away, so don't start one
+  const dailyCapHit = budgetStatus === 'exceeded' && budgetLimit === 'daily' && usage.budget.onExceed === 'disconnect';
+
   const handleToggleConnection = () => {
-    if (connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.CONNECTING) {
+    if (connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.CONNECTING || connectionState === ConnectionState.RECONNECTING) {
       disconnect();
+      setIsTyping(false);
+    } else if (dailyCapHit) {
+      setShowUsage(true);
     } else {
       connect();
     }
   };
 
+  // During aarti nobody can speak out loud: start (or switch) to typed turns
+  const handleTextMode = () => {
+    if (!isSessionLive && connectionState !== ConnectionState.CONNECTING) {
+      if (dailyCapHit) {
+        setShowUsage(true);
+        return;
+      }
+      connect({ withMic: false });
+      setIsTyping(true);
+    } else {
+      setIsTyping(v => !v);
+    }
+  };
+
+  const showTextChat = isSessionLive && (isTyping || !micActive);
+  const showRecovery = shouldShowRecovery(lastError, connectionState);
+
+  const handleRepickKey = () => {
+    clearError();
+    if (window.aistudio && typeof window.aistudio.openSelectKey === 'function') {
+      onResetKey();
+    } else {
+      // Outside AI Studio there's no picker, so go back to the key screen and its proxy option
+      setHasApiKey(false);
+    }
+  };
+
+  const handleExportTrip = (format: 'json' | 'gpx') => {
+    const day = new Date().toISOString().slice(0, 10);
+    if (format === 'gpx') shareFile(`braj-yatra-${day}.gpx`, 'application/gpx+xml', itineraryToGpx(trip.itinerary));
+    else shareFile(`braj-yatra-${day}.json`, 'application/json', itineraryToJson(trip.itinerary));
+  };
+
+  const handleOpenReplay = () => {
+    setReplayRecording(recorder.stats().events > 0 ? recorder.snapshot() : null);
+    setShowSettings(false);
+    setShowReplay(true);
+  };
+
+  const handleExportRecording = (recording: SessionRecording) => {
+    shareFile(recordingFileName(recording), 'application/zip', exportRecording(recording), "Braj Buddy session");
+  };
+
+  // The recording plays from its first socket, so whatever is live now has to make way
+  const handleRunRecording = (recording: SessionRecording) => {
+    if (isSessionLive || connectionState === ConnectionState.CONNECTING) disconnect();
+    setReplayBackend({
+      transport: createRecordedLiveTransport(recording, { waitForUser: false }),
+      mapSearchProvider: offlineMapSearchProvider,
+      landmarkIdentifier: offlineLandmarkIdentifier,
+      translator: passthroughTranslator,
+    });
+    setShowReplay(false);
+  };
+
+  const handleStopReplay = () => {
+    if (isSessionLive || connectionState === ConnectionState.CONNECTING) disconnect();
+    setReplayBackend(null);
+  };
+
+  const handleClearRecording = () => {
+    recorder.clear();
+    // Also re-renders, so the settings summary drops to empty
+    setReplayRecording(null);
+  };
+
+  const recordingStats = recorder.stats();
+
+  const handleRecoverToText = () => {
+    clearError();
+    if (!isSessionLive) connect({ withMic: false });
+    setIsTyping(true);
+  };
+  const locationDot = { good: 'bg-green-500', rough: 'bg-yellow-500', unusable: 'bg-red-500' }[assessLocation(location).quality];
+  // In hold mode the big button becomes the talk button and a small one takes over hanging up
+  const holdToTalk = isSessionLive && micActive && micMode === 'hold';
+
   if (isInitializing) return (
     <div className="h-screen w-screen bg-black flex items-center justify-center">
       <RefreshCw className="w-10 h-10 text-orange-500 animate-spin" />
@@ -116,6 +452,14 @@ const App: React.FC = () => {
               <Key className="w-8 h-8 group-hover:rotate-45 transition-transform" />
               Configure API Key
             </button>
+
+            <button
+              onClick={() => selectKeyMode('proxy')}
+              className="flex items-center justify-center gap-3 w-full px-8 py-4 glass rounded-full font-black text-sm uppercase tracking-widest text-white/70 hover:text-white transition-all active:scale-95"
+            >
+              <ShieldCheck className="w-5 h-5" />
+              Buddy Server Se Chalao
+            </button>
             
             <p className="text-[10px] text-gray-600 uppercase tracking-[0.3em] font-bold">
               Powered by Gemini 2.5 Flash
@@ -145,7 +489,10 @@ const App: React.FC = () => {
         autoPlay
         playsInline
         muted
-        className="absolute inset-0 w-full h-full object-cover z-0 brightness-[0.45] scale-110 blur-[1px]"
+        {...pinch}
+        className={`absolute inset-0 w-full h-full object-cover z-0 brightness-[0.45] blur-[1px] touch-none ${
+          camera.facing === 'user' ? '-scale-x-110 scale-y-110' : 'scale-110'
+        }`}
       />
 
       {/* Dynamic Mandala Overlay */}
@@ -154,20 +501,185 @@ const App: React.FC = () => {
         <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-[800px] h-[800px] border-[1px] border-yellow-500/10 rounded-full animate-[spin_25s_linear_infinite_reverse]" />
       </div>
 
-      {/* Permission Block */}
-      {permissionError && (
-        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/95 backdrop-blur-2xl p-8">
-          <div className="text-center">
-            <AlertTriangle className="w-28 h-28 text-red-500 mx-auto mb-8 animate-bounce" />
-            <h1 className="text-5xl font-black text-white mb-4 uppercase tracking-tighter">Ruk Ja Lalla!</h1>
-            <p className="text-gray-400 mb-10 max-w-xs mx-auto text-xl leading-relaxed italic">{permissionError}</p>
-            <button onClick={() => window.location.reload()} className="px-14 py-6 braj-gradient rounded-full font-black text-xl shadow-2xl">
-              Fir Se Koshish Kar
+      {(navRoute || mapResult) && (
+        <ArOverlay
+          places={navRoute ? [navRoute.destination] : mapResult!.places}
+          location={location}
+          heading={heading}
+          permissionGranted={compassGranted}
+          onRequestPermission={requestCompass}
+        />
+      )}
+
+      {showRecovery && lastError && (
+        <RecoveryScreen
+          error={lastError}
+          onRepickKey={handleRepickKey}
+          onRetry={() => connect()}
+          onRetryMic={retryMic}
+          onTextMode={handleRecoverToText}
+          onDismiss={clearError}
+        />
+      )}
+
+      {showLocationPicker && (
+        <LocationPicker
+          gpsLocation={gpsLocation}
+          manualPin={manualPin}
+          onPick={pinLandmark}
+          onClearPin={clearPin}
+          onClose={() => setShowLocationPicker(false)}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsSheet
+          current={persona}
+          isSessionLive={isSessionLive}
+          onSelect={selectPersona}
+          framePreset={framePreset}
+          frameStats={frameStats}
+          onSelectFramePreset={selectFramePreset}
+          micMode={micMode}
+          onSelectMicMode={selectMicMode}
+          playback={playback}
+          audioOutputs={audioOutputs}
+          onChangePlayback={changePlayback}
+          cameras={camera.cameras}
+          cameraId={camera.cameraId}
+          onSelectCamera={id => handleCameraChange(camera.selectCamera(id))}
+          mics={camera.mics}
+          micId={camera.micId}
+          onSelectMic={camera.selectMic}
+          keyMode={keyMode}
+          onSelectKeyMode={selectKeyMode}
+          captionLanguage={captionLanguage}
+          onSelectCaptionLanguage={selectCaptionLanguage}
+          usageSummary={`Aaj ${formatTokens(usage.dailyTokens)} tokens`}
+          onOpenUsage={() => { setShowSettings(false); setShowUsage(true); }}
+          landmarkCount={landmarks.cards.length}
+          onOpenLandmarks={() => { setShowSettings(false); setShowLandmarks(true); }}
+          recordSessions={recordSessions}
+          onSelectRecordSessions={selectRecordSessions}
+          recordingSummary={recordingStats.events > 0
+            ? `${Math.ceil(recordingStats.durationMs / 60000)} min · ${recordingStats.frames} tasveer${recordingStats.truncated ? ' · bhar gayi' : ''}`
+            : 'Abhi kuch na rakha'}
+          onClearRecording={recordingStats.events > 0 ? handleClearRecording : undefined}
+          onOpenReplay={handleOpenReplay}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {showTour && (
+        <TourSheet
+          tours={guidedTour.tours}
+          tour={guidedTour.tour}
+          progress={guidedTour.progress}
+          next={guidedTour.next}
+          insideId={guidedTour.insideId}
+          location={location}
+          onStart={guidedTour.start}
+          onStop={guidedTour.stop}
+          onPause={guidedTour.pause}
+          onResume={guidedTour.resume}
+          onSkip={guidedTour.skip}
+          onNavigate={waypoint => {
+            setShowTour(false);
+            if (guidedTour.tour) startNavigation(waypointToPlace(guidedTour.tour, waypoint));
+          }}
+          onImport={guidedTour.importTour}
+          onRemove={guidedTour.removeTour}
+          onClose={() => setShowTour(false)}
+        />
+      )}
+
+      {showTrip && (
+        <TripSheet
+          itinerary={trip.itinerary}
+          entries={trip.entries}
+          storageError={trip.storageError}
+          isStarred={trip.isStarred}
+          onToggleStar={trip.toggleStar}
+          onNavigate={place => { setShowTrip(false); startNavigation(place); }}
+          onExport={handleExportTrip}
+          onClearJournal={trip.clearJournal}
+          onClose={() => setShowTrip(false)}
+        />
+      )}
+
+      {showLandmarks && (
+        <LandmarkAlbum
+          cards={landmarks.cards}
+          onOpen={card => { setShowLandmarks(false); landmarks.openCard(card); }}
+          onClose={() => setShowLandmarks(false)}
+        />
+      )}
+
+      {landmarks.activeCard && (
+        <LandmarkCardView
+          card={landmarks.activeCard}
+          onNavigate={place => { landmarks.openCard(null); startNavigation(place); }}
+          onDelete={landmarks.removeCard}
+          onShowAll={() => { landmarks.openCard(null); setShowLandmarks(true); }}
+          onClose={() => landmarks.openCard(null)}
+        />
+      )}
+
+      {showReplay && (
+        <ReplayViewer
+          recording={replayRecording}
+          onExport={handleExportRecording}
+          onRunAsSession={handleRunRecording}
+          onClose={() => setShowReplay(false)}
+        />
+      )}
+
+      {showUsage && (
+        <UsagePanel
+          current={usage.current}
+          history={usage.history}
+          budget={usage.budget}
+          sessionTokens={usage.sessionTokens}
+          dailyTokens={usage.dailyTokens}
+          check={usage.check}
+          onChangeBudget={usage.setBudget}
+          onClearHistory={usage.clearHistory}
+          onClose={() => setShowUsage(false)}
+        />
+      )}
+
+      {/* Permission Notes */}
+      {permissionNotes.length > 0 && (
+        <div className="absolute top-28 inset-x-6 z-30 flex justify-center pointer-events-none">
+          <div className="glass px-5 py-4 rounded-[1.5rem] border-red-500/30 flex items-start gap-4 max-w-md pointer-events-auto animate-in fade-in slide-in-from-top-10 duration-500">
+            <AlertTriangle className="w-6 h-6 text-red-400 shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="text-sm font-black text-white uppercase tracking-tight">Ruk Ja Lalla!</p>
+              {permissionNotes.map(note => (
+                <p key={note} className="text-xs text-white/60 italic">{note}</p>
+              ))}
+            </div>
+            <button onClick={() => setPermissionNotes([])} className="p-1 rounded-xl hover:bg-white/10 active:scale-90">
+              <X className="w-4 h-4 text-white/40" />
             </button>
           </div>
         </div>
       )}
 
+      {safety.active && showSos && (
+        <SosScreen
+          location={location}
+          help={safety.help}
+          trail={safety.trail}
+          buddyOnline={connectionState === ConnectionState.CONNECTED}
+          onNavigate={place => { setShowSos(false); startNavigation(place); }}
+          onPickLocation={() => { setShowSos(false); setShowLocationPicker(true); }}
+          onClearTrail={safety.clearTrail}
+          onHide={() => setShowSos(false)}
+          onEnd={() => { setShowSos(false); safety.end(); }}
+        />
+      )}
+
       {/* UI Overlay */}
       <div className="relative z-10 h-full flex flex-col justify-between p-6 pointer-events-none">
         
@@ -177,42 +689,140 @@ const App: React.FC = () => {
             <div className="glass px-6 py-3 rounded-2xl flex items-center gap-4 border-orange-500/20 shadow-2xl">
               <div className={`w-3.5 h-3.5 rounded-full ${
                 connectionState === ConnectionState.CONNECTED ? 'bg-green-500 shadow-[0_0_20px_#22c55e]' : 
-                connectionState === ConnectionState.CONNECTING ? 'bg-yellow-500 animate-pulse' : 'bg-red-500 shadow-[0_0_15px_#ef4444]'
+                connectionState === ConnectionState.CONNECTING ? 'bg-yellow-500 animate-pulse' :
+                connectionState === ConnectionState.RECONNECTING ? 'bg-orange-500 animate-ping' : 'bg-red-500 shadow-[0_0_15px_#ef4444]'
               }`} />
               <div className="flex flex-col">
                 <span className="text-[11px] font-black uppercase tracking-[0.25em] text-white">
                   Cyber Buddy
                 </span>
                 <span className="text-[8px] font-bold text-white/40 uppercase tracking-widest">
-                  {connectionState === ConnectionState.CONNECTED ? 'Gunda Online' : 'Soya hua hai'}
+                  {connectionState === ConnectionState.CONNECTED ? `${persona.buddyLabel} Online` :
+                   connectionState === ConnectionState.RECONNECTING ? 'Net gayo, phir jud ryo...' :
+                   connectionState === ConnectionState.ERROR ? 'Atak gayo' : 'Soya hua hai'}
                 </span>
               </div>
             </div>
             
-            <button onClick={onResetKey} className="glass p-4 rounded-2xl hover:bg-white/20 transition-all border-white/5 active:scale-90">
-              <Key className="w-6 h-6 text-white/60" />
-            </button>
+            <div className="flex items-center gap-3">
+              <button onClick={() => setShowLocationPicker(true)} className="glass p-4 rounded-2xl hover:bg-white/20 transition-all border-white/5 active:scale-90 relative">
+                <Crosshair className={`w-6 h-6 ${manualPin ? 'text-orange-400' : 'text-white/60'}`} />
+                <span className={`absolute top-2 right-2 w-2 h-2 rounded-full ${locationDot}`} />
+              </button>
+              <button onClick={() => setShowTranscript(v => !v)} className="glass p-4 rounded-2xl hover:bg-white/20 transition-all border-white/5 active:scale-90">
+                <ScrollText className={`w-6 h-6 ${showTranscript ? 'text-orange-400' : 'text-white/60'}`} />
+              </button>
+              <button onClick={() => setShowSettings(true)} className="glass p-4 rounded-2xl hover:bg-white/20 transition-all border-white/5 active:scale-90">
+                <Settings className="w-6 h-6 text-white/60" />
+              </button>
+              <button onClick={onResetKey} className="glass p-4 rounded-2xl hover:bg-white/20 transition-all border-white/5 active:scale-90">
+                <Key className="w-6 h-6 text-white/60" />
+              </button>
+            </div>
           </div>
 
+          {(budgetStatus !== 'ok' || audioOnly) && (
+            <button
+              onClick={() => setShowUsage(true)}
+              className={`glass self-center px-5 py-2 rounded-full flex items-center gap-2 transition-all active:scale-95 ${
+                budgetStatus === 'exceeded' ? 'border-red-500/40' : 'border-yellow-500/40'
+              }`}
+            >
+              <Gauge className={`w-4 h-4 ${budgetStatus === 'exceeded' ? 'text-red-400' : 'text-yellow-400'}`} />
+              <span className="text-[10px] font-black text-white uppercase tracking-widest">
+                {budgetLimit === 'daily' ? 'Aaj ko' : 'Is baar ko'} budget{' '}
+                {audioOnly ? 'khatam, ab sirf awaaz' :
+                 budgetStatus === 'exceeded' ? 'khatam' : `${Math.round(usage.check.fraction * 100)}% ho gayo`}
+              </span>
+            </button>
+          )}
+
+          {safety.active && !showSos && (
+            <button
+              onClick={() => setShowSos(true)}
+              className="glass self-center px-5 py-2 rounded-full flex items-center gap-2 border-red-500/60 bg-red-600/30 transition-all active:scale-95"
+            >
+              <ShieldAlert className="w-4 h-4 text-red-400" />
+              <span className="text-[10px] font-black text-white uppercase tracking-widest">Madad Mode chalu hai</span>
+            </button>
+          )}
+
+          {replayBackend && (
+            <button
+              onClick={handleStopReplay}
+              className="glass self-center px-5 py-2 rounded-full flex items-center gap-2 border-orange-500/40 transition-all active:scale-95"
+            >
+              <Film className="w-4 h-4 text-orange-400" />
+              <span className="text-[10px] font-black text-white uppercase tracking-widest">Purani baat-cheet · band karo</span>
+              <X className="w-3 h-3 text-white/60" />
+            </button>
+          )}
+
+          {guidedTour.tour && guidedTour.progress && (
+            <button
+              onClick={() => setShowTour(true)}
+              className="glass self-center px-5 py-2 rounded-full flex items-center gap-2 border-orange-500/40 transition-all active:scale-95"
+            >
+              <Flag className="w-4 h-4 text-orange-400" />
+              <span className="text-[10px] font-black text-white uppercase tracking-widest">
+                {guidedTour.finished ? 'Parikrama poori' :
+                 guidedTour.progress.paused ? 'Parikrama ruki hai' :
+                 `Agla padaav: ${guidedTour.next?.name}${location && guidedTour.next ? ` · ${formatDistance(distanceMeters(location, guidedTour.next.location))}` : ''}`}
+              </span>
+            </button>
+          )}
+
+          <NavigationBanner status={navStatus} route={navRoute} progress={navProgress} onStop={stopNavigation} />
+          {navError && (
+            <span className="text-[10px] font-bold text-red-400 uppercase tracking-widest px-2">{navError}</span>
+          )}
+
+          {schedule && (schedule.temples.length > 0 || schedule.festivals.length > 0) && (
+            <ScheduleCard answer={schedule} onClose={() => setSchedule(null)} />
+          )}
+
           {/* Map Link Portals */}
-          {mapResult && mapResult.links.length > 0 && (
+          {mapResult && mapResult.places.length > 0 && (
             <div className="flex flex-col gap-3 animate-in fade-in slide-in-from-top-10 duration-700">
               <span className="text-[10px] font-black text-orange-400/80 uppercase tracking-[0.3em] px-2 mb-1">Divine Gateways:</span>
-              {mapResult.links.map((link, idx) => (
-                <a 
-                  key={idx} 
-                  href={link.uri} 
-                  target="_blank" 
-                  className="glass-portal px-6 py-5 rounded-[2rem] flex items-center justify-between border-orange-500/40 bg-orange-600/10 hover:bg-orange-600/30 transition-all group shadow-2xl"
+              {mapResult.places.map((link, idx) => (
+                <div
+                  key={idx}
+                  className="glass-portal rounded-[2rem] flex items-center border-orange-500/40 bg-orange-600/10 hover:bg-orange-600/30 transition-all shadow-2xl"
                 >
-                  <div className="flex items-center gap-5">
-                    <div className="bg-orange-500/20 p-3 rounded-2xl group-hover:bg-orange-500/40 transition-colors">
-                      <MapPin className="w-7 h-7 text-orange-400" />
+                  <a 
+                    href={link.uri} 
+                    target="_blank" 
+                    className="flex-1 min-w-0 pl-6 pr-3 py-5 flex items-center justify-between group"
+                  >
+                    <div className="flex items-center gap-5 min-w-0">
+                      <div className="bg-orange-500/20 p-3 rounded-2xl group-hover:bg-orange-500/40 transition-colors">
+                        <MapPin className="w-7 h-7 text-orange-400" />
+                      </div>
+                      <div className="flex flex-col min-w-0">
+                        <span className="text-lg font-black text-white uppercase tracking-tight truncate">{link.title}</span>
+                        {link.distanceMeters !== undefined && (
+                          <span className="text-[10px] font-bold text-orange-300/80 uppercase tracking-widest">{formatDistance(link.distanceMeters)} door</span>
+                        )}
+                      </div>
                     </div>
-                    <span className="text-lg font-black text-white uppercase tracking-tight">{link.title}</span>
-                  </div>
-                  <ExternalLink className="w-6 h-6 text-white/30 group-hover:text-white transition-all transform group-hover:translate-x-1 group-hover:-translate-y-1" />
-                </a>
+                    <ExternalLink className="w-6 h-6 text-white/30 group-hover:text-white transition-all transform group-hover:translate-x-1 group-hover:-translate-y-1" />
+                  </a>
+                  <button
+                    onClick={() => trip.toggleStar(link)}
+                    className="mr-2 p-3 rounded-2xl hover:bg-white/10 active:scale-90 transition-all"
+                    title={trip.isStarred(link) ? 'Yatra se hatao' : 'Yatra mein jodo'}
+                  >
+                    <Star className={`w-5 h-5 ${trip.isStarred(link) ? 'text-yellow-400 fill-yellow-400' : 'text-white/40'}`} />
+                  </button>
+                  <button
+                    onClick={() => startNavigation(link)}
+                    className="mr-4 px-4 py-3 braj-gradient rounded-2xl flex items-center gap-2 font-black text-xs uppercase tracking-widest active:scale-90 transition-all"
+                  >
+                    <Footprints className="w-4 h-4" />
+                    Chal
+                  </button>
+                </div>
               ))}
             </div>
           )}
@@ -236,15 +846,42 @@ const App: React.FC = () => {
                 </div>
                 {isTalking && (
                   <div className="absolute -bottom-16 glass px-6 py-2.5 rounded-full border-orange-500/40 shadow-2xl animate-pulse">
-                    <span className="text-xs font-black text-white uppercase tracking-[0.4em]">Listening to the Gunda...</span>
+                    <span className="text-xs font-black text-white uppercase tracking-[0.4em]">Listening to the {persona.buddyLabel}...</span>
                   </div>
                 )}
+                {!isTalking && canReplay && (
+                  <button
+                    onClick={replayLast}
+                    className="absolute -bottom-16 glass px-6 py-2.5 rounded-full border-orange-500/40 shadow-2xl flex items-center gap-2 pointer-events-auto active:scale-90 transition-all animate-in fade-in duration-300"
+                  >
+                    <RotateCcw className="w-4 h-4 text-orange-400" />
+                    <span className="text-xs font-black text-white uppercase tracking-[0.4em]">Phir Se Bol</span>
+                  </button>
+                )}
              </div>
           )}
         </div>
 
         {/* Controls Footer */}
         <div className="flex flex-col gap-10 items-center pointer-events-auto pb-16">
+
+          {caption && <CaptionOverlay caption={caption} />}
+
+          {showTranscript && transcript.length > 0 && (
+            <TranscriptPanel
+              entries={transcript}
+              onClear={clearTranscript}
+              onClose={() => setShowTranscript(false)}
+            />
+          )}
+
+          {showTextChat && (
+            <TextChatBar
+              speakReplies={speakReplies}
+              onToggleSpeak={() => setSpeakReplies(v => !v)}
+              onSend={sendText}
+            />
+          )}
           
           {connectionState === ConnectionState.DISCONNECTED && (
             <div className="glass p-10 rounded-[3rem] border-white/5 text-center max-w-sm shadow-[0_30px_60px_rgba(0,0,0,0.6)] animate-in fade-in slide-in-from-bottom-10 duration-1000">
@@ -260,30 +897,134 @@ const App: React.FC = () => {
           )}
 
           <div className="relative">
+            {holdToTalk ? (
+              <button
+                onPointerDown={e => { e.currentTarget.setPointerCapture(e.pointerId); pushToTalk(true); }}
+                onPointerUp={() => pushToTalk(false)}
+                onPointerCancel={() => pushToTalk(false)}
+                onContextMenu={e => e.preventDefault()}
+                className={`
+                  w-32 h-32 rounded-[3.5rem] flex items-center justify-center transition-all duration-200 relative z-20 shadow-[0_25px_60px_rgba(0,0,0,0.6)] select-none touch-none
+                  ${userSpeaking ? 'braj-gradient scale-110 shadow-orange-600/50' : 'bg-white/10 border border-white/20'}
+                `}
+              >
+                <Mic className={`w-14 h-14 ${userSpeaking ? 'text-white' : 'text-white/60'}`} />
+              </button>
+            ) : (
+              <button
+                onClick={handleToggleConnection}
+                disabled={connectionState === ConnectionState.CONNECTING}
+                className={`
+                  w-32 h-32 rounded-[3.5rem] flex items-center justify-center transition-all duration-700 relative z-20 shadow-[0_25px_60px_rgba(0,0,0,0.6)]
+                  ${isSessionLive ? 'bg-red-600 shadow-red-600/30' : 'braj-gradient shadow-orange-600/30'}
+                  ${connectionState === ConnectionState.CONNECTING ? 'opacity-50 cursor-wait' : 'hover:scale-110 active:scale-90 hover:rotate-6'}
+                `}
+              >
+                {isSessionLive ? (
+                  <Power className="w-14 h-14 text-white" />
+                ) : (
+                  <MessageCircle className="w-14 h-14 text-white" />
+                )}
+              </button>
+            )}
+            {connectionState === ConnectionState.CONNECTED && (!holdToTalk || userSpeaking) && (
+              <div className={`absolute inset-0 rounded-[3.5rem] animate-ping opacity-30 z-10 ${holdToTalk ? 'bg-orange-500' : 'bg-red-600'}`} />
+            )}
+            <div className="absolute -bottom-12 left-1/2 -translate-x-1/2 whitespace-nowrap">
+              <span className="text-[11px] font-black uppercase tracking-[0.5em] text-white/20 group-hover:text-orange-500 transition-all duration-500">
+                {holdToTalk ? (userSpeaking ? 'Sun Ryo Hu...' : 'Daba Ke Bol') : isSessionLive ? 'Kaat De' : 'Buddy Ko Bula'}
+              </span>
+            </div>
+          </div>
+          {holdToTalk && (
             <button
               onClick={handleToggleConnection}
-              disabled={connectionState === ConnectionState.CONNECTING}
-              className={`
-                w-32 h-32 rounded-[3.5rem] flex items-center justify-center transition-all duration-700 relative z-20 shadow-[0_25px_60px_rgba(0,0,0,0.6)]
-                ${connectionState === ConnectionState.CONNECTED ? 'bg-red-600 shadow-red-600/30' : 'braj-gradient shadow-orange-600/30'}
-                ${connectionState === ConnectionState.CONNECTING ? 'opacity-50 cursor-wait' : 'hover:scale-110 active:scale-90 hover:rotate-6'}
-              `}
+              className="absolute left-8 bottom-24 glass p-4 rounded-2xl border-red-500/40 transition-all active:scale-90"
+              title="Kaat De"
             >
-              {connectionState === ConnectionState.CONNECTED ? (
-                <Power className="w-14 h-14 text-white" />
-              ) : (
-                <MessageCircle className="w-14 h-14 text-white" />
-              )}
+              <Power className="w-6 h-6 text-red-400" />
             </button>
-            {connectionState === ConnectionState.CONNECTED && (
-              <div className="absolute inset-0 rounded-[3.5rem] bg-red-600 animate-ping opacity-30 z-10" />
+          )}
+          <SosButton
+            active={safety.active}
+            onTrigger={() => { activateSos('long_press'); setShowSos(true); }}
+            className="absolute left-8 bottom-[21rem]"
+          />
+          <button
+            onClick={() => setShowTour(true)}
+            className="absolute left-8 bottom-64 glass p-4 rounded-2xl border-white/5 transition-all active:scale-90"
+            title="Buddy Ke Sang Parikrama"
+          >
+            <Flag className={`w-6 h-6 ${guidedTour.tour ? 'text-orange-400' : 'text-white/60'}`} />
+          </button>
+          <button
+            onClick={() => setShowTrip(true)}
+            className="absolute left-8 bottom-44 glass p-4 rounded-2xl border-white/5 transition-all active:scale-90"
+            title="Aaj Ki Yatra"
+          >
+            <Route className={`w-6 h-6 ${trip.stops.length > 0 ? 'text-orange-400' : 'text-white/60'}`} />
+            {trip.stops.length > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full braj-gradient text-[10px] font-black text-white flex items-center justify-center">
+                {trip.stops.length}
+              </span>
             )}
-            <div className="absolute -bottom-12 left-1/2 -translate-x-1/2 whitespace-nowrap">
-              <span className="text-[11px] font-black uppercase tracking-[0.5em] text-white/20 group-hover:text-orange-500 transition-all duration-500">
-                {connectionState === ConnectionState.CONNECTED ? 'Kaat De' : 'Buddy Ko Bula'}
+          </button>
+          <button
+            onClick={landmarks.snap}
+            disabled={landmarks.identifying}
+            className="absolute right-8 bottom-44 glass p-4 rounded-2xl border-white/5 transition-all active:scale-90"
+            title="Ye Kya Hai?"
+          >
+            {landmarks.identifying
+              ? <RefreshCw className="w-6 h-6 text-orange-400 animate-spin" />
+              : <ScanSearch className="w-6 h-6 text-white/60" />}
+          </button>
+          {landmarks.error && (
+            <button
+              onClick={landmarks.clearError}
+              className="absolute right-24 bottom-44 glass px-4 py-3 rounded-2xl border-red-500/30 max-w-[14rem] text-left animate-in fade-in duration-300"
+            >
+              <span className="text-[10px] font-bold text-red-300 uppercase tracking-widest">
+                {landmarks.error === 'no_camera' ? 'Camera na chal ryo, kachu na dikho' :
+                 landmarks.error.kind === 'bad_key' ? 'Chaabi galat hai, pehchaan na paayo' : 'Pehchaan na paayo, phir dabao'}
               </span>
-            </div>
+            </button>
+          )}
+          <div className="absolute right-8 bottom-64 flex flex-col items-center gap-3">
+            {camera.zoom !== null && camera.controls.zoom && camera.zoom > camera.controls.zoom.min && (
+              <button
+                onClick={() => camera.setZoom(camera.controls.zoom!.min)}
+                className="glass px-3 py-2 rounded-full border-white/5 text-[10px] font-black text-white tabular-nums transition-all active:scale-90"
+                title="Zoom hatao"
+              >
+                {camera.zoom.toFixed(1)}×
+              </button>
+            )}
+            {camera.controls.torch && (
+              <button
+                onClick={camera.toggleTorch}
+                className={`glass p-4 rounded-2xl transition-all active:scale-90 ${camera.torch ? 'border-yellow-400/60' : 'border-white/5'}`}
+                title={camera.torch ? 'Batti bujhao' : 'Batti jalao'}
+              >
+                {camera.torch ? <Flashlight className="w-6 h-6 text-yellow-300" /> : <FlashlightOff className="w-6 h-6 text-white/60" />}
+              </button>
+            )}
+            <button
+              onClick={() => handleCameraChange(camera.switchFacing())}
+              className="glass p-4 rounded-2xl border-white/5 transition-all active:scale-90"
+              title={camera.facing === 'user' ? 'Peeche wala camera' : 'Aage wala camera'}
+            >
+              <SwitchCamera className="w-6 h-6 text-white/60" />
+            </button>
           </div>
+          <button
+            onClick={handleTextMode}
+            disabled={connectionState === ConnectionState.CONNECTING}
+            className={`absolute right-8 bottom-24 glass p-4 rounded-2xl transition-all active:scale-90 ${showTextChat ? 'border-orange-500/60' : 'border-white/5'}`}
+            title="Likh ke baat kar"
+          >
+            <Keyboard className={`w-6 h-6 ${showTextChat ? 'text-orange-400' : 'text-white/60'}`} />
+          </button>
         </div>
       </div>
 
@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import { Navigation2, Compass } from 'lucide-react';
+import { GeoLocation, PlaceResult } from '../types';
+import { formatDistance, relativeBearing, withDistanceAndBearing } from '../utils/geo';
+
+// Rough horizontal field of view of a phone's back camera
+const CAMERA_FOV_DEG = 60;
+
+interface ArOverlayProps {
+  places: PlaceResult[];
+  location: GeoLocation | null;
+  heading: number | null;
+  permissionGranted: boolean;
+  onRequestPermission: () => void;
+}
+
+const ArOverlay: React.FC<ArOverlayProps> = ({ places, location, heading, permissionGranted, onRequestPermission }) => {
+  // Re-measure from where the user is now, not where they stood when they asked
+  const located = useMemo(
+    () => withDistanceAndBearing(places.filter(p => p.location), location).filter(p => p.bearingDegrees !== undefined),
+    [places, location]
+  );
+
+  if (located.length === 0) return null;
+
+  if (!permissionGranted) {
+    return (
+      <div className="absolute inset-x-0 top-1/3 z-20 flex justify-center pointer-events-auto">
+        <button onClick={onRequestPermission} className="glass px-6 py-3 rounded-full flex items-center gap-3 border-orange-500/40 active:scale-95">
+          <Compass className="w-5 h-5 text-orange-400" />
+          <span className="text-xs font-black text-white uppercase tracking-widest">Compass Chalu Kar</span>
+        </button>
+      </div>
+    );
+  }
+
+  if (heading === null) return null;
+
+  return (
+    <div className="absolute inset-0 z-20 pointer-events-none overflow-hidden">
+      {located.map((place, idx) => {
+        const rel = relativeBearing(place.bearingDegrees!, heading);
+        const inView = Math.abs(rel) <= CAMERA_FOV_DEG / 2;
+        // Off-screen places stick to the nearest edge, still pointing the right way
+        const x = inView ? 50 + (rel / CAMERA_FOV_DEG) * 100 : rel < 0 ? 6 : 94;
+        return (
+          <div
+            key={place.placeId ?? `${place.uri}-${idx}`}
+            className="absolute flex flex-col items-center gap-1 -translate-x-1/2 transition-[left] duration-200"
+            style={{ left: `${x}%`, top: `${38 + (idx % 3) * 9}%` }}
+          >
+            <div className="bg-orange-600/80 p-2 rounded-full shadow-[0_0_25px_rgba(249,115,22,0.6)]">
+              <Navigation2 className="w-6 h-6 text-white" style={{ transform: `rotate(${rel}deg)` }} />
+            </div>
+            {inView && (
+              <div className="glass px-3 py-1 rounded-xl text-center max-w-[9rem]">
+                <p className="text-[11px] font-black text-white uppercase tracking-tight truncate">{place.title}</p>
+                <p className="text-[10px] font-bold text-orange-300">{formatDistance(place.distanceMeters!)}</p>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ArOverlay;
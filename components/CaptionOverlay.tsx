@@ -0,0 +1,18 @@
+import React from 'react';
+import { Caption } from '../hooks/useTranslatedCaptions';
+
+interface CaptionOverlayProps {
+  caption: Caption;
+}
+
+// Under-the-picture subtitles: what Buddy said, and underneath what it means
+const CaptionOverlay: React.FC<CaptionOverlayProps> = ({ caption }) => (
+  <div className="w-full max-w-md px-5 py-3 rounded-[1.5rem] bg-black/70 backdrop-blur-md border border-white/10 text-center animate-in fade-in duration-200">
+    <p className="text-[11px] text-white/50 italic leading-snug">{caption.segment.text}</p>
+    <p className={`text-base font-bold leading-snug mt-1 ${caption.translation ? 'text-white' : 'text-white/30'}`}>
+      {caption.translation ?? '…'}
+    </p>
+  </div>
+);
+
+export default CaptionOverlay;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Landmark, X } from 'lucide-react';
+import { LandmarkCard } from '../types';
+import { LOW_CONFIDENCE } from '../services/landmarkService';
+
+interface LandmarkAlbumProps {
+  cards: LandmarkCard[];
+  onOpen: (card: LandmarkCard) => void;
+  onClose: () => void;
+}
+
+const LandmarkAlbum: React.FC<LandmarkAlbumProps> = ({ cards, onOpen, onClose }) => (
+  <div className="absolute inset-0 z-40 flex items-end justify-center bg-black/60 backdrop-blur-sm" onClick={onClose}>
+    <div
+      className="glass w-full max-w-lg rounded-t-[2.5rem] border-orange-500/20 p-6 pb-10 max-h-[80vh] overflow-y-auto animate-in slide-in-from-bottom-10 duration-500"
+      onClick={e => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-black text-white uppercase tracking-tighter italic">Darshan Ki Yaadein</h2>
+          <p className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Jo jo "ye kya hai?" puchho</p>
+        </div>
+        <button onClick={onClose} className="p-3 rounded-2xl hover:bg-white/10 transition-all active:scale-90">
+          <X className="w-6 h-6 text-white/60" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {cards.map(card => (
+          <button
+            key={card.id}
+            onClick={() => onOpen(card)}
+            className="text-left rounded-[1.5rem] overflow-hidden bg-white/5 border border-white/10 hover:bg-white/10 transition-all active:scale-[0.98]"
+          >
+            {card.thumbnail ? (
+              <img src={card.thumbnail} alt={card.name} className="w-full h-24 object-cover" />
+            ) : (
+              <div className="w-full h-24 flex items-center justify-center bg-orange-600/10">
+                <Landmark className="w-8 h-8 text-orange-400/60" />
+              </div>
+            )}
+            <div className="px-3 py-2">
+              <span className="block text-xs font-black text-white uppercase tracking-tight truncate">{card.name}</span>
+              <span className={`block text-[10px] font-bold uppercase tracking-widest ${card.confidence >= LOW_CONFIDENCE ? 'text-white/40' : 'text-yellow-400/70'}`}>
+                {new Date(card.createdAt).toLocaleDateString()}{card.confidence < LOW_CONFIDENCE ? ' · andaaza' : ''}
+              </span>
+            </div>
+          </button>
+        ))}
+      </div>
+      {cards.length === 0 && (
+        <p className="text-xs text-white/40 italic text-center py-4">Abhi koi card na hai. Camera kisi mandir pe karo aur "Ye Kya Hai?" dabao.</p>
+      )}
+    </div>
+  </div>
+);
+
+export default LandmarkAlbum;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { ExternalLink, Footprints, HandHeart, Images, Sparkles, Trash2, X } from 'lucide-react';
+import { LandmarkCard, PlaceResult } from '../types';
+import { LOW_CONFIDENCE } from '../services/landmarkService';
+import { formatDistance } from '../utils/geo';
+
+interface LandmarkCardViewProps {
+  card: LandmarkCard;
+  onNavigate: (place: PlaceResult) => void;
+  onDelete: (id: string) => void;
+  onShowAll: () => void;
+  onClose: () => void;
+}
+
+const LandmarkCardView: React.FC<LandmarkCardViewProps> = ({ card, onNavigate, onDelete, onShowAll, onClose }) => {
+  const sure = card.confidence >= LOW_CONFIDENCE;
+  const percent = Math.round(card.confidence * 100);
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/70 backdrop-blur-sm p-6" onClick={onClose}>
+      <div
+        className="glass w-full max-w-md rounded-[2.5rem] border-orange-500/30 overflow-hidden max-h-[85vh] overflow-y-auto animate-in fade-in zoom-in-95 duration-500"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="relative">
+          {card.thumbnail ? (
+            <img src={card.thumbnail} alt={card.name} className="w-full h-48 object-cover" />
+          ) : (
+            <div className="w-full h-24 braj-gradient opacity-60" />
+          )}
+          <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-black/20 to-transparent" />
+          <button onClick={onClose} className="absolute top-4 right-4 p-2 rounded-2xl bg-black/40 hover:bg-black/60 transition-all active:scale-90">
+            <X className="w-5 h-5 text-white/70" />
+          </button>
+          <div className="absolute bottom-4 inset-x-6">
+            <h2 className="text-3xl font-black text-white uppercase tracking-tighter italic leading-none">{card.name}</h2>
+            {card.deity && (
+              <p className="text-[10px] font-bold text-orange-300 uppercase tracking-widest mt-2">Thakur: {card.deity}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 flex flex-col gap-5">
+          <div>
+            <div className="flex justify-between text-[10px] font-bold uppercase tracking-widest mb-1">
+              <span className={sure ? 'text-green-400' : 'text-yellow-400'}>{sure ? 'Pakki pehchaan' : 'Andaaza hai'}</span>
+              <span className="text-white/40">{percent}%</span>
+            </div>
+            <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+              <div className={`h-full ${sure ? 'bg-green-500' : 'bg-yellow-500'}`} style={{ width: `${percent}%` }} />
+            </div>
+          </div>
+
+          {card.history && (
+            <div>
+              <div className="flex items-center gap-2 mb-2">
+                <Sparkles className="w-4 h-4 text-orange-400" />
+                <h3 className="text-sm font-black text-white uppercase tracking-widest">Katha</h3>
+              </div>
+              <p className="text-sm text-white/70 leading-relaxed">{card.history}</p>
+            </div>
+          )}
+
+          {card.etiquette.length > 0 && (
+            <div>
+              <div className="flex items-center gap-2 mb-2">
+                <HandHeart className="w-4 h-4 text-orange-400" />
+                <h3 className="text-sm font-black text-white uppercase tracking-widest">Darshan Ke Niyam</h3>
+              </div>
+              <ul className="text-xs text-white/60 space-y-1 list-disc list-inside">
+                {card.etiquette.map(tip => <li key={tip}>{tip}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <a
+              href={card.place.uri}
+              target="_blank"
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-3 glass rounded-2xl font-black text-xs uppercase tracking-widest text-white/80 hover:text-white active:scale-95 transition-all"
+            >
+              <ExternalLink className="w-4 h-4" />
+              Naksha{card.place.distanceMeters !== undefined ? ` · ${formatDistance(card.place.distanceMeters)}` : ''}
+            </a>
+            {card.place.location && (
+              <button
+                onClick={() => onNavigate(card.place)}
+                className="px-4 py-3 braj-gradient rounded-2xl flex items-center gap-2 font-black text-xs uppercase tracking-widest active:scale-90 transition-all"
+              >
+                <Footprints className="w-4 h-4" />
+                Chal
+              </button>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between pt-2 border-t border-white/10">
+            <button onClick={onShowAll} className="flex items-center gap-2 text-[10px] font-bold text-white/40 hover:text-white uppercase tracking-widest transition-all">
+              <Images className="w-4 h-4" />
+              Sab Card Dekho
+            </button>
+            <span className="text-[10px] font-bold text-white/30 uppercase tracking-widest">
+              {new Date(card.createdAt).toLocaleDateString()}{card.provider === 'offline' ? ' · bina net' : ''}
+            </span>
+            <button onClick={() => onDelete(card.id)} className="p-2 rounded-xl hover:bg-white/10 transition-all active:scale-90" title="Card hatao">
+              <Trash2 className="w-4 h-4 text-white/40" />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LandmarkCardView;
@@ -0,0 +1,91 @@
+import React, { useMemo, useState } from 'react';
+import { Crosshair, MapPin, X } from 'lucide-react';
+import { GeoLocation, PointOfInterest } from '../types';
+import { PIN_LANDMARKS, assessLocation } from '../services/locationService';
+import { formatDistance } from '../utils/geo';
+
+interface LocationPickerProps {
+  gpsLocation: GeoLocation | null;
+  manualPin: GeoLocation | null;
+  onPick: (poi: PointOfInterest) => void;
+  onClearPin: () => void;
+  onClose: () => void;
+}
+
+const describeGps = (gps: GeoLocation | null) => {
+  const { quality, reason } = assessLocation(gps);
+  if (!gps || quality === 'unusable') return `GPS kaam na kar ryo (${reason})`;
+  if (quality === 'rough') return `GPS thoda kachcha hai (${reason})`;
+  return `GPS theek hai${gps.accuracy !== undefined ? `, ±${formatDistance(gps.accuracy)}` : ''}`;
+};
+
+const LocationPicker: React.FC<LocationPickerProps> = ({ gpsLocation, manualPin, onPick, onClearPin, onClose }) => {
+  const [filter, setFilter] = useState('');
+
+  const landmarks = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    if (!needle) return PIN_LANDMARKS;
+    return PIN_LANDMARKS.filter(poi =>
+      [poi.name, poi.town, ...(poi.altNames ?? [])].some(name => name.toLowerCase().includes(needle))
+    );
+  }, [filter]);
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-end justify-center bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="glass w-full max-w-lg rounded-t-[2.5rem] border-orange-500/20 p-6 pb-10 max-h-[80vh] flex flex-col animate-in slide-in-from-bottom-10 duration-500"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-2xl font-black text-white uppercase tracking-tighter italic">Kaha Khade Ho?</h2>
+            <p className="text-[10px] font-bold text-white/40 uppercase tracking-widest">{describeGps(gpsLocation)}</p>
+          </div>
+          <button onClick={onClose} className="p-3 rounded-2xl hover:bg-white/10 transition-all active:scale-90">
+            <X className="w-6 h-6 text-white/60" />
+          </button>
+        </div>
+
+        {manualPin && (
+          <button
+            onClick={() => { onClearPin(); onClose(); }}
+            className="mb-4 px-5 py-3 rounded-[1.5rem] bg-white/5 border border-white/10 hover:bg-white/10 flex items-center gap-3 text-left transition-all active:scale-[0.98]"
+          >
+            <Crosshair className="w-5 h-5 text-orange-400 shrink-0" />
+            <span className="text-xs font-black text-white uppercase tracking-tight">GPS pe wapas jao (abhi: {manualPin.label})</span>
+          </button>
+        )}
+
+        <input
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+          placeholder="Mandir, ghat, kund dhundho..."
+          className="mb-4 px-5 py-3 rounded-2xl bg-white/5 border border-white/10 outline-none text-white placeholder-white/30 text-sm"
+        />
+
+        <div className="flex flex-col gap-2 overflow-y-auto">
+          {landmarks.map(poi => (
+            <button
+              key={poi.id}
+              onClick={() => { onPick(poi); onClose(); }}
+              className={`px-5 py-3 rounded-[1.5rem] border flex items-center gap-4 text-left transition-all active:scale-[0.98] ${
+                manualPin?.lat === poi.location.lat && manualPin.lng === poi.location.lng ? 'bg-orange-600/30 border-orange-500/60' : 'bg-white/5 border-white/10 hover:bg-white/10'
+              }`}
+            >
+              <MapPin className="w-5 h-5 text-orange-400 shrink-0" />
+              <span className="flex flex-col min-w-0">
+                <span className="text-sm font-black text-white uppercase tracking-tight truncate">{poi.name}</span>
+                <span className="text-[10px] font-bold text-white/40 uppercase tracking-widest">{poi.town} · {poi.category}</span>
+              </span>
+            </button>
+          ))}
+          {landmarks.length === 0 && (
+            <p className="text-xs text-white/40 italic text-center py-6">Aiso koi thikano na milo.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LocationPicker;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Footprints, Flag, X, RefreshCw, AlertTriangle } from 'lucide-react';
+import { NavigationProgress, NavigationStatus, WalkingRoute } from '../types';
+import { formatDistance } from '../utils/geo';
+
+interface NavigationBannerProps {
+  status: NavigationStatus;
+  route: WalkingRoute | null;
+  progress: NavigationProgress | null;
+  onStop: () => void;
+}
+
+const NavigationBanner: React.FC<NavigationBannerProps> = ({ status, route, progress, onStop }) => {
+  if (status === NavigationStatus.IDLE) return null;
+
+  const remaining = progress?.remainingMeters ?? route?.distanceMeters;
+  const instruction =
+    status === NavigationStatus.ROUTING ? 'Rasta dhoondh ryo...' :
+    status === NavigationStatus.OFF_ROUTE ? 'Arre, galat gali! Naya rasta bana ryo...' :
+    status === NavigationStatus.ARRIVED ? `${route?.destination.title} aa gayo, Lalla!` :
+    progress?.nextStep?.instruction ?? route?.steps[0]?.instruction ?? '';
+
+  const Icon =
+    status === NavigationStatus.ROUTING ? RefreshCw :
+    status === NavigationStatus.OFF_ROUTE ? AlertTriangle :
+    status === NavigationStatus.ARRIVED ? Flag : Footprints;
+
+  return (
+    <div className="glass-portal px-5 py-4 rounded-[2rem] flex items-center gap-4 border-orange-500/40 shadow-2xl animate-in fade-in slide-in-from-top-10 duration-500">
+      <div className={`p-3 rounded-2xl ${status === NavigationStatus.OFF_ROUTE ? 'bg-red-500/30' : 'bg-orange-500/30'}`}>
+        <Icon className={`w-7 h-7 text-white ${status === NavigationStatus.ROUTING ? 'animate-spin' : ''}`} />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-base font-black text-white uppercase tracking-tight truncate">{instruction}</p>
+        <p className="text-[10px] font-bold text-orange-300/80 uppercase tracking-widest truncate">
+          {route?.destination.title}
+          {remaining !== undefined && status !== NavigationStatus.ARRIVED && ` · ${formatDistance(remaining)} baaki`}
+          {progress?.distanceToNextStepMeters != null && status === NavigationStatus.NAVIGATING && ` · agla mod ${formatDistance(progress.distanceToNextStepMeters)}`}
+        </p>
+      </div>
+      <button onClick={onStop} className="p-3 rounded-2xl hover:bg-white/10 transition-all active:scale-90">
+        <X className="w-5 h-5 text-white/60" />
+      </button>
+    </div>
+  );
+};
+
+export default NavigationBanner;
@@ -0,0 +1,106 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import RecoveryScreen, { shouldShowRecovery } from './RecoveryScreen';
+import { useLiveGemini } from '../hooks/useLiveGemini';
+import { ConnectionState } from '../types';
+import { createScriptedLiveTransport } from '../services/fakeLiveTransport';
+import { offlineMapSearchProvider } from '../services/mapService';
+import { MediaManager } from '../utils/mediaManager';
+import { MicCapture, startMicCapture } from '../utils/micCapture';
+
+vi.mock('../utils/micCapture', async importOriginal => ({
+  ...await importOriginal<typeof import('../utils/micCapture')>(),
+  startMicCapture: vi.fn(),
+}));
+
+// Just enough of App: the live hook, and the recovery screen whenever App would show it
+const Harness = ({ micDeviceId, media, onLive }: {
+  micDeviceId: string;
+  media: MediaManager;
+  onLive: (live: ReturnType<typeof useLiveGemini>) => void;
+}) => {
+  const [transport] = React.useState(() => createScriptedLiveTransport([[]]));
+  const live = useLiveGemini({ current: null }, { current: null }, null, () => {}, {
+    transport,
+    mapSearchProvider: offlineMapSearchProvider,
+    media,
+    micDeviceId,
+  });
+  onLive(live);
+  return shouldShowRecovery(live.lastError, live.connectionState) && live.lastError ? (
+    <RecoveryScreen
+      error={live.lastError}
+      onRepickKey={() => {}}
+      onRetry={() => {}}
+      onRetryMic={live.retryMic}
+      onTextMode={() => {}}
+      onDismiss={live.clearError}
+    />
+  ) : null;
+};
+
+describe('mic failures during a live session', () => {
+  const media = { acquireMic: vi.fn(async () => ({}) as MediaStream), releaseMic: vi.fn() } as unknown as MediaManager;
+  let live: ReturnType<typeof useLiveGemini>;
+  const onLive = (next: typeof live) => { live = next; };
+
+  // Text session first, then the mic on top, so the switch has a running capture graph to rebuild
+  const startWithMic = async (micDeviceId: string) => {
+    const view = render(<Harness micDeviceId={micDeviceId} media={media} onLive={onLive} />);
+    await act(() => live.connect({ withMic: false }));
+    vi.stubGlobal('AudioContext', class { close() { return Promise.resolve(); } });
+    await act(() => live.retryMic());
+    return view;
+  };
+
+  beforeEach(() => {
+    // jsdom has no canvas, which the frame scheduler notices and shrugs off
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(startMicCapture).mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('shows the mic screen when switching devices fails, without dropping the session', async () => {
+    vi.mocked(startMicCapture)
+      .mockResolvedValueOnce({ stop: vi.fn() } as MicCapture)
+      .mockRejectedValueOnce(new Error('AudioWorklet module failed to load'));
+    const { rerender, unmount } = await startWithMic('built-in');
+    expect(live.micActive).toBe(true);
+    expect(screen.queryByText('Mic Atak Gayo')).toBeNull();
+
+    await act(async () => {
+      rerender(<Harness micDeviceId="usb-headset" media={media} onLive={onLive} />);
+    });
+
+    expect(screen.getByText('Mic Atak Gayo')).toBeTruthy();
+    expect(live.connectionState).toBe(ConnectionState.CONNECTED);
+    expect(live.micActive).toBe(false);
+    unmount();
+  });
+
+  it('keeps the screen up when the retry button fails again, instead of rejecting unhandled', async () => {
+    vi.mocked(startMicCapture)
+      .mockResolvedValueOnce({ stop: vi.fn() } as MicCapture)
+      .mockRejectedValue(new Error('AudioWorklet module failed to load'));
+    const { rerender, unmount } = await startWithMic('built-in');
+    await act(async () => {
+      rerender(<Harness micDeviceId="usb-headset" media={media} onLive={onLive} />);
+    });
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Mic Phir Chalao'));
+    });
+
+    expect(startMicCapture).toHaveBeenCalledTimes(3);
+    expect(screen.getByText('Mic Atak Gayo')).toBeTruthy();
+    expect(live.lastError?.kind).toBe('mic_failed');
+    unmount();
+  });
+});
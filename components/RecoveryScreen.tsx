@@ -0,0 +1,131 @@
+import React from 'react';
+import { Ban, Gauge, Key, Keyboard, MicOff, RefreshCw, WifiOff, X } from 'lucide-react';
+import { BuddyError, BuddyErrorKind, UnsupportedBrowserError, checkBrowserSupport } from '../services/errors';
+import { ConnectionState } from '../types';
+
+interface RecoveryScreenProps {
+  error: BuddyError;
+  onRepickKey: () => void;
+  onRetry: () => void;
+  onRetryMic: () => void;
+  onTextMode: () => void;
+  onDismiss: () => void;
+}
+
+interface RecoveryCopy {
+  icon: React.ElementType;
+  title: string;
+  body: string;
+  steps?: string[];
+}
+
+// Mic trouble leaves the session up, so its screen shows while connected; everything else has ended the session
+export const shouldShowRecovery = (error: BuddyError | null, connectionState: ConnectionState): error is BuddyError =>
+  !!error && (connectionState === ConnectionState.ERROR || error.kind === 'mic_denied' || error.kind === 'mic_failed');
+
+const COPY: Record<BuddyErrorKind, RecoveryCopy> = {
+  bad_key: {
+    icon: Key,
+    title: 'Chaabi Galat Hai!',
+    body: 'Ye key se Gemini ko darwazo na khul ryo. Sahi key chuno, ya Buddy Server se chalao.',
+  },
+  quota: {
+    icon: Gauge,
+    title: 'Aaj Ko Kota Khatam',
+    body: 'Buddy ne aaj itno bol diyo ki hisaab khatam ho gayo. Thodi der baad phir koshish karo, ya billing dekho.',
+  },
+  mic_denied: {
+    icon: MicOff,
+    title: 'Kaan Band Hai',
+    body: 'Mic ki ijaazat na mili, to Buddy sun na paavego. Ijaazat kholo, ya likh ke baat karo.',
+    steps: [
+      'Address bar mein taala (🔒) dabao',
+      '"Microphone" ko "Allow" karo',
+      'Phir niche "Phir Se Puchho" dabao',
+    ],
+  },
+  mic_failed: {
+    icon: MicOff,
+    title: 'Mic Atak Gayo',
+    body: 'Ye mic se awaaz na aa rahi. Phir se chalao, settings mein dusro mic chuno, ya likh ke baat karo.',
+  },
+  network: {
+    icon: WifiOff,
+    title: 'Net Gayo, Lalla',
+    body: 'Gali mein signal na hai. Khule mein aao aur phir se jodo. Naksha tab tak offline list se chalego.',
+  },
+  unsupported: {
+    icon: Ban,
+    title: 'Ye Browser Purano Hai',
+    body: 'Is browser mein awaaz wali cheezein na hain. Chrome ya Safari ko naya version chalao.',
+  },
+  unknown: {
+    icon: RefreshCw,
+    title: 'Kachu Gadbad Ho Gayi',
+    body: 'Pata na kya bigdo. Ek baar phir koshish karo.',
+  },
+};
+
+const RecoveryScreen: React.FC<RecoveryScreenProps> = ({ error, onRepickKey, onRetry, onRetryMic, onTextMode, onDismiss }) => {
+  const { icon: Icon, title, body, steps } = COPY[error.kind];
+  const canType = checkBrowserSupport().text;
+
+  const primary = {
+    bad_key: { label: 'Nayi Key Chuno', icon: Key, action: onRepickKey },
+    quota: { label: 'Phir Koshish', icon: RefreshCw, action: onRetry },
+    mic_denied: { label: 'Phir Se Puchho', icon: RefreshCw, action: onRetryMic },
+    mic_failed: { label: 'Mic Phir Chalao', icon: RefreshCw, action: onRetryMic },
+    network: { label: 'Phir Jodo', icon: RefreshCw, action: onRetry },
+    unsupported: canType ? { label: 'Likh Ke Baat Kar', icon: Keyboard, action: onTextMode } : null,
+    unknown: { label: 'Phir Koshish', icon: RefreshCw, action: onRetry },
+  }[error.kind];
+  // Typing sidesteps the mic entirely, so it's the fallback whenever the problem is about listening
+  const offerText = (error.kind === 'mic_denied' || error.kind === 'mic_failed') && canType;
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/70 backdrop-blur-sm p-6">
+      <div className="glass w-full max-w-md rounded-[2.5rem] border-red-500/30 p-8 text-center animate-in fade-in zoom-in-95 duration-500 relative">
+        <button onClick={onDismiss} className="absolute top-5 right-5 p-2 rounded-2xl hover:bg-white/10 transition-all active:scale-90">
+          <X className="w-5 h-5 text-white/40" />
+        </button>
+        <div className="mx-auto mb-6 w-20 h-20 rounded-[2rem] bg-red-500/20 flex items-center justify-center">
+          <Icon className="w-10 h-10 text-red-400" />
+        </div>
+        <h2 className="text-3xl font-black text-white uppercase tracking-tighter italic mb-3">{title}</h2>
+        <p className="text-sm text-white/60 leading-relaxed mb-4">{body}</p>
+
+        {steps && (
+          <ol className="text-left text-xs text-white/50 space-y-1 mb-4 list-decimal list-inside">
+            {steps.map(step => <li key={step}>{step}</li>)}
+          </ol>
+        )}
+        {error instanceof UnsupportedBrowserError && (
+          <p className="text-[10px] font-bold text-white/30 uppercase tracking-widest mb-4">Na mili: {error.missing.join(', ')}</p>
+        )}
+
+        <div className="flex flex-col gap-3 mt-6">
+          {primary && (
+            <button
+              onClick={primary.action}
+              className="flex items-center justify-center gap-3 px-8 py-4 braj-gradient rounded-full font-black text-sm uppercase tracking-widest active:scale-95 transition-all"
+            >
+              <primary.icon className="w-5 h-5" />
+              {primary.label}
+            </button>
+          )}
+          {offerText && (
+            <button
+              onClick={onTextMode}
+              className="flex items-center justify-center gap-3 px-8 py-4 glass rounded-full font-black text-sm uppercase tracking-widest text-white/70 hover:text-white active:scale-95 transition-all"
+            >
+              <Keyboard className="w-5 h-5" />
+              Likh Ke Baat Kar
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryScreen;
@@ -0,0 +1,278 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Download, Film, FolderOpen, Play, Volume2, X } from 'lucide-react';
+import { AudioSpan, loadRecording, RecordedEvent, SessionRecording, summarizeEvent } from '../services/sessionRecorder';
+import { decodePcm16 } from '../utils/audio';
+
+interface ReplayViewerProps {
+  // What this phone has recorded so far; null when there's nothing yet
+  recording: SessionRecording | null;
+  onExport: (recording: SessionRecording) => void;
+  // Replays the server side through the fake backend, so the app behaves as it did
+  onRunAsSession: (recording: SessionRecording) => void;
+  onClose: () => void;
+}
+
+// Events listed either side of the current one
+const LIST_BEFORE = 3;
+const LIST_AFTER = 6;
+
+const EVENT_COLORS: Record<RecordedEvent['type'], string> = {
+  state: 'text-white/40',
+  connect: 'text-blue-300',
+  open: 'text-blue-300',
+  close: 'text-blue-300',
+  server: 'text-orange-300',
+  mic: 'text-green-300',
+  frame: 'text-white/60',
+  client: 'text-green-300',
+  map_result: 'text-yellow-300',
+  error: 'text-red-400',
+};
+
+const clock = (ms: number) => {
+  const seconds = ms / 1000;
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+};
+
+// The audio an event carries, if any: the user's voice for mic chunks, Buddy's for replies
+const audioOf = (event: RecordedEvent | undefined, recording: SessionRecording) => {
+  if (event?.type === 'mic') return { track: recording.mic, spans: [event.span], sampleRate: recording.header.micSampleRate };
+  if (event?.type === 'server' && event.audio?.length) return { track: recording.model, spans: event.audio, sampleRate: recording.header.modelSampleRate };
+  return null;
+};
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ recording, onExport, onRunAsSession, onClose }) => {
+  const [shown, setShown] = useState<SessionRecording | null>(recording);
+  const [step, setStep] = useState(0);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [frameUrl, setFrameUrl] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+  const events = shown?.events ?? [];
+  const event = events[step];
+
+  // What the camera was showing at this point: the last frame sent at or before it
+  const frameFile = useMemo(() => {
+    for (let i = step; i >= 0; i--) {
+      const candidate = events[i];
+      if (candidate?.type === 'frame' && candidate.file) return candidate.file;
+    }
+    return null;
+  }, [events, step]);
+
+  useEffect(() => {
+    const bytes = frameFile ? shown?.frames.get(frameFile) : undefined;
+    if (!bytes) {
+      setFrameUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type: 'image/jpeg' }));
+    setFrameUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [frameFile, shown]);
+
+  useEffect(() => () => {
+    sourceRef.current?.stop();
+    audioContextRef.current?.close();
+  }, []);
+
+  const stopAudio = () => {
+    sourceRef.current?.stop();
+    sourceRef.current = null;
+  };
+
+  const goTo = (index: number) => {
+    stopAudio();
+    setStep(Math.max(0, Math.min(index, events.length - 1)));
+  };
+
+  const play = (track: Int16Array, spans: AudioSpan[], sampleRate: number) => {
+    stopAudio();
+    const ctx = audioContextRef.current ?? new AudioContext();
+    audioContextRef.current = ctx;
+    const total = spans.reduce((sum, span) => sum + span.length, 0);
+    if (total === 0) return;
+    const buffer = ctx.createBuffer(1, total, sampleRate);
+    const channel = buffer.getChannelData(0);
+    let offset = 0;
+    spans.forEach(span => {
+      const bytes = new Uint8Array(track.buffer, track.byteOffset + span.start * 2, span.length * 2);
+      channel.set(decodePcm16(bytes), offset);
+      offset += span.length;
+    });
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.start();
+    sourceRef.current = source;
+  };
+
+  const openFile = async (file: File) => {
+    try {
+      const loaded = loadRecording(new Uint8Array(await file.arrayBuffer()));
+      stopAudio();
+      setShown(loaded);
+      setStep(0);
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(`Ye recording na khuli: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const audio = shown ? audioOf(event, shown) : null;
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-end justify-center bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="glass w-full max-w-lg rounded-t-[2.5rem] border-orange-500/20 p-6 pb-10 max-h-[85vh] overflow-y-auto animate-in slide-in-from-bottom-10 duration-500"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-black text-white uppercase tracking-tighter italic">Baat-cheet Dobara</h2>
+            <p className="text-[10px] font-bold text-white/40 uppercase tracking-widest">
+              {shown
+                ? `${new Date(shown.header.startedAt).toLocaleString()} · ${events.length} ghatna${shown.header.truncated ? ' · adhoori' : ''}`
+                : 'Koi recording na hai'}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-3 rounded-2xl hover:bg-white/10 transition-all active:scale-90">
+            <X className="w-6 h-6 text-white/60" />
+          </button>
+        </div>
+
+        {shown && event ? (
+          <>
+            <div className="rounded-[1.5rem] overflow-hidden bg-white/5 border border-white/10">
+              {frameUrl ? (
+                <img src={frameUrl} alt="Camera frame" className="w-full max-h-56 object-contain bg-black" />
+              ) : (
+                <div className="w-full h-24 flex items-center justify-center bg-orange-600/10">
+                  <Film className="w-8 h-8 text-orange-400/60" />
+                </div>
+              )}
+              <div className="px-4 py-3 flex items-start gap-3">
+                <span className="text-xs font-black text-white/60 tabular-nums shrink-0">{clock(event.t)}</span>
+                <span className={`flex-1 text-xs font-bold break-words ${EVENT_COLORS[event.type]}`}>{summarizeEvent(event, shown.header)}</span>
+                {audio && (
+                  <button
+                    onClick={() => play(audio.track, audio.spans, audio.sampleRate)}
+                    className="p-2 rounded-xl bg-white/10 hover:bg-white/20 transition-all active:scale-90 shrink-0"
+                    title="Suno"
+                  >
+                    <Volume2 className="w-4 h-4 text-white" />
+                  </button>
+                )}
+              </div>
+              {event.type === 'map_result' && (
+                <div className="px-4 pb-3">
+                  <p className="text-[11px] text-white/70 line-clamp-4">{event.result.text}</p>
+                  {event.result.places.map(place => (
+                    <span key={place.placeId ?? place.name} className="block text-[10px] font-bold text-yellow-300/80 uppercase tracking-widest truncate">
+                      {place.name}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center gap-3 mt-4">
+              <button
+                onClick={() => goTo(step - 1)}
+                disabled={step === 0}
+                className="p-3 rounded-2xl bg-white/5 border border-white/10 hover:bg-white/10 transition-all active:scale-90 disabled:opacity-30"
+                title="Pichhla"
+              >
+                <ChevronLeft className="w-5 h-5 text-white" />
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={events.length - 1}
+                value={step}
+                onChange={e => goTo(Number(e.target.value))}
+                className="flex-1 accent-orange-500"
+              />
+              <button
+                onClick={() => goTo(step + 1)}
+                disabled={step === events.length - 1}
+                className="p-3 rounded-2xl bg-white/5 border border-white/10 hover:bg-white/10 transition-all active:scale-90 disabled:opacity-30"
+                title="Agla"
+              >
+                <ChevronRight className="w-5 h-5 text-white" />
+              </button>
+            </div>
+            <p className="text-[10px] text-white/30 uppercase tracking-widest font-bold text-center mt-2 tabular-nums">
+              {step + 1} / {events.length}
+            </p>
+
+            <div className="flex flex-col gap-1 mt-4">
+              {events.slice(Math.max(0, step - LIST_BEFORE), step + LIST_AFTER + 1).map((item, i) => {
+                const index = Math.max(0, step - LIST_BEFORE) + i;
+                return (
+                  <button
+                    key={index}
+                    onClick={() => goTo(index)}
+                    className={`flex items-start gap-3 px-3 py-2 rounded-xl text-left transition-all ${
+                      index === step ? 'bg-orange-600/30 border border-orange-500/60' : 'hover:bg-white/5 border border-transparent'
+                    }`}
+                  >
+                    <span className="text-[10px] font-black text-white/40 tabular-nums shrink-0 mt-0.5">{clock(item.t)}</span>
+                    <span className={`text-[11px] font-bold truncate ${EVENT_COLORS[item.type]}`}>{summarizeEvent(item, shown.header)}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </>
+        ) : (
+          <p className="text-xs text-white/40 italic text-center py-4">
+            Settings mein recording chalu karo, ya kisi ki bheji recording kholo.
+          </p>
+        )}
+
+        {loadError && <p className="text-[10px] font-bold text-red-400 uppercase tracking-widest text-center mt-4">{loadError}</p>}
+
+        <div className="grid grid-cols-3 gap-2 mt-6">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-3 rounded-2xl bg-white/5 border border-white/10 hover:bg-white/10 flex flex-col items-center gap-1 transition-all active:scale-95"
+          >
+            <FolderOpen className="w-5 h-5 text-white/70" />
+            <span className="text-[10px] font-black text-white uppercase tracking-widest">Kholo</span>
+          </button>
+          <button
+            onClick={() => shown && onExport(shown)}
+            disabled={!shown}
+            className="px-3 py-3 rounded-2xl bg-white/5 border border-white/10 hover:bg-white/10 flex flex-col items-center gap-1 transition-all active:scale-95 disabled:opacity-30"
+          >
+            <Download className="w-5 h-5 text-white/70" />
+            <span className="text-[10px] font-black text-white uppercase tracking-widest">Bhejo</span>
+          </button>
+          <button
+            onClick={() => shown && onRunAsSession(shown)}
+            disabled={!shown}
+            className="px-3 py-3 rounded-2xl bg-orange-600/30 border border-orange-500/60 flex flex-col items-center gap-1 transition-all active:scale-95 disabled:opacity-30"
+          >
+            <Play className="w-5 h-5 text-orange-300" />
+            <span className="text-[10px] font-black text-white uppercase tracking-widest">Chalao</span>
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".zip,application/zip"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) openFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Bell, CalendarClock, CalendarDays, X } from 'lucide-react';
+import { ScheduleAnswer, TempleStatus } from '../types';
+import { daysFromToday, istClock } from '../services/darshanService';
+import { formatDistance } from '../utils/geo';
+
+interface ScheduleCardProps {
+  answer: ScheduleAnswer;
+  onClose: () => void;
+}
+
+// Festivals are a teaser here; Buddy reads out the rest
+const MAX_FESTIVALS_SHOWN = 3;
+
+const dayLabel = (date: string, now: number) => {
+  const away = daysFromToday(date, now);
+  return away === 0 ? 'aaj' : away === 1 ? 'kal' : date;
+};
+
+const statusLine = (status: TempleStatus, now: number) => {
+  if (status.open === null) return { text: 'Hamesha khulo', tone: 'text-green-300' };
+  if (status.open) return { text: `Khulo hai · ${status.closesAt} tak`, tone: 'text-green-300' };
+  if (status.nextOpening) {
+    return { text: `Band · ${dayLabel(status.nextOpening.date, now)} ${status.nextOpening.at} pe khulego`, tone: 'text-red-300' };
+  }
+  return { text: 'Band hai', tone: 'text-red-300' };
+};
+
+const ScheduleCard: React.FC<ScheduleCardProps> = ({ answer, onClose }) => {
+  const { asOf, temples, festivals } = answer;
+
+  return (
+    <div className="glass rounded-[2rem] border-orange-500/30 p-5 animate-in fade-in slide-in-from-top-10 duration-700">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="w-4 h-4 text-orange-400" />
+          <span className="text-[10px] font-black text-orange-400/80 uppercase tracking-[0.3em]">Darshan Ki Ghadi · {istClock(asOf).time}</span>
+        </div>
+        <button onClick={onClose} className="p-1.5 rounded-xl hover:bg-white/10 transition-all active:scale-90">
+          <X className="w-4 h-4 text-white/50" />
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-3">
+        {temples.map(status => {
+          const line = statusLine(status, asOf);
+          return (
+            <div key={status.poiId} className="flex flex-col">
+              <div className="flex items-baseline justify-between gap-3">
+                <span className="text-sm font-black text-white uppercase tracking-tight truncate">{status.name}</span>
+                {status.distanceMeters !== undefined && (
+                  <span className="text-[10px] font-bold text-white/40 uppercase tracking-widest shrink-0">{formatDistance(status.distanceMeters)}</span>
+                )}
+              </div>
+              <span className={`text-[10px] font-bold uppercase tracking-widest ${line.tone}`}>{line.text}</span>
+              {status.nextAarti && (
+                <span className="flex items-center gap-1 text-[10px] font-bold text-orange-300/70 uppercase tracking-widest">
+                  <Bell className="w-3 h-3" />
+                  {status.nextAarti.name} {dayLabel(status.nextAarti.date, asOf)} {status.nextAarti.at}
+                </span>
+              )}
+              {status.festivalNote && <span className="text-xs text-yellow-200/80 mt-1">{status.festivalNote}</span>}
+            </div>
+          );
+        })}
+
+        {festivals.length > 0 && (
+          <div className={`flex flex-col gap-1 ${temples.length > 0 ? 'pt-3 border-t border-white/10' : ''}`}>
+            {festivals.slice(0, MAX_FESTIVALS_SHOWN).map(({ festival, date, daysAway }) => (
+              <div key={festival.id} className="flex items-center gap-2">
+                <CalendarDays className="w-3 h-3 text-orange-400 shrink-0" />
+                <span className="flex-1 min-w-0 text-xs font-black text-white uppercase tracking-tight truncate">{festival.name}</span>
+                <span className="text-[10px] font-bold text-white/40 uppercase tracking-widest shrink-0">
+                  {daysAway <= 1 ? dayLabel(date, asOf) : `${daysAway} din mein`}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleCard;
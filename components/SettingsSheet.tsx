@@ -0,0 +1,411 @@
+import React from 'react';
+import { Camera, Captions, Check, ChevronRight, CircleDot, Film, Gauge, Hand, Images, Key, Mic, Mic2, Server, Trash2, Video, Volume2, VolumeX, X } from 'lucide-react';
+import { PersonaProfile } from '../types';
+import { PERSONAS } from '../data/personas';
+import { FRAME_PRESETS, FramePresetName, FrameStats } from '../utils/frameScheduler';
+import { MicMode } from '../utils/voiceActivity';
+import { KeyMode } from '../services/proxyBackend';
+import { CAPTION_LANGUAGES, CaptionLanguage } from '../services/translationService';
+import { PLAYBACK_RATES, PlaybackSettings } from '../utils/replyPlayer';
+
+interface SettingsSheetProps {
+  current: PersonaProfile;
+  isSessionLive: boolean;
+  onSelect: (id: string) => void;
+  framePreset: FramePresetName;
+  frameStats: FrameStats;
+  onSelectFramePreset: (name: FramePresetName) => void;
+  micMode: MicMode;
+  onSelectMicMode: (mode: MicMode) => void;
+  playback: PlaybackSettings;
+  // Empty where the browser can't pick an output
+  audioOutputs: MediaDeviceInfo[];
+  onChangePlayback: (settings: PlaybackSettings) => void;
+  cameras: MediaDeviceInfo[];
+  cameraId: string;
+  onSelectCamera: (deviceId: string) => void;
+  mics: MediaDeviceInfo[];
+  micId: string;
+  onSelectMic: (deviceId: string) => void;
+  keyMode: KeyMode;
+  onSelectKeyMode: (mode: KeyMode) => void;
+  captionLanguage: CaptionLanguage;
+  onSelectCaptionLanguage: (language: CaptionLanguage) => void;
+  usageSummary: string;
+  onOpenUsage: () => void;
+  landmarkCount: number;
+  onOpenLandmarks: () => void;
+  recordSessions: boolean;
+  onSelectRecordSessions: (on: boolean) => void;
+  recordingSummary: string;
+  // Absent while there's nothing recorded
+  onClearRecording?: () => void;
+  onOpenReplay: () => void;
+  onClose: () => void;
+}
+
+const SettingsSheet: React.FC<SettingsSheetProps> = ({
+  current,
+  isSessionLive,
+  onSelect,
+  framePreset,
+  frameStats,
+  onSelectFramePreset,
+  micMode,
+  onSelectMicMode,
+  playback,
+  audioOutputs,
+  onChangePlayback,
+  cameras,
+  cameraId,
+  onSelectCamera,
+  mics,
+  micId,
+  onSelectMic,
+  keyMode,
+  onSelectKeyMode,
+  captionLanguage,
+  onSelectCaptionLanguage,
+  usageSummary,
+  onOpenUsage,
+  landmarkCount,
+  onOpenLandmarks,
+  recordSessions,
+  onSelectRecordSessions,
+  recordingSummary,
+  onClearRecording,
+  onOpenReplay,
+  onClose,
+}) => (
+  <div className="absolute inset-0 z-40 flex items-end justify-center bg-black/60 backdrop-blur-sm" onClick={onClose}>
+    <div
+      className="glass w-full max-w-lg rounded-t-[2.5rem] border-orange-500/20 p-6 pb-10 max-h-[80vh] overflow-y-auto animate-in slide-in-from-bottom-10 duration-500"
+      onClick={e => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-black text-white uppercase tracking-tighter italic">Buddy Ko Chuno</h2>
+          <p className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Kaun sa Buddy, kaisi boli</p>
+        </div>
+        <button onClick={onClose} className="p-3 rounded-2xl hover:bg-white/10 transition-all active:scale-90">
+          <X className="w-6 h-6 text-white/60" />
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-3">
+        {PERSONAS.map(p => {
+          const selected = p.id === current.id;
+          return (
+            <button
+              key={p.id}
+              onClick={() => onSelect(p.id)}
+              className={`text-left px-5 py-4 rounded-[1.5rem] border transition-all active:scale-[0.98] ${
+                selected ? 'bg-orange-600/30 border-orange-500/60' : 'bg-white/5 border-white/10 hover:bg-white/10'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-4">
+                <span className="text-base font-black text-white uppercase tracking-tight">{p.name}</span>
+                {selected && <Check className="w-5 h-5 text-orange-400 shrink-0" />}
+              </div>
+              <p className="text-xs text-white/60 mt-1">{p.description}</p>
+              <div className="flex items-center gap-3 mt-2 text-[10px] font-bold text-orange-300/70 uppercase tracking-widest">
+                <Mic2 className="w-3 h-3" />
+                <span>{p.voiceName}</span>
+                <span>·</span>
+                <span>"{p.greeting}"</span>
+                <span>·</span>
+                <span>≤ {p.maxWordsPerTurn} words</span>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {isSessionLive && (
+        <p className="text-[10px] text-yellow-400/80 uppercase tracking-widest font-bold text-center mt-6">
+          Naya Buddy agli baar bulaane pe aayego
+        </p>
+      )}
+
+      <div className="mt-8">
+        <div className="flex items-center gap-2 mb-3">
+          <Mic className="w-4 h-4 text-orange-400" />
+          <h3 className="text-sm font-black text-white uppercase tracking-widest">Mic Kaise Chale</h3>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {([
+            { mode: 'auto' as const, icon: Mic, label: 'Apne Aap', hint: 'Bolte hi sun lego' },
+            { mode: 'hold' as const, icon: Hand, label: 'Daba Ke Bol', hint: 'Ghat pe shor ho tab' },
+          ]).map(({ mode, icon: Icon, label, hint }) => (
+            <button
+              key={mode}
+              onClick={() => onSelectMicMode(mode)}
+              className={`px-3 py-3 rounded-2xl border flex items-center gap-3 text-left transition-all active:scale-95 ${
+                mode === micMode ? 'bg-orange-600/30 border-orange-500/60' : 'bg-white/5 border-white/10 hover:bg-white/10'
+              }`}
+            >
+              <Icon className="w-5 h-5 text-white/70 shrink-0" />
+              <span>
+                <span className="block text-xs font-black text-white uppercase tracking-tight">{label}</span>
+                <span className="block text-[10px] font-bold text-white/40">{hint}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {(cameras.length > 1 || mics.length > 1) && (
+        <div className="mt-8">
+          <div className="flex items-center gap-2 mb-3">
+            <Video className="w-4 h-4 text-orange-400" />
+            <h3 className="text-sm font-black text-white uppercase tracking-widest">Camera Aur Mic</h3>
+          </div>
+          <div className="flex flex-col gap-2">
+            {cameras.length > 1 && (
+              <select
+                value={cameraId}
+                onChange={e => onSelectCamera(e.target.value)}
+                className="w-full px-4 py-3 rounded-2xl bg-white/5 border border-white/10 text-xs font-bold text-white outline-none focus:border-orange-500/60"
+              >
+                <option value="" className="bg-neutral-900">Aage-peeche ke button se</option>
+                {cameras.map((device, i) => (
+                  <option key={device.deviceId} value={device.deviceId} className="bg-neutral-900">
+                    {device.label || `Camera ${i + 1}`}
+                  </option>
+                ))}
+              </select>
+            )}
+            {mics.length > 1 && (
+              <select
+                value={micId}
+                onChange={e => onSelectMic(e.target.value)}
+                className="w-full px-4 py-3 rounded-2xl bg-white/5 border border-white/10 text-xs font-bold text-white outline-none focus:border-orange-500/60"
+              >
+                <option value="" className="bg-neutral-900">Phone ko mic</option>
+                {mics.map((device, i) => (
+                  <option key={device.deviceId} value={device.deviceId} className="bg-neutral-900">
+                    {device.label || `Mic ${i + 1}`}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-8">
+        <div className="flex items-center gap-2 mb-3">
+          <Volume2 className="w-4 h-4 text-orange-400" />
+          <h3 className="text-sm font-black text-white uppercase tracking-widest">Buddy Ki Awaaz</h3>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => onChangePlayback({ ...playback, muted: !playback.muted })}
+            className={`p-3 rounded-2xl border transition-all active:scale-90 ${
+              playback.muted ? 'bg-orange-600/30 border-orange-500/60' : 'bg-white/5 border-white/10 hover:bg-white/10'
+            }`}
+            title={playback.muted ? 'Awaaz kholo' : 'Chup karao'}
+          >
+            {playback.muted ? <VolumeX className="w-5 h-5 text-orange-300" /> : <Volume2 className="w-5 h-5 text-white/70" />}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={playback.volume}
+            disabled={playback.muted}
+            onChange={e => onChangePlayback({ ...playback, volume: Number(e.target.value) })}
+            className="flex-1 accent-orange-500 disabled:opacity-30"
+          />
+          <span className="w-10 text-right text-xs font-black text-white/60 tabular-nums">{Math.round(playback.volume * 100)}%</span>
+        </div>
+        <div className="grid grid-cols-4 gap-2 mt-3">
+          {PLAYBACK_RATES.map(rate => (
+            <button
+              key={rate}
+              onClick={() => onChangePlayback({ ...playback, rate })}
+              className={`px-2 py-3 rounded-2xl border text-center transition-all active:scale-95 ${
+                rate === playback.rate ? 'bg-orange-600/30 border-orange-500/60' : 'bg-white/5 border-white/10 hover:bg-white/10'
+              }`}
+            >
+              <span className="block text-xs font-black text-white tracking-tight">{rate}×</span>
+              <span className="block text-[10px] font-bold text-white/40">{rate < 1 ? 'Aaram se' : rate > 1 ? 'Jaldi' : 'Jaise hai'}</span>
+            </button>
+          ))}
+        </div>
+        {audioOutputs.length > 0 && (
+          <select
+            value={playback.sinkId}
+            onChange={e => onChangePlayback({ ...playback, sinkId: e.target.value })}
+            className="mt-3 w-full px-4 py-3 rounded-2xl bg-white/5 border border-white/10 text-xs font-bold text-white outline-none focus:border-orange-500/60"
+          >
+            <option value="" className="bg-neutral-900">Phone jo chune</option>
+            {audioOutputs.map((device, i) => (
+              <option key={device.deviceId} value={device.deviceId} className="bg-neutral-900">
+                {device.label || `Speaker ${i + 1}`}
+              </option>
+            ))}
+          </select>
+        )}
+        <p className="text-[10px] text-white/30 uppercase tracking-widest font-bold mt-2">Naya speed agli baat se lagego</p>
+      </div>
+
+      <div className="mt-8">
+        <div className="flex items-center gap-2 mb-3">
+          <Captions className="w-4 h-4 text-orange-400" />
+          <h3 className="text-sm font-black text-white uppercase tracking-widest">Matlab Bhi Dikhao</h3>
+        </div>
+        <div className="grid grid-cols-4 gap-2">
+          {(Object.keys(CAPTION_LANGUAGES) as CaptionLanguage[]).map(language => (
+            <button
+              key={language}
+              onClick={() => onSelectCaptionLanguage(language)}
+              className={`px-2 py-3 rounded-2xl border text-center text-xs font-black text-white tracking-tight transition-all active:scale-95 ${
+                language === captionLanguage ? 'bg-orange-600/30 border-orange-500/60' : 'bg-white/5 border-white/10 hover:bg-white/10'
+              }`}
+            >
+              {CAPTION_LANGUAGES[language].label}
+            </button>
+          ))}
+        </div>
+        <p className="text-[10px] text-white/30 uppercase tracking-widest font-bold mt-2">Buddy ki baat ke niche anuvaad</p>
+      </div>
+
+      <div className="mt-8">
+        <div className="flex items-center gap-2 mb-3">
+          <Camera className="w-4 h-4 text-orange-400" />
+          <h3 className="text-sm font-black text-white uppercase tracking-widest">Camera Ki Tasveer</h3>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(FRAME_PRESETS) as FramePresetName[]).map(name => {
+            const preset = FRAME_PRESETS[name];
+            const selected = name === framePreset;
+            return (
+              <button
+                key={name}
+                onClick={() => onSelectFramePreset(name)}
+                className={`px-3 py-3 rounded-2xl border text-center transition-all active:scale-95 ${
+                  selected ? 'bg-orange-600/30 border-orange-500/60' : 'bg-white/5 border-white/10 hover:bg-white/10'
+                }`}
+              >
+                <span className="block text-xs font-black text-white uppercase tracking-tight">{preset.label}</span>
+                <span className="block text-[10px] font-bold text-white/40 mt-1">{preset.width}×{preset.height}</span>
+              </button>
+            );
+          })}
+        </div>
+        {isSessionLive && (
+          <p className="text-[10px] text-white/40 uppercase tracking-widest font-bold text-center mt-3">
+            {frameStats.sent} bheji · {frameStats.captured} dekhi · {frameStats.skippedDuplicate} ek jaisi
+          </p>
+        )}
+      </div>
+
+      <div className="mt-8">
+        <div className="flex items-center gap-2 mb-3">
+          <Key className="w-4 h-4 text-orange-400" />
+          <h3 className="text-sm font-black text-white uppercase tracking-widest">Chaabi Kahan Se</h3>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {([
+            { mode: 'key' as const, icon: Key, label: 'Apni Key', hint: 'Key is phone pe' },
+            { mode: 'proxy' as const, icon: Server, label: 'Buddy Server', hint: 'Key server pe, yaha token' },
+          ]).map(({ mode, icon: Icon, label, hint }) => (
+            <button
+              key={mode}
+              onClick={() => onSelectKeyMode(mode)}
+              className={`px-3 py-3 rounded-2xl border flex items-center gap-3 text-left transition-all active:scale-95 ${
+                mode === keyMode ? 'bg-orange-600/30 border-orange-500/60' : 'bg-white/5 border-white/10 hover:bg-white/10'
+              }`}
+            >
+              <Icon className="w-5 h-5 text-white/70 shrink-0" />
+              <span>
+                <span className="block text-xs font-black text-white uppercase tracking-tight">{label}</span>
+                <span className="block text-[10px] font-bold text-white/40">{hint}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+        {isSessionLive && (
+          <p className="text-[10px] text-yellow-400/80 uppercase tracking-widest font-bold text-center mt-3">
+            Agli baar bulaane pe lagego
+          </p>
+        )}
+      </div>
+
+      <button
+        onClick={onOpenUsage}
+        className="mt-8 w-full px-5 py-4 rounded-[1.5rem] border bg-white/5 border-white/10 hover:bg-white/10 flex items-center gap-3 text-left transition-all active:scale-[0.98]"
+      >
+        <Gauge className="w-5 h-5 text-orange-400 shrink-0" />
+        <span className="flex-1">
+          <span className="block text-sm font-black text-white uppercase tracking-widest">Kharcha-Paani</span>
+          <span className="block text-[10px] font-bold text-white/40 uppercase tracking-widest">{usageSummary}</span>
+        </span>
+        <ChevronRight className="w-5 h-5 text-white/40" />
+      </button>
+
+      <button
+        onClick={onOpenLandmarks}
+        className="mt-3 w-full px-5 py-4 rounded-[1.5rem] border bg-white/5 border-white/10 hover:bg-white/10 flex items-center gap-3 text-left transition-all active:scale-[0.98]"
+      >
+        <Images className="w-5 h-5 text-orange-400 shrink-0" />
+        <span className="flex-1">
+          <span className="block text-sm font-black text-white uppercase tracking-widest">Darshan Ki Yaadein</span>
+          <span className="block text-[10px] font-bold text-white/40 uppercase tracking-widest">{landmarkCount} card</span>
+        </span>
+        <ChevronRight className="w-5 h-5 text-white/40" />
+      </button>
+
+      <div className="mt-8">
+        <div className="flex items-center gap-2 mb-3">
+          <CircleDot className="w-4 h-4 text-orange-400" />
+          <h3 className="text-sm font-black text-white uppercase tracking-widest">Baat-cheet Record</h3>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {([
+            { on: false, label: 'Band', hint: 'Kuch na rakho' },
+            { on: true, label: 'Chalu', hint: 'Awaaz, camera, jawab phone pe' },
+          ]).map(({ on, label, hint }) => (
+            <button
+              key={label}
+              onClick={() => onSelectRecordSessions(on)}
+              className={`px-3 py-3 rounded-2xl border text-left transition-all active:scale-95 ${
+                on === recordSessions ? 'bg-orange-600/30 border-orange-500/60' : 'bg-white/5 border-white/10 hover:bg-white/10'
+              }`}
+            >
+              <span className="block text-xs font-black text-white uppercase tracking-tight">{label}</span>
+              <span className="block text-[10px] font-bold text-white/40">{hint}</span>
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 mt-3">
+          <button
+            onClick={onOpenReplay}
+            className="flex-1 px-5 py-4 rounded-[1.5rem] border bg-white/5 border-white/10 hover:bg-white/10 flex items-center gap-3 text-left transition-all active:scale-[0.98]"
+          >
+            <Film className="w-5 h-5 text-orange-400 shrink-0" />
+            <span className="flex-1">
+              <span className="block text-sm font-black text-white uppercase tracking-widest">Dobara Dekho</span>
+              <span className="block text-[10px] font-bold text-white/40 uppercase tracking-widest">{recordingSummary}</span>
+            </span>
+            <ChevronRight className="w-5 h-5 text-white/40" />
+          </button>
+          {onClearRecording && (
+            <button onClick={onClearRecording} className="p-4 rounded-[1.5rem] border bg-white/5 border-white/10 hover:bg-white/10 transition-all active:scale-90" title="Recording mitao">
+              <Trash2 className="w-5 h-5 text-white/40" />
+            </button>
+          )}
+        </div>
+        {isSessionLive && (
+          <p className="text-[10px] text-yellow-400/80 uppercase tracking-widest font-bold text-center mt-3">
+            Agli baar bulaane pe lagego
+          </p>
+        )}
+      </div>
+    </div>
+  </div>
+);
+
+export default SettingsSheet;
@@ -0,0 +1,61 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ShieldAlert } from 'lucide-react';
+
+interface SosButtonProps {
+  active: boolean;
+  // Fired after a full hold while SOS is off, or on a plain tap while it's on
+  onTrigger: () => void;
+  className?: string;
+}
+
+// Long enough that a pocket or a jostle in the crowd can't set it off
+const HOLD_MS = 1500;
+
+const SosButton: React.FC<SosButtonProps> = ({ active, onTrigger, className = '' }) => {
+  const [holding, setHolding] = useState(false);
+  const timerRef = useRef<number | null>(null);
+
+  const cancel = () => {
+    if (timerRef.current !== null) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    setHolding(false);
+  };
+
+  useEffect(() => cancel, []);
+
+  const start = (e: React.PointerEvent<HTMLButtonElement>) => {
+    // Once SOS is on there's nothing to guard against; a tap just brings the screen back
+    if (active) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setHolding(true);
+    timerRef.current = window.setTimeout(() => {
+      timerRef.current = null;
+      setHolding(false);
+      navigator.vibrate?.(200);
+      onTrigger();
+    }, HOLD_MS);
+  };
+
+  return (
+    <button
+      onPointerDown={start}
+      onPointerUp={cancel}
+      onPointerCancel={cancel}
+      onPointerLeave={cancel}
+      onClick={active ? onTrigger : undefined}
+      onContextMenu={e => e.preventDefault()}
+      className={`glass p-4 rounded-2xl overflow-hidden select-none touch-none transition-all active:scale-90 ${
+        active ? 'border-red-500/80 bg-red-600/40 animate-pulse' : 'border-red-500/40'
+      } ${className}`}
+      title={active ? 'Madad Mode' : 'SOS: daba ke rakho'}
+    >
+      <span
+        className="absolute inset-x-0 bottom-0 bg-red-600/70"
+        style={{ height: holding ? '100%' : '0%', transition: holding ? `height ${HOLD_MS}ms linear` : 'none' }}
+      />
+      <ShieldAlert className="relative w-6 h-6 text-red-400" />
+    </button>
+  );
+};
+
+export default SosButton;
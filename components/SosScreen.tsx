@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { ChevronDown, ExternalLink, Footprints, History, Hospital, LifeBuoy, MessageSquare, Phone, Share2, Siren, Trash2 } from 'lucide-react';
+import { Breadcrumb, GeoLocation, PlaceResult, PoiCategory, PointOfInterest } from '../types';
+import { buildSosMessage, EMERGENCY_NUMBERS, formatCoordinates, shareSosMessage, ShareOutcome, smsLinkFor } from '../services/safetyService';
+import { mapsLinkFor, poiToPlace } from '../services/offlinePoiService';
+import { nearestLandmark } from '../services/locationService';
+import { distanceMeters, formatDistance } from '../utils/geo';
+
+interface SosScreenProps {
+  location: GeoLocation | null;
+  help: { poi: PointOfInterest; distance: number }[];
+  trail: Breadcrumb[];
+  buddyOnline: boolean;
+  onNavigate: (place: PlaceResult) => void;
+  onPickLocation: () => void;
+  onClearTrail: () => void;
+  onHide: () => void;
+  onEnd: () => void;
+}
+
+// The last few are what matter for "where did we lose each other"
+const TRAIL_SHOWN = 6;
+
+const HELP_LABELS: Partial<Record<PoiCategory, { label: string; icon: React.ReactNode }>> = {
+  police: { label: 'Police', icon: <Siren className="w-5 h-5 text-blue-300" /> },
+  hospital: { label: 'Aspatal', icon: <Hospital className="w-5 h-5 text-red-300" /> },
+  lost_found: { label: 'Khoya-Paya', icon: <LifeBuoy className="w-5 h-5 text-yellow-300" /> },
+};
+
+const SHARE_NOTES: Record<ShareOutcome, string | null> = {
+  shared: null,
+  cancelled: null,
+  copied: 'Sandesh copy ho gayo, kahin bhi chipka do',
+  failed: 'Bhej na paaye; number padh ke bata do',
+};
+
+const clockTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const SosScreen: React.FC<SosScreenProps> = ({
+  location,
+  help,
+  trail,
+  buddyOnline,
+  onNavigate,
+  onPickLocation,
+  onClearTrail,
+  onHide,
+  onEnd,
+}) => {
+  const [shareNote, setShareNote] = useState<string | null>(null);
+  const message = location ? buildSosMessage(location) : null;
+  const landmark = location ? nearestLandmark(location) : null;
+
+  const handleShare = async () => {
+    if (message) setShareNote(SHARE_NOTES[await shareSosMessage(message)]);
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-slate-950/95 backdrop-blur-md overflow-y-auto animate-in fade-in duration-300">
+      <div className="w-full max-w-lg mx-auto p-6 pb-10 flex flex-col gap-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-black text-white uppercase tracking-tighter">Madad Mode</h2>
+            <p className="text-[10px] font-bold text-white/50 uppercase tracking-widest">
+              {buddyOnline ? 'Buddy sun raha hai, aaram se boliye' : 'Bina net ke bhi ye sab chalta hai'}
+            </p>
+          </div>
+          <button onClick={onHide} className="p-3 rounded-2xl hover:bg-white/10 transition-all active:scale-90" title="Chhota karo">
+            <ChevronDown className="w-6 h-6 text-white/60" />
+          </button>
+        </div>
+
+        <div className="rounded-[2rem] border border-white/15 bg-white/5 p-6 text-center">
+          {location ? (
+            <>
+              <p className="text-[10px] font-bold text-white/50 uppercase tracking-widest mb-2">Aap yahan hain</p>
+              <p className="text-3xl sm:text-4xl font-black text-white tabular-nums tracking-tight select-all break-words">{formatCoordinates(location)}</p>
+              <p className="text-xs font-bold text-white/60 uppercase tracking-widest mt-3">
+                {location.source === 'manual' ? 'Haath se lagaya pin' : location.accuracy !== undefined ? `±${Math.round(location.accuracy)} m` : 'GPS'}
+                {landmark && ` · ${landmark.poi.name} se ${formatDistance(landmark.distance)}`}
+              </p>
+              <div className="grid grid-cols-2 gap-2 mt-5">
+                <button
+                  onClick={handleShare}
+                  className="px-3 py-4 rounded-2xl bg-white text-slate-950 flex items-center justify-center gap-2 text-sm font-black uppercase tracking-tight active:scale-95 transition-all"
+                >
+                  <Share2 className="w-5 h-5" />
+                  Bhejo
+                </button>
+                <a
+                  href={smsLinkFor(message!)}
+                  className="px-3 py-4 rounded-2xl border border-white/30 text-white flex items-center justify-center gap-2 text-sm font-black uppercase tracking-tight active:scale-95 transition-all"
+                >
+                  <MessageSquare className="w-5 h-5" />
+                  SMS
+                </a>
+              </div>
+              {shareNote && <p className="text-[10px] font-bold text-white/60 uppercase tracking-widest mt-3">{shareNote}</p>}
+            </>
+          ) : (
+            <>
+              <p className="text-lg font-black text-white uppercase tracking-tight">Location na mili</p>
+              <p className="text-xs text-white/60 mt-2">Paas ka mandir ya ghat chun lo, wahi bhej denge.</p>
+              <button
+                onClick={onPickLocation}
+                className="mt-4 px-5 py-3 rounded-2xl bg-white text-slate-950 text-sm font-black uppercase tracking-tight active:scale-95 transition-all"
+              >
+                Jagah chuno
+              </button>
+            </>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {EMERGENCY_NUMBERS.map(({ label, number }) => (
+            <a
+              key={number}
+              href={`tel:${number}`}
+              className="px-4 py-3 rounded-2xl border border-red-400/40 bg-red-500/10 flex items-center gap-3 active:scale-95 transition-all"
+            >
+              <Phone className="w-5 h-5 text-red-300 shrink-0" />
+              <span className="flex flex-col min-w-0">
+                <span className="text-xl font-black text-white tabular-nums leading-none">{number}</span>
+                <span className="text-[10px] font-bold text-white/50 uppercase tracking-widest truncate">{label}</span>
+              </span>
+            </a>
+          ))}
+        </div>
+
+        {help.length > 0 && (
+          <div className="flex flex-col gap-2">
+            <span className="text-[10px] font-black text-white/50 uppercase tracking-[0.3em] px-2">Sabse paas madad</span>
+            {help.map(({ poi, distance }) => {
+              const kind = HELP_LABELS[poi.category];
+              return (
+                <div key={poi.id} className="flex items-center gap-3 px-4 py-3 rounded-2xl bg-white/5 border border-white/10">
+                  {kind?.icon}
+                  <a href={mapsLinkFor(poi.location)} target="_blank" className="flex-1 min-w-0">
+                    <span className="block text-sm font-black text-white uppercase tracking-tight truncate">{poi.name}</span>
+                    <span className="block text-[10px] font-bold text-white/50 uppercase tracking-widest">
+                      {kind?.label} · {formatDistance(distance)} door
+                    </span>
+                  </a>
+                  <button
+                    onClick={() => onNavigate(poiToPlace(poi))}
+                    className="px-3 py-2 rounded-xl bg-white text-slate-950 flex items-center gap-1 font-black text-[10px] uppercase tracking-widest active:scale-90 transition-all"
+                  >
+                    <Footprints className="w-3 h-3" />
+                    Chal
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center justify-between px-2">
+            <span className="flex items-center gap-2 text-[10px] font-black text-white/50 uppercase tracking-[0.3em]">
+              <History className="w-3 h-3" />
+              Pichhla raasta
+            </span>
+            {trail.length > 0 && (
+              <button onClick={onClearTrail} className="p-1.5 rounded-xl hover:bg-white/10 transition-all active:scale-90" title="Raasta mitao">
+                <Trash2 className="w-4 h-4 text-white/40" />
+              </button>
+            )}
+          </div>
+          {trail.length === 0 ? (
+            <p className="text-xs text-white/40 px-2">Abhi koi raasta yaad na hai. GPS chalu rahe to har kuch kadam pe yaad rakhte hain.</p>
+          ) : (
+            trail.slice(-TRAIL_SHOWN).reverse().map(crumb => (
+              <a
+                key={crumb.timestamp}
+                href={mapsLinkFor(crumb)}
+                target="_blank"
+                className="flex items-center justify-between px-4 py-2 rounded-xl bg-white/5 border border-white/5"
+              >
+                <span className="text-xs font-black text-white tabular-nums">{clockTime(crumb.timestamp)}</span>
+                <span className="text-[10px] font-bold text-white/50 uppercase tracking-widest tabular-nums">
+                  {location ? `${formatDistance(distanceMeters(location, crumb))} door` : formatCoordinates(crumb)}
+                </span>
+                <ExternalLink className="w-3 h-3 text-white/30" />
+              </a>
+            ))
+          )}
+        </div>
+
+        <button
+          onClick={onEnd}
+          className="px-4 py-4 rounded-2xl border border-green-400/40 bg-green-500/10 text-sm font-black text-green-200 uppercase tracking-widest active:scale-95 transition-all"
+        >
+          Main theek hoon, band karo
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SosScreen;
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { Send, Volume2, VolumeX } from 'lucide-react';
+
+interface TextChatBarProps {
+  speakReplies: boolean;
+  onToggleSpeak: () => void;
+  onSend: (text: string) => boolean;
+}
+
+const TextChatBar: React.FC<TextChatBarProps> = ({ speakReplies, onToggleSpeak, onSend }) => {
+  const [draft, setDraft] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (onSend(draft)) setDraft('');
+  };
+
+  return (
+    <form onSubmit={submit} className="glass w-full max-w-md rounded-[2rem] border-orange-500/20 shadow-2xl flex items-center gap-2 p-2 animate-in fade-in slide-in-from-bottom-10 duration-500">
+      <button
+        type="button"
+        onClick={onToggleSpeak}
+        className="p-3 rounded-2xl hover:bg-white/10 transition-all active:scale-90"
+        title={speakReplies ? 'Buddy bolke jawab dego' : 'Buddy chup-chaap likhego'}
+      >
+        {speakReplies ? <Volume2 className="w-5 h-5 text-orange-400" /> : <VolumeX className="w-5 h-5 text-white/40" />}
+      </button>
+      <input
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        placeholder="Likh ke puch, Lalla..."
+        className="flex-1 min-w-0 bg-transparent outline-none text-white placeholder-white/30 text-sm px-2"
+        enterKeyHint="send"
+      />
+      <button
+        type="submit"
+        disabled={!draft.trim()}
+        className="p-3 braj-gradient rounded-2xl transition-all active:scale-90 disabled:opacity-30"
+      >
+        <Send className="w-5 h-5 text-white" />
+      </button>
+    </form>
+  );
+};
+
+export default TextChatBar;
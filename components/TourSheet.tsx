@@ -0,0 +1,191 @@
+import React, { useRef, useState } from 'react';
+import { Check, Flag, Footprints, MapPin, Pause, Play, SkipForward, Square, Trash2, Upload, X } from 'lucide-react';
+import { GeoLocation, Tour, TourProgress, TourWaypoint } from '../types';
+import { distanceMeters, formatDistance } from '../utils/geo';
+import { isWaypointDone } from '../services/tourService';
+
+interface TourSheetProps {
+  tours: Tour[];
+  tour: Tour | null;
+  progress: TourProgress | null;
+  next: TourWaypoint | null;
+  insideId: string | null;
+  location: GeoLocation | null;
+  onStart: (tourId: string) => void;
+  onStop: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onSkip: () => void;
+  onNavigate: (waypoint: TourWaypoint) => void;
+  onImport: (file: File) => Promise<string | null>;
+  onRemove: (tourId: string) => void;
+  onClose: () => void;
+}
+
+const TourSheet: React.FC<TourSheetProps> = ({
+  tours,
+  tour,
+  progress,
+  next,
+  insideId,
+  location,
+  onStart,
+  onStop,
+  onPause,
+  onResume,
+  onSkip,
+  onNavigate,
+  onImport,
+  onRemove,
+  onClose,
+}) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Cleared so picking the same (now fixed) file again still fires onChange
+    e.target.value = '';
+    if (file) setImportError(await onImport(file));
+  };
+
+  const done = tour && progress ? tour.waypoints.filter(w => isWaypointDone(progress, w.id)).length : 0;
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-end justify-center bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="glass w-full max-w-lg rounded-t-[2.5rem] border-orange-500/20 p-6 pb-10 max-h-[85vh] overflow-y-auto animate-in slide-in-from-bottom-10 duration-500"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-black text-white uppercase tracking-tighter italic">Buddy Ke Sang Parikrama</h2>
+            <p className="text-[10px] font-bold text-white/40 uppercase tracking-widest">
+              {tour ? tour.title : 'Jagah pe pahunchte hi Buddy katha sunaayego'}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-3 rounded-2xl hover:bg-white/10 transition-all active:scale-90">
+            <X className="w-6 h-6 text-white/60" />
+          </button>
+        </div>
+
+        {tour && progress ? (
+          <>
+            <div className="h-2 rounded-full bg-white/10 overflow-hidden mb-2">
+              <div className="h-full braj-gradient transition-all duration-500" style={{ width: `${(done / tour.waypoints.length) * 100}%` }} />
+            </div>
+            <p className="text-[10px] font-bold text-white/40 uppercase tracking-widest text-center mb-4">
+              {done} / {tour.waypoints.length} padaav{progress.paused && ' · ruko hua'}
+            </p>
+
+            <div className="flex flex-col gap-2">
+              {tour.waypoints.map((waypoint, i) => {
+                const narrated = progress.narrated.includes(waypoint.id);
+                const skipped = progress.skipped.includes(waypoint.id);
+                const isNext = waypoint.id === next?.id;
+                return (
+                  <div
+                    key={waypoint.id}
+                    className={`flex items-center gap-3 px-4 py-3 rounded-2xl border ${
+                      waypoint.id === insideId ? 'bg-orange-600/30 border-orange-500/60' : 'bg-white/5 border-white/10'
+                    } ${narrated || skipped ? 'opacity-50' : ''}`}
+                  >
+                    <span className={`w-7 h-7 shrink-0 rounded-full flex items-center justify-center text-xs font-black text-white ${isNext ? 'braj-gradient' : 'bg-white/10'}`}>
+                      {narrated ? <Check className="w-4 h-4" /> : skipped ? <SkipForward className="w-3 h-3" /> : i + 1}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <span className={`block text-sm font-black text-white uppercase tracking-tight truncate ${skipped ? 'line-through' : ''}`}>{waypoint.name}</span>
+                      <span className="block text-[10px] font-bold text-orange-300/70 uppercase tracking-widest">
+                        {waypoint.id === insideId ? 'Yahi ho' : location ? `${formatDistance(distanceMeters(location, waypoint.location))} door` : `${waypoint.radiusMeters} m ke ghere mein`}
+                      </span>
+                    </div>
+                    {isNext && waypoint.id !== insideId && (
+                      <button
+                        onClick={() => onNavigate(waypoint)}
+                        className="px-3 py-2 braj-gradient rounded-xl flex items-center gap-1 font-black text-[10px] uppercase tracking-widest active:scale-90 transition-all"
+                      >
+                        <Footprints className="w-3 h-3" />
+                        Chal
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {!next && (
+              <p className="text-sm font-black text-orange-300 uppercase tracking-widest text-center mt-4">Parikrama poori, Radhe Radhe!</p>
+            )}
+
+            <div className="grid grid-cols-3 gap-2 mt-6">
+              <button
+                onClick={progress.paused ? onResume : onPause}
+                className="px-3 py-3 rounded-2xl border bg-white/5 border-white/10 hover:bg-white/10 flex items-center justify-center gap-2 text-xs font-black text-white uppercase tracking-tight transition-all active:scale-95"
+              >
+                {progress.paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                {progress.paused ? 'Chalo' : 'Ruko'}
+              </button>
+              <button
+                onClick={onSkip}
+                disabled={!next}
+                className="px-3 py-3 rounded-2xl border bg-white/5 border-white/10 hover:bg-white/10 flex items-center justify-center gap-2 text-xs font-black text-white uppercase tracking-tight transition-all active:scale-95 disabled:opacity-30"
+              >
+                <SkipForward className="w-4 h-4" />
+                Chhodo
+              </button>
+              <button
+                onClick={onStop}
+                className="px-3 py-3 rounded-2xl border bg-red-500/10 border-red-500/30 hover:bg-red-500/20 flex items-center justify-center gap-2 text-xs font-black text-red-300 uppercase tracking-tight transition-all active:scale-95"
+              >
+                <Square className="w-4 h-4" />
+                Khatam
+              </button>
+            </div>
+          </>
+        ) : (
+          <div className="flex flex-col gap-2">
+            {tours.map(t => (
+              <div key={t.id} className="flex items-center gap-3 px-4 py-4 rounded-[1.5rem] bg-white/5 border border-white/10">
+                <Flag className="w-5 h-5 text-orange-400 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <span className="block text-sm font-black text-white uppercase tracking-tight truncate">{t.title}</span>
+                  {t.description && <span className="block text-xs text-white/60 mt-1">{t.description}</span>}
+                  <span className="flex items-center gap-1 text-[10px] font-bold text-orange-300/70 uppercase tracking-widest mt-1">
+                    <MapPin className="w-3 h-3" />
+                    {[t.town, `${t.waypoints.length} padaav`].filter(Boolean).join(' · ')}
+                  </span>
+                </div>
+                {!t.builtIn && (
+                  <button onClick={() => onRemove(t.id)} className="p-2 rounded-xl hover:bg-white/10 transition-all active:scale-90" title="Hatao">
+                    <Trash2 className="w-4 h-4 text-white/40" />
+                  </button>
+                )}
+                <button
+                  onClick={() => onStart(t.id)}
+                  className="px-3 py-2 braj-gradient rounded-xl flex items-center gap-1 font-black text-[10px] uppercase tracking-widest active:scale-90 transition-all"
+                >
+                  <Play className="w-3 h-3" />
+                  Shuru
+                </button>
+              </div>
+            ))}
+
+            <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+            <button
+              onClick={() => fileRef.current?.click()}
+              className="mt-2 px-3 py-3 rounded-2xl border border-dashed border-white/20 hover:bg-white/10 flex items-center justify-center gap-2 text-xs font-black text-white/70 uppercase tracking-tight transition-all active:scale-95"
+            >
+              <Upload className="w-4 h-4" />
+              Apni Parikrama Ki File Laao
+            </button>
+            {importError && (
+              <p className="text-[10px] text-red-300 uppercase tracking-widest font-bold text-center">{importError}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TourSheet;
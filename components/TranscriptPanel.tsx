@@ -0,0 +1,87 @@
+import React, { useEffect, useRef } from 'react';
+import { MapPin, Search, Trash2, X } from 'lucide-react';
+import { TranscriptEntry } from '../types';
+
+interface TranscriptPanelProps {
+  entries: TranscriptEntry[];
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ entries, onClear, onClose }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [entries]);
+
+  return (
+    <div className="glass rounded-[2rem] border-orange-500/20 shadow-2xl w-full max-w-md flex flex-col overflow-hidden animate-in fade-in slide-in-from-bottom-10 duration-500">
+      <div className="flex items-center justify-between px-5 py-3 border-b border-white/5">
+        <span className="text-[10px] font-black text-orange-400/80 uppercase tracking-[0.3em]">Baat-Cheet</span>
+        <div className="flex items-center gap-2">
+          <button onClick={onClear} className="p-2 rounded-xl hover:bg-white/10 transition-all active:scale-90">
+            <Trash2 className="w-4 h-4 text-white/40" />
+          </button>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-white/10 transition-all active:scale-90">
+            <X className="w-4 h-4 text-white/40" />
+          </button>
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="max-h-64 overflow-y-auto px-4 py-3 flex flex-col gap-3">
+        {entries.length === 0 && (
+          <p className="text-xs text-white/30 italic text-center py-4">Abhi tak kachu bolo na, Lalla.</p>
+        )}
+        {entries.map(entry => {
+          switch (entry.kind) {
+            case 'user':
+              return (
+                <div key={entry.id} className="self-end max-w-[85%] bg-white/10 rounded-2xl rounded-br-md px-4 py-2">
+                  <p className={`text-sm text-white ${entry.final ? '' : 'opacity-60'}`}>{entry.text}</p>
+                  <span className="block text-[9px] text-white/30 text-right mt-1">{formatTime(entry.timestamp)}</span>
+                </div>
+              );
+            case 'model':
+              return (
+                <div key={entry.id} className="self-start max-w-[85%] bg-orange-600/20 border border-orange-500/20 rounded-2xl rounded-bl-md px-4 py-2">
+                  <p className={`text-sm text-white ${entry.final ? '' : 'opacity-60'}`}>{entry.text}</p>
+                  <span className="block text-[9px] text-white/30 mt-1">Buddy · {formatTime(entry.timestamp)}</span>
+                </div>
+              );
+            case 'tool_call':
+              return (
+                <div key={entry.id} className="self-center flex items-center gap-2 text-[10px] text-yellow-400/70 uppercase tracking-widest">
+                  <Search className="w-3 h-3" />
+                  <span>Naksha dekh ryo: "{entry.query}"</span>
+                </div>
+              );
+            case 'map_result':
+              return (
+                <div key={entry.id} className="self-start max-w-[85%] bg-black/30 border border-white/10 rounded-2xl px-4 py-3">
+                  <p className="text-xs text-white/70 mb-2">{entry.result.text}</p>
+                  {entry.result.links.map((link, idx) => (
+                    <a
+                      key={idx}
+                      href={link.uri}
+                      target="_blank"
+                      className="flex items-center gap-2 text-xs font-bold text-orange-400 hover:text-orange-300 py-0.5"
+                    >
+                      <MapPin className="w-3 h-3 shrink-0" />
+                      <span className="truncate">{link.title}</span>
+                    </a>
+                  ))}
+                </div>
+              );
+          }
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPanel;
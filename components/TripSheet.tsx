@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { BookOpen, Braces, Download, ExternalLink, Footprints, Route, Star, Trash2, X } from 'lucide-react';
+import { Itinerary, JournalEntry, PlaceResult } from '../types';
+import { formatDistance } from '../utils/geo';
+
+interface TripSheetProps {
+  itinerary: Itinerary;
+  entries: JournalEntry[];
+  storageError: string | null;
+  isStarred: (place: PlaceResult) => boolean;
+  onToggleStar: (place: PlaceResult) => void;
+  onNavigate: (place: PlaceResult) => void;
+  onExport: (format: 'json' | 'gpx') => void;
+  onClearJournal: () => void;
+  onClose: () => void;
+}
+
+const StarButton: React.FC<{ starred: boolean; onClick: () => void }> = ({ starred, onClick }) => (
+  <button onClick={onClick} className="p-2 rounded-xl hover:bg-white/10 transition-all active:scale-90" title={starred ? 'Yatra se hatao' : 'Yatra mein jodo'}>
+    <Star className={`w-5 h-5 ${starred ? 'text-yellow-400 fill-yellow-400' : 'text-white/40'}`} />
+  </button>
+);
+
+const TripSheet: React.FC<TripSheetProps> = ({
+  itinerary,
+  entries,
+  storageError,
+  isStarred,
+  onToggleStar,
+  onNavigate,
+  onExport,
+  onClearJournal,
+  onClose,
+}) => {
+  const [tab, setTab] = useState<'trip' | 'journal'>('trip');
+  const stopCount = itinerary.legs.length + itinerary.unplaced.length;
+
+  return (
+    <div className="absolute inset-0 z-40 flex items-end justify-center bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="glass w-full max-w-lg rounded-t-[2.5rem] border-orange-500/20 p-6 pb-10 max-h-[85vh] overflow-y-auto animate-in slide-in-from-bottom-10 duration-500"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-black text-white uppercase tracking-tighter italic">Aaj Ki Yatra</h2>
+            <p className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Tare wali jagah, sabse chhoto rasta</p>
+          </div>
+          <button onClick={onClose} className="p-3 rounded-2xl hover:bg-white/10 transition-all active:scale-90">
+            <X className="w-6 h-6 text-white/60" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 mb-6">
+          {([
+            { value: 'trip' as const, icon: Route, label: `Yatra (${stopCount})` },
+            { value: 'journal' as const, icon: BookOpen, label: `Diary (${entries.length})` },
+          ]).map(({ value, icon: Icon, label }) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`px-3 py-3 rounded-2xl border flex items-center justify-center gap-2 text-xs font-black text-white uppercase tracking-tight transition-all active:scale-95 ${
+                tab === value ? 'bg-orange-600/30 border-orange-500/60' : 'bg-white/5 border-white/10 hover:bg-white/10'
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {storageError && (
+          <p className="text-[10px] text-yellow-400/80 uppercase tracking-widest font-bold text-center mb-4">{storageError}</p>
+        )}
+
+        {tab === 'trip' ? (
+          <div className="flex flex-col gap-2">
+            {itinerary.legs.map(({ stop, distanceMeters }, i) => (
+              <div key={stop.key} className="flex items-center gap-3 px-4 py-3 rounded-2xl bg-white/5 border border-white/10">
+                <span className="w-7 h-7 shrink-0 rounded-full braj-gradient flex items-center justify-center text-xs font-black text-white">{i + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <span className="block text-sm font-black text-white uppercase tracking-tight truncate">{stop.place.title}</span>
+                  <span className="block text-[10px] font-bold text-orange-300/70 uppercase tracking-widest">
+                    {i === 0 && !itinerary.start ? 'Yahi se shuru' : `${formatDistance(distanceMeters)} ${i === 0 ? 'yaha se' : 'pichhle se'}`}
+                  </span>
+                </div>
+                {i === 0 && (
+                  <button
+                    onClick={() => onNavigate(stop.place)}
+                    className="px-3 py-2 braj-gradient rounded-xl flex items-center gap-1 font-black text-[10px] uppercase tracking-widest active:scale-90 transition-all"
+                  >
+                    <Footprints className="w-3 h-3" />
+                    Chal
+                  </button>
+                )}
+                <StarButton starred onClick={() => onToggleStar(stop.place)} />
+              </div>
+            ))}
+            {itinerary.unplaced.map(stop => (
+              <div key={stop.key} className="flex items-center gap-3 px-4 py-3 rounded-2xl bg-white/5 border border-white/10">
+                <span className="w-7 h-7 shrink-0 rounded-full bg-white/10 flex items-center justify-center text-xs font-black text-white/40">?</span>
+                <a href={stop.place.uri} target="_blank" className="flex-1 min-w-0">
+                  <span className="block text-sm font-black text-white uppercase tracking-tight truncate">{stop.place.title}</span>
+                  <span className="block text-[10px] font-bold text-white/40 uppercase tracking-widest">Pata na mila, naksha mein dekho</span>
+                </a>
+                <StarButton starred onClick={() => onToggleStar(stop.place)} />
+              </div>
+            ))}
+
+            {stopCount === 0 ? (
+              <p className="text-xs text-white/40 italic text-center py-4">Koi jagah tare na lagi. Buddy se jagah puchho aur ⭐ dabao.</p>
+            ) : (
+              <>
+                {itinerary.legs.length > 1 && (
+                  <p className="text-[10px] font-bold text-white/40 uppercase tracking-widest text-center mt-2">
+                    Kul {formatDistance(itinerary.totalMeters)} paidal (seedhi line mein)
+                  </p>
+                )}
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  <button
+                    onClick={() => onExport('gpx')}
+                    className="flex items-center justify-center gap-2 px-4 py-3 glass rounded-2xl font-black text-xs uppercase tracking-widest text-white/80 hover:text-white active:scale-95 transition-all"
+                  >
+                    <Download className="w-4 h-4" />
+                    GPX Bhejo
+                  </button>
+                  <button
+                    onClick={() => onExport('json')}
+                    className="flex items-center justify-center gap-2 px-4 py-3 glass rounded-2xl font-black text-xs uppercase tracking-widest text-white/80 hover:text-white active:scale-95 transition-all"
+                  >
+                    <Braces className="w-4 h-4" />
+                    JSON Bhejo
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        ) : (
+          <div className="flex flex-col gap-3">
+            {entries.map(entry => (
+              <div key={entry.id} className="px-4 py-3 rounded-2xl bg-white/5 border border-white/10">
+                <div className="flex justify-between gap-4">
+                  <span className="text-xs font-black text-white uppercase tracking-tight truncate">"{entry.query}"</span>
+                  <span className="text-[10px] font-bold text-white/30 uppercase tracking-widest shrink-0">
+                    {new Date(entry.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                </div>
+                <div className="flex flex-col mt-2">
+                  {entry.result.places.map(place => (
+                    <div key={place.uri} className="flex items-center gap-2">
+                      <a href={place.uri} target="_blank" className="flex-1 min-w-0 flex items-center gap-2 text-xs text-white/70 hover:text-white">
+                        <ExternalLink className="w-3 h-3 shrink-0" />
+                        <span className="truncate">{place.title}</span>
+                      </a>
+                      <StarButton starred={isStarred(place)} onClick={() => onToggleStar(place)} />
+                    </div>
+                  ))}
+                  {/* Grounding links that never became places (no title match) are still worth keeping */}
+                  {entry.result.links.filter(link => !entry.result.places.some(p => p.uri === link.uri)).map(link => (
+                    <a key={link.uri} href={link.uri} target="_blank" className="flex items-center gap-2 text-xs text-white/50 hover:text-white py-2">
+                      <ExternalLink className="w-3 h-3 shrink-0" />
+                      <span className="truncate">{link.title}</span>
+                    </a>
+                  ))}
+                </div>
+              </div>
+            ))}
+            {entries.length === 0 ? (
+              <p className="text-xs text-white/40 italic text-center py-4">Diary khaali hai. Jo Buddy batavego, yaha likho jaayego.</p>
+            ) : (
+              <button
+                onClick={onClearJournal}
+                className="flex items-center justify-center gap-2 text-[10px] font-bold text-white/40 hover:text-white uppercase tracking-widest py-2 transition-all"
+              >
+                <Trash2 className="w-4 h-4" />
+                Diary Mitao
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TripSheet;
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { Gauge, Trash2, X } from 'lucide-react';
+import { SessionUsageRecord, UsageBudget } from '../types';
+import { BudgetCheck, formatTokens, sessionTotal, USAGE_SOURCES } from '../services/usageMeter';
+import { getPersona } from '../data/personas';
+
+interface UsagePanelProps {
+  current: SessionUsageRecord | null;
+  history: SessionUsageRecord[];
+  budget: UsageBudget;
+  sessionTokens: number;
+  dailyTokens: number;
+  check: BudgetCheck;
+  onChangeBudget: (budget: UsageBudget) => void;
+  onClearHistory: () => void;
+  onClose: () => void;
+}
+
+const barColour = (fraction: number) => (fraction >= 1 ? 'bg-red-500' : fraction >= 0.8 ? 'bg-yellow-500' : 'bg-green-500');
+
+const Meter: React.FC<{ label: string; used: number; cap: number | null }> = ({ label, used, cap }) => {
+  const fraction = cap ? used / cap : 0;
+  return (
+    <div>
+      <div className="flex justify-between text-[10px] font-bold uppercase tracking-widest mb-1">
+        <span className="text-white/60">{label}</span>
+        <span className="text-white/40">{formatTokens(used)}{cap ? ` / ${formatTokens(cap)}` : ''} tokens</span>
+      </div>
+      {cap && (
+        <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+          <div className={`h-full ${barColour(fraction)}`} style={{ width: `${Math.min(100, fraction * 100)}%` }} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Inputs are in thousands of tokens; blank means no cap
+const CapInput: React.FC<{ label: string; value: number | null; onChange: (v: number | null) => void }> = ({ label, value, onChange }) => {
+  const [draft, setDraft] = useState(value ? String(value / 1000) : '');
+  const commit = () => {
+    const n = parseFloat(draft);
+    onChange(Number.isFinite(n) && n > 0 ? Math.round(n * 1000) : null);
+  };
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="text-[10px] font-bold text-white/40 uppercase tracking-widest">{label}</span>
+      <input
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={commit}
+        inputMode="decimal"
+        placeholder="Koi hadd na"
+        className="px-4 py-3 rounded-2xl bg-white/5 border border-white/10 outline-none text-white placeholder-white/30 text-sm"
+      />
+    </label>
+  );
+};
+
+const describeModalities = (record: SessionUsageRecord) => {
+  const counts: Record<string, number> = {};
+  USAGE_SOURCES.map(source => record[source]).forEach(u => {
+    [u.promptByModality, u.responseByModality].forEach(m => Object.entries(m).forEach(([k, v]) => { counts[k] = (counts[k] ?? 0) + v; }));
+  });
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .map(([k, v]) => `${k.toLowerCase()} ${formatTokens(v)}`)
+    .join(' · ');
+};
+
+const formatWhen = (record: SessionUsageRecord) => {
+  const start = new Date(record.startedAt);
+  const minutes = record.endedAt ? Math.max(1, Math.round((record.endedAt - record.startedAt) / 60000)) : null;
+  return `${start.toLocaleDateString()} ${start.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}${minutes ? ` · ${minutes} min` : ' · abhi chal ryo'}`;
+};
+
+const UsagePanel: React.FC<UsagePanelProps> = ({
+  current,
+  history,
+  budget,
+  sessionTokens,
+  dailyTokens,
+  check,
+  onChangeBudget,
+  onClearHistory,
+  onClose,
+}) => (
+  <div className="absolute inset-0 z-40 flex items-end justify-center bg-black/60 backdrop-blur-sm" onClick={onClose}>
+    <div
+      className="glass w-full max-w-lg rounded-t-[2.5rem] border-orange-500/20 p-6 pb-10 max-h-[85vh] overflow-y-auto animate-in slide-in-from-bottom-10 duration-500"
+      onClick={e => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-black text-white uppercase tracking-tighter italic">Kharcha-Paani</h2>
+          <p className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Buddy ne kitno khayo</p>
+        </div>
+        <button onClick={onClose} className="p-3 rounded-2xl hover:bg-white/10 transition-all active:scale-90">
+          <X className="w-6 h-6 text-white/60" />
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-4">
+        <Meter label="Aaj" used={dailyTokens} cap={budget.dailyTokens} />
+        {current && <Meter label="Is baar" used={sessionTokens} cap={budget.sessionTokens} />}
+        {check.status !== 'ok' && (
+          <p className={`text-[10px] font-bold uppercase tracking-widest ${check.status === 'exceeded' ? 'text-red-400' : 'text-yellow-400'}`}>
+            {check.limit === 'daily' ? 'Aaj ko' : 'Is baar ko'} budget {Math.round(check.fraction * 100)}% ho gayo
+          </p>
+        )}
+      </div>
+
+      <div className="mt-8">
+        <div className="flex items-center gap-2 mb-3">
+          <Gauge className="w-4 h-4 text-orange-400" />
+          <h3 className="text-sm font-black text-white uppercase tracking-widest">Hadd Baandho</h3>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <CapInput label="Ek baat (hazaar)" value={budget.sessionTokens} onChange={v => onChangeBudget({ ...budget, sessionTokens: v })} />
+          <CapInput label="Pura din (hazaar)" value={budget.dailyTokens} onChange={v => onChangeBudget({ ...budget, dailyTokens: v })} />
+        </div>
+        <div className="grid grid-cols-2 gap-2 mt-3">
+          {([
+            { value: 'disconnect' as const, label: 'Buddy Ko Sulao' },
+            { value: 'audio_only' as const, label: 'Sirf Awaaz' },
+          ]).map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => onChangeBudget({ ...budget, onExceed: value })}
+              className={`px-3 py-3 rounded-2xl border text-xs font-black text-white uppercase tracking-tight transition-all active:scale-95 ${
+                budget.onExceed === value ? 'bg-orange-600/30 border-orange-500/60' : 'bg-white/5 border-white/10 hover:bg-white/10'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <p className="text-[10px] text-white/30 uppercase tracking-widest font-bold mt-2">Hadd paar hote hi yahi hoyego</p>
+      </div>
+
+      <div className="mt-8">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-black text-white uppercase tracking-widest">Pichhli Baatein</h3>
+          {history.length > 0 && (
+            <button onClick={onClearHistory} className="p-2 rounded-xl hover:bg-white/10 transition-all active:scale-90" title="Hisaab mitao">
+              <Trash2 className="w-4 h-4 text-white/40" />
+            </button>
+          )}
+        </div>
+        <div className="flex flex-col gap-2">
+          {history.map(record => (
+            <div key={record.id} className="px-4 py-3 rounded-2xl bg-white/5 border border-white/10">
+              <div className="flex justify-between gap-4">
+                <span className="text-xs font-black text-white uppercase tracking-tight truncate">{getPersona(record.personaId).name}</span>
+                <span className="text-xs font-black text-orange-300 shrink-0">{formatTokens(sessionTotal(record))}</span>
+              </div>
+              <p className="text-[10px] font-bold text-white/40 uppercase tracking-widest mt-1">
+                {formatWhen(record)}{record.mapSearches ? ` · ${record.mapSearches} naksha` : ''}{record.endReason === 'budget' ? ' · budget ne roko' : ''}
+              </p>
+              {describeModalities(record) && <p className="text-[10px] text-white/30 mt-1">{describeModalities(record)}</p>}
+            </div>
+          ))}
+          {history.length === 0 && <p className="text-xs text-white/40 italic text-center py-4">Abhi tak kachu kharcha na hai.</p>}
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+export default UsagePanel;
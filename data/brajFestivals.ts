@@ -0,0 +1,185 @@
+import { BrajFestival } from '../types';
+
+// Bump whenever a year's dates are added or corrected. Lunar dates are worked out from the panchang a
+// year ahead and can slip a day when a tithi spans two sunrises, so check them against the temple's own
+// notice before relying on them for travel.
+export const FESTIVAL_DATASET_VERSION = '2026.10.2';
+
+export const BRAJ_FESTIVALS: BrajFestival[] = [
+  {
+    id: 'sharad-purnima',
+    name: 'Sharad Purnima',
+    altNames: ['Raas Purnima'],
+    town: 'Vrindavan',
+    dates: ['2026-10-26', '2027-10-15'],
+    description: 'The full moon of the maha-raas. Deities wear white, and kheer is left out in the moonlight.',
+    timingChanges: [
+      { poiId: 'vrn-banke-bihari', darshan: [{ from: '07:45', to: '12:00' }, { from: '17:30', to: '23:30' }], note: 'Open late for the moonlit darshan; Bihari Ji holds the flute only tonight.' },
+    ],
+  },
+  {
+    id: 'diwali',
+    name: 'Diwali',
+    altNames: ['Deepawali'],
+    town: 'Mathura',
+    dates: ['2026-11-08', '2027-10-29'],
+    description: 'Ghats and temples lit with diyas; Vishram Ghat and Keshi Ghat are at their best after dark.',
+  },
+  {
+    id: 'govardhan-puja',
+    name: 'Govardhan Puja',
+    altNames: ['Annakoot'],
+    town: 'Govardhan',
+    poiId: 'gvd-daan-ghati',
+    dates: ['2026-11-10', '2027-10-30'],
+    description: 'Annakoot: a hill of food offered to Giriraj Ji, with lakhs of people on the parikrama. Expect road closures into Govardhan.',
+  },
+  {
+    id: 'yama-dwitiya',
+    name: 'Yama Dwitiya',
+    altNames: ['Bhai Dooj', 'Bhaiya Dooj'],
+    town: 'Mathura',
+    poiId: 'mth-vishram-ghat',
+    dates: ['2026-11-11', '2027-10-31'],
+    description: 'Brothers and sisters bathe together at Vishram Ghat; the ghat is packed from before dawn.',
+  },
+  {
+    id: 'gopashtami',
+    name: 'Gopashtami',
+    town: 'Vrindavan',
+    dates: ['2026-11-17', '2027-11-06'],
+    description: 'The day Krishna first took the cows out to graze. Cows are decorated and worshipped at the goshalas.',
+  },
+  {
+    id: 'dev-uthani-ekadashi',
+    name: 'Dev Uthani Ekadashi',
+    altNames: ['Prabodhini Ekadashi'],
+    town: 'Vrindavan',
+    dates: ['2026-11-20', '2027-11-10'],
+    description: 'Tulsi vivah, and the day lakhs walk the Vrindavan panchkosi parikrama.',
+  },
+  {
+    id: 'kartik-purnima',
+    name: 'Kartik Purnima',
+    town: 'Mathura',
+    dates: ['2026-11-24', '2027-11-14'],
+    description: 'Last day of Kartik: a holy dip in the Yamuna and deep-daan at the ghats.',
+  },
+  {
+    id: 'vihar-panchami',
+    name: 'Vihar Panchami',
+    altNames: ['Bihar Panchami'],
+    town: 'Vrindavan',
+    poiId: 'vrn-banke-bihari',
+    dates: ['2026-12-14', '2027-12-03'],
+    description: "Bihari Ji's appearance day: a procession from Nidhivan to the temple, and the heaviest crowd of the winter.",
+  },
+  {
+    id: 'vasant-panchami',
+    name: 'Vasant Panchami',
+    town: 'Vrindavan',
+    dates: ['2027-02-11'],
+    description: 'Holi season opens: temples start throwing gulal, and deities wear yellow.',
+  },
+  {
+    id: 'laddoo-holi',
+    name: 'Laddoo Holi',
+    town: 'Barsana',
+    poiId: 'brs-ladli-ji',
+    dates: ['2027-03-14'],
+    description: "Laddoos are thrown at Ladli Ji temple to celebrate Nandgaon accepting Barsana's Holi invitation.",
+  },
+  {
+    id: 'lathmar-holi-barsana',
+    name: 'Lathmar Holi, Barsana',
+    altNames: ['Lathmar Holi', 'Lath Mar Holi'],
+    town: 'Barsana',
+    poiId: 'brs-ladli-ji',
+    dates: ['2027-03-15'],
+    description: "The men of Nandgaon come to Barsana and the women drive them off with lathis. Rangeeli Gali from afternoon; hold on to phones and wear old clothes.",
+  },
+  {
+    id: 'lathmar-holi-nandgaon',
+    name: 'Lathmar Holi, Nandgaon',
+    town: 'Nandgaon',
+    poiId: 'ndg-nand-bhavan',
+    dates: ['2027-03-16'],
+    description: "The return match: Barsana's men go to Nandgaon, eight km away, and Nandgaon's women wield the lathis.",
+  },
+  {
+    id: 'rangbhari-ekadashi',
+    name: 'Rangbhari Ekadashi',
+    town: 'Vrindavan',
+    poiId: 'vrn-banke-bihari',
+    dates: ['2027-03-17'],
+    description: 'Holi comes inside the temples: Bihari Ji plays with colour and the panchkosi parikrama fills with gulal.',
+  },
+  {
+    id: 'holika-dahan',
+    name: 'Holika Dahan',
+    town: 'Vrindavan',
+    dates: ['2027-03-21'],
+    description: 'Holika bonfires at every chowk in the evening.',
+  },
+  {
+    id: 'holi',
+    name: 'Holi',
+    altNames: ['Dhulandi', 'Dhulendi'],
+    town: 'Mathura',
+    dates: ['2027-03-22'],
+    description: "Colours everywhere. Dwarkadhish and Bihari Ji are the most packed; keep phones in plastic.",
+    timingChanges: [
+      { poiId: 'mth-janmabhoomi', darshan: [{ from: '06:00', to: '12:00' }], note: 'Closes after the morning for Holi.' },
+    ],
+  },
+  {
+    id: 'dauji-huranga',
+    name: 'Dauji Ka Huranga',
+    altNames: ['Huranga'],
+    town: 'Baldeo',
+    poiId: 'bld-dauji',
+    dates: ['2027-03-23'],
+    description: "At Dauji temple near Baldeo, the women tear the men's shirts and beat them with the wet rags.",
+  },
+  {
+    id: 'mudiya-purnima',
+    name: 'Mudiya Purnima',
+    altNames: ['Guru Purnima'],
+    town: 'Govardhan',
+    poiId: 'gvd-daan-ghati',
+    dates: ['2027-07-18'],
+    description: 'The biggest Govardhan parikrama mela of the year; the town is closed to cars for days.',
+  },
+  {
+    id: 'janmashtami',
+    name: 'Janmashtami',
+    altNames: ['Krishna Janmashtami'],
+    town: 'Mathura',
+    poiId: 'mth-janmabhoomi',
+    dates: ['2027-08-25'],
+    description: "Krishna's birth at midnight. Janmabhoomi and Bihari Ji stay open for the midnight abhishek.",
+    timingChanges: [
+      { poiId: 'mth-janmabhoomi', darshan: [{ from: '05:00', to: '12:00' }, { from: '16:00', to: '23:59' }], note: 'Open through midnight for the birth abhishek.' },
+      { poiId: 'vrn-banke-bihari', darshan: [{ from: '07:45', to: '12:00' }, { from: '17:30', to: '23:59' }], note: 'Mangla aarti after midnight, the only one of the year.' },
+    ],
+  },
+  {
+    id: 'nandotsav',
+    name: 'Nandotsav',
+    town: 'Gokul',
+    poiId: 'gkl-nand-bhawan',
+    dates: ['2027-08-26'],
+    description: "The morning after Janmashtami, Gokul celebrates Nand Baba's son with curd and turmeric thrown in the lanes.",
+  },
+  {
+    id: 'radhashtami',
+    name: 'Radhashtami',
+    town: 'Barsana',
+    poiId: 'brs-ladli-ji',
+    dates: ['2027-09-08'],
+    description: "Radha Rani's birthday: the abhishek at Ladli Ji before dawn and the whole hill full by sunrise.",
+    timingChanges: [
+      { poiId: 'brs-ladli-ji', darshan: [{ from: '04:00', to: '14:00' }, { from: '17:00', to: '22:00' }], note: 'Opens before dawn for the abhishek.' },
+    ],
+  },
+];
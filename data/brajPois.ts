@@ -0,0 +1,96 @@
+import { PointOfInterest } from '../types';
+
+// Bump the version whenever entries are added, moved or retired so cached copies can be told apart.
+// Coordinates are approximate (within ~100 m) and are meant for "which way and how far", not for doorstep routing.
+export const BRAJ_POI_DATASET_VERSION = '2026.10.3';
+
+export const BRAJ_POIS: PointOfInterest[] = [
+  // Mathura
+  { id: 'mth-janmabhoomi', name: 'Shri Krishna Janmabhoomi', altNames: ['Janmasthan', 'Krishna Janmasthan'], town: 'Mathura', category: 'temple', tags: ['krishna', 'birthplace', 'keshav dev'], location: { lat: 27.5046, lng: 77.6697 } },
+  { id: 'mth-dwarkadhish', name: 'Dwarkadhish Temple', altNames: ['Dwarkadheesh Mandir'], town: 'Mathura', category: 'temple', tags: ['krishna', 'pushtimarg', 'chowk bazaar'], location: { lat: 27.5073, lng: 77.6869 } },
+  { id: 'mth-gita-mandir', name: 'Gita Mandir', altNames: ['Birla Mandir'], town: 'Mathura', category: 'temple', tags: ['krishna', 'gita', 'birla'], location: { lat: 27.5201, lng: 77.6569 } },
+  { id: 'mth-vishram-ghat', name: 'Vishram Ghat', town: 'Mathura', category: 'ghat', tags: ['yamuna', 'aarti', 'boating', 'kans vadh'], location: { lat: 27.5056, lng: 77.6886 } },
+  { id: 'mth-bangali-ghat', name: 'Bangali Ghat', town: 'Mathura', category: 'ghat', tags: ['yamuna', 'bath'], location: { lat: 27.5018, lng: 77.6893 } },
+  { id: 'mth-potara-kund', name: 'Potara Kund', town: 'Mathura', category: 'kund', tags: ['krishna', 'janmabhoomi', 'stepwell'], location: { lat: 27.5052, lng: 77.6688 } },
+  { id: 'mth-parking-janmabhoomi', name: 'Janmabhoomi Parking', town: 'Mathura', category: 'parking', tags: ['car', 'bus', 'two wheeler'], location: { lat: 27.5035, lng: 77.6712 } },
+  { id: 'mth-toilet-vishram', name: 'Sulabh Shauchalay, Vishram Ghat', town: 'Mathura', category: 'toilet', tags: ['sulabh', 'public toilet'], location: { lat: 27.5061, lng: 77.6878 } },
+  { id: 'mth-water-janmabhoomi', name: 'Pyau, Janmabhoomi Gate', town: 'Mathura', category: 'water', tags: ['drinking water', 'ro'], location: { lat: 27.5041, lng: 77.6704 } },
+  { id: 'mth-police-kotwali', name: 'Kotwali Police Station, Mathura', altNames: ['Mathura Kotwali'], town: 'Mathura', category: 'police', tags: ['police', 'thana', 'holi gate'], location: { lat: 27.5049, lng: 77.6836 } },
+  { id: 'mth-police-janmabhoomi', name: 'Police Chowki, Janmabhoomi', town: 'Mathura', category: 'police', tags: ['police', 'chowki', 'janmabhoomi'], location: { lat: 27.5040, lng: 77.6709 } },
+  { id: 'mth-hospital-district', name: 'District Hospital, Mathura', altNames: ['Zila Aspatal'], town: 'Mathura', category: 'hospital', tags: ['emergency', 'government', 'ambulance'], location: { lat: 27.4920, lng: 77.6735 } },
+  { id: 'mth-lost-found-janmabhoomi', name: 'Khoya-Paya Kendra, Janmabhoomi Gate', town: 'Mathura', category: 'lost_found', tags: ['khoya paya', 'lost and found', 'announcement'], location: { lat: 27.5043, lng: 77.6702 } },
+
+  // Vrindavan
+  { id: 'vrn-banke-bihari', name: 'Shri Banke Bihari Temple', altNames: ['Bihari Ji', 'Banke Bihari Mandir'], town: 'Vrindavan', category: 'temple', tags: ['krishna', 'bihari ji', 'swami haridas'], location: { lat: 27.5807, lng: 77.6958 } },
+  { id: 'vrn-iskcon', name: 'ISKCON Krishna Balaram Mandir', altNames: ['ISKCON Vrindavan', 'Angrez Mandir'], town: 'Vrindavan', category: 'temple', tags: ['krishna', 'balaram', 'iskcon', 'raman reti'], location: { lat: 27.5719, lng: 77.6776 } },
+  { id: 'vrn-prem-mandir', name: 'Prem Mandir', town: 'Vrindavan', category: 'temple', tags: ['radha krishna', 'light show', 'kripalu'], location: { lat: 27.5713, lng: 77.6721 } },
+  { id: 'vrn-radha-raman', name: 'Radha Raman Temple', town: 'Vrindavan', category: 'temple', tags: ['krishna', 'gopal bhatta goswami'], location: { lat: 27.5822, lng: 77.7002 } },
+  { id: 'vrn-radha-vallabh', name: 'Radha Vallabh Temple', town: 'Vrindavan', category: 'temple', tags: ['radha', 'hit harivansh'], location: { lat: 27.5829, lng: 77.6981 } },
+  { id: 'vrn-govind-dev', name: 'Govind Dev Temple', town: 'Vrindavan', category: 'temple', tags: ['krishna', 'red sandstone', 'man singh'], location: { lat: 27.5824, lng: 77.6943 } },
+  { id: 'vrn-rangaji', name: 'Rangaji Temple', altNames: ['Ranganath Mandir'], town: 'Vrindavan', category: 'temple', tags: ['ranganatha', 'south indian', 'gopuram'], location: { lat: 27.5865, lng: 77.6926 } },
+  { id: 'vrn-madan-mohan', name: 'Madan Mohan Temple', town: 'Vrindavan', category: 'temple', tags: ['krishna', 'sanatana goswami', 'dwadashaditya teela'], location: { lat: 27.5819, lng: 77.7030 } },
+  { id: 'vrn-nidhivan', name: 'Nidhivan', town: 'Vrindavan', category: 'temple', tags: ['raas leela', 'forest', 'rang mahal'], location: { lat: 27.5836, lng: 77.6980 } },
+  { id: 'vrn-seva-kunj', name: 'Seva Kunj', altNames: ['Nikunj Van'], town: 'Vrindavan', category: 'temple', tags: ['raas leela', 'garden', 'lalita kund'], location: { lat: 27.5815, lng: 77.6991 } },
+  { id: 'vrn-keshi-ghat', name: 'Keshi Ghat', town: 'Vrindavan', category: 'ghat', tags: ['yamuna', 'aarti', 'boating', 'keshi demon'], location: { lat: 27.5858, lng: 77.7037 } },
+  { id: 'vrn-chir-ghat', name: 'Chir Ghat', town: 'Vrindavan', category: 'ghat', tags: ['yamuna', 'vastra haran', 'kadamba'], location: { lat: 27.5876, lng: 77.7010 } },
+  { id: 'vrn-brahma-kund', name: 'Brahma Kund', town: 'Vrindavan', category: 'kund', tags: ['brahma', 'rangaji'], location: { lat: 27.5858, lng: 77.6938 } },
+  { id: 'vrn-parking-bihari', name: 'Banke Bihari Multi-level Parking', town: 'Vrindavan', category: 'parking', tags: ['car', 'two wheeler', 'vidyapeeth chauraha'], location: { lat: 27.5790, lng: 77.6932 } },
+  { id: 'vrn-parking-iskcon', name: 'ISKCON Parking', town: 'Vrindavan', category: 'parking', tags: ['car', 'bus', 'bhaktivedanta swami marg'], location: { lat: 27.5725, lng: 77.6785 } },
+  { id: 'vrn-toilet-bihari', name: 'Public Toilet, Bihari Ji Market', town: 'Vrindavan', category: 'toilet', tags: ['sulabh', 'public toilet'], location: { lat: 27.5801, lng: 77.6949 } },
+  { id: 'vrn-toilet-keshi', name: 'Public Toilet, Keshi Ghat', town: 'Vrindavan', category: 'toilet', tags: ['public toilet', 'parikrama marg'], location: { lat: 27.5852, lng: 77.7030 } },
+  { id: 'vrn-water-bihari', name: 'RO Water Point, Bihari Ji Gali', town: 'Vrindavan', category: 'water', tags: ['drinking water', 'ro', 'pyau'], location: { lat: 27.5804, lng: 77.6953 } },
+  { id: 'vrn-water-prem', name: 'Drinking Water, Prem Mandir Gate', town: 'Vrindavan', category: 'water', tags: ['drinking water', 'pyau'], location: { lat: 27.5709, lng: 77.6728 } },
+  { id: 'vrn-police-kotwali', name: 'Kotwali Police Station, Vrindavan', altNames: ['Vrindavan Kotwali'], town: 'Vrindavan', category: 'police', tags: ['police', 'thana'], location: { lat: 27.5792, lng: 77.6965 } },
+  { id: 'vrn-police-bihari', name: 'Police Chowki, Bihari Ji', town: 'Vrindavan', category: 'police', tags: ['police', 'chowki', 'bihari ji'], location: { lat: 27.5803, lng: 77.6952 } },
+  { id: 'vrn-hospital-rkm', name: 'Ramakrishna Mission Sevashrama Hospital', altNames: ['RKM Hospital', 'Mission Aspatal'], town: 'Vrindavan', category: 'hospital', tags: ['emergency', 'charitable'], location: { lat: 27.5767, lng: 77.6887 } },
+  { id: 'vrn-hospital-joint', name: 'Joint Hospital, Vrindavan', altNames: ['Sau Shaiya Aspatal'], town: 'Vrindavan', category: 'hospital', tags: ['emergency', 'government', 'ambulance'], location: { lat: 27.5683, lng: 77.6802 } },
+  { id: 'vrn-lost-found-bihari', name: 'Khoya-Paya Kendra, Bihari Ji', town: 'Vrindavan', category: 'lost_found', tags: ['khoya paya', 'lost and found', 'announcement'], location: { lat: 27.5798, lng: 77.6946 } },
+
+  // Govardhan
+  { id: 'gvd-daan-ghati', name: 'Daan Ghati Temple', town: 'Govardhan', category: 'temple', tags: ['giriraj', 'parikrama start', 'dugdh abhishek'], location: { lat: 27.4958, lng: 77.4636 } },
+  { id: 'gvd-mukharvind-jatipura', name: 'Mukharvind, Jatipura', altNames: ['Jatipura Mukharvind'], town: 'Govardhan', category: 'temple', tags: ['giriraj', 'shrinathji', 'parikrama'], location: { lat: 27.4560, lng: 77.4405 } },
+  { id: 'gvd-punchhari', name: 'Punchhari Ka Lautha', town: 'Govardhan', category: 'temple', tags: ['parikrama', 'lautha baba', 'rajasthan border'], location: { lat: 27.4211, lng: 77.4367 } },
+  { id: 'gvd-manasi-ganga', name: 'Manasi Ganga', town: 'Govardhan', category: 'kund', tags: ['parikrama', 'boating', 'mukharvind'], location: { lat: 27.4985, lng: 77.4645 } },
+  { id: 'gvd-radha-kund', name: 'Radha Kund', town: 'Govardhan', category: 'kund', tags: ['radha', 'parikrama', 'bahulashtami'], location: { lat: 27.5232, lng: 77.4877 } },
+  { id: 'gvd-shyam-kund', name: 'Shyam Kund', town: 'Govardhan', category: 'kund', tags: ['krishna', 'parikrama'], location: { lat: 27.5240, lng: 77.4865 } },
+  { id: 'gvd-kusum-sarovar', name: 'Kusum Sarovar', town: 'Govardhan', category: 'kund', tags: ['parikrama', 'chhatri', 'sunset'], location: { lat: 27.5108, lng: 77.4757 } },
+  { id: 'gvd-parking-daan-ghati', name: 'Daan Ghati Parking', town: 'Govardhan', category: 'parking', tags: ['car', 'bus', 'parikrama start'], location: { lat: 27.4945, lng: 77.4625 } },
+  { id: 'gvd-toilet-daan-ghati', name: 'Public Toilet, Daan Ghati', town: 'Govardhan', category: 'toilet', tags: ['public toilet', 'parikrama'], location: { lat: 27.4952, lng: 77.4641 } },
+  { id: 'gvd-toilet-radha-kund', name: 'Public Toilet, Radha Kund', town: 'Govardhan', category: 'toilet', tags: ['public toilet', 'parikrama'], location: { lat: 27.5225, lng: 77.4885 } },
+  { id: 'gvd-water-kusum', name: 'Pyau, Kusum Sarovar', town: 'Govardhan', category: 'water', tags: ['drinking water', 'pyau', 'parikrama'], location: { lat: 27.5103, lng: 77.4762 } },
+  { id: 'gvd-water-jatipura', name: 'Pyau, Jatipura', town: 'Govardhan', category: 'water', tags: ['drinking water', 'pyau', 'parikrama'], location: { lat: 27.4568, lng: 77.4412 } },
+  { id: 'gvd-police-station', name: 'Police Station, Govardhan', town: 'Govardhan', category: 'police', tags: ['police', 'thana', 'parikrama'], location: { lat: 27.4966, lng: 77.4662 } },
+  { id: 'gvd-hospital-chc', name: 'Community Health Centre, Govardhan', altNames: ['Govardhan CHC'], town: 'Govardhan', category: 'hospital', tags: ['emergency', 'government', 'ambulance'], location: { lat: 27.4991, lng: 77.4688 } },
+  { id: 'gvd-lost-found-daan-ghati', name: 'Khoya-Paya Kendra, Daan Ghati', town: 'Govardhan', category: 'lost_found', tags: ['khoya paya', 'lost and found', 'parikrama'], location: { lat: 27.4950, lng: 77.4631 } },
+
+  // Barsana
+  { id: 'brs-ladli-ji', name: 'Shri Radha Rani Temple', altNames: ['Ladli Ji Mandir', 'Shriji Mandir'], town: 'Barsana', category: 'temple', tags: ['radha', 'bhanugarh hill', 'lathmar holi'], location: { lat: 27.6489, lng: 77.3762 } },
+  { id: 'brs-kirti-mandir', name: 'Kirti Mandir', town: 'Barsana', category: 'temple', tags: ['kirti maiya', 'radha', 'kripalu'], location: { lat: 27.6504, lng: 77.3825 } },
+  { id: 'brs-rangeeli-mahal', name: 'Rangeeli Mahal', town: 'Barsana', category: 'temple', tags: ['radha', 'kripalu'], location: { lat: 27.6558, lng: 77.3858 } },
+  { id: 'brs-bhanokhar', name: 'Bhanokhar Kund', altNames: ['Bhanu Sarovar'], town: 'Barsana', category: 'kund', tags: ['vrishabhanu', 'radha'], location: { lat: 27.6472, lng: 77.3798 } },
+  { id: 'brs-prem-sarovar', name: 'Prem Sarovar', town: 'Barsana', category: 'kund', tags: ['radha krishna', 'nandgaon road'], location: { lat: 27.6668, lng: 77.3865 } },
+  { id: 'brs-parking', name: 'Barsana Bus Stand Parking', town: 'Barsana', category: 'parking', tags: ['car', 'bus'], location: { lat: 27.6455, lng: 77.3815 } },
+  { id: 'brs-toilet', name: 'Public Toilet, Barsana Bus Stand', town: 'Barsana', category: 'toilet', tags: ['public toilet'], location: { lat: 27.6458, lng: 77.3810 } },
+  { id: 'brs-water', name: 'Pyau, Ladli Ji Steps', town: 'Barsana', category: 'water', tags: ['drinking water', 'pyau'], location: { lat: 27.6482, lng: 77.3772 } },
+  { id: 'brs-police-station', name: 'Police Station, Barsana', town: 'Barsana', category: 'police', tags: ['police', 'thana'], location: { lat: 27.6469, lng: 77.3829 } },
+  { id: 'brs-hospital-chc', name: 'Community Health Centre, Barsana', altNames: ['Barsana CHC'], town: 'Barsana', category: 'hospital', tags: ['emergency', 'government'], location: { lat: 27.6441, lng: 77.3849 } },
+  { id: 'brs-lost-found', name: 'Khoya-Paya Kendra, Ladli Ji Steps', town: 'Barsana', category: 'lost_found', tags: ['khoya paya', 'lost and found', 'holi'], location: { lat: 27.6476, lng: 77.3779 } },
+
+  // Nandgaon
+  { id: 'ndg-nand-bhavan', name: 'Nand Bhavan, Nandgaon', altNames: ['Nand Rai Ji Mandir', 'Nandishwar Mandir'], town: 'Nandgaon', category: 'temple', tags: ['krishna', 'nand baba', 'nandishwar hill', 'lathmar holi'], location: { lat: 27.7125, lng: 77.3845 } },
+
+  // Gokul
+  { id: 'gkl-nand-bhawan', name: 'Nand Bhawan, Gokul', altNames: ['Nand Kila'], town: 'Gokul', category: 'temple', tags: ['krishna', 'nand baba', 'yashoda'], location: { lat: 27.4401, lng: 77.7213 } },
+  { id: 'gkl-raman-reti', name: 'Raman Reti', town: 'Gokul', category: 'temple', tags: ['krishna', 'sand', 'deer park'], location: { lat: 27.4302, lng: 77.7258 } },
+  { id: 'gkl-chaurasi-khamba', name: 'Chaurasi Khamba', town: 'Gokul', category: 'temple', tags: ['mahavan', 'krishna', 'pillars'], location: { lat: 27.4370, lng: 77.7510 } },
+  { id: 'gkl-thakurani-ghat', name: 'Thakurani Ghat', town: 'Gokul', category: 'ghat', tags: ['yamuna', 'vallabhacharya', 'aarti'], location: { lat: 27.4410, lng: 77.7196 } },
+  { id: 'gkl-brahmand-ghat', name: 'Brahmand Ghat', town: 'Gokul', category: 'ghat', tags: ['yamuna', 'mahavan', 'mud eating leela'], location: { lat: 27.4335, lng: 77.7480 } },
+  { id: 'gkl-parking', name: 'Gokul Parking', town: 'Gokul', category: 'parking', tags: ['car', 'bus'], location: { lat: 27.4392, lng: 77.7225 } },
+  { id: 'gkl-toilet', name: 'Public Toilet, Gokul Market', town: 'Gokul', category: 'toilet', tags: ['public toilet'], location: { lat: 27.4396, lng: 77.7219 } },
+  { id: 'gkl-water', name: 'Pyau, Thakurani Ghat', town: 'Gokul', category: 'water', tags: ['drinking water', 'pyau'], location: { lat: 27.4407, lng: 77.7200 } },
+  { id: 'gkl-police-chowki', name: 'Police Chowki, Gokul', town: 'Gokul', category: 'police', tags: ['police', 'chowki'], location: { lat: 27.4394, lng: 77.7229 } },
+  { id: 'gkl-hospital-phc', name: 'Primary Health Centre, Gokul', altNames: ['Gokul PHC'], town: 'Gokul', category: 'hospital', tags: ['government', 'first aid'], location: { lat: 27.4384, lng: 77.7241 } },
+
+  // Baldeo
+  { id: 'bld-dauji', name: 'Shri Dauji Maharaj Temple', altNames: ['Dauji Mandir', 'Baldev Mandir'], town: 'Baldeo', category: 'temple', tags: ['balram', 'dauji', 'huranga'], location: { lat: 27.4098, lng: 77.8209 } },
+];
@@ -0,0 +1,170 @@
+import { DarshanSeason, TempleTimings } from '../types';
+
+// Bump whenever timings change, a temple is added, or the season dates are extended.
+// Hours are what the temples post at the gate; they shift by 15-30 minutes from year to year and on
+// crowded days, so Buddy always presents them as "usually".
+export const DARSHAN_DATASET_VERSION = '2026.10.1';
+
+// Temples move to summer hours the day after Holi and back to winter hours the day after Diwali.
+// Both follow the lunar calendar, so each switch is listed; past the last entry the month decides.
+export const SEASON_CHANGES: { from: string; season: DarshanSeason }[] = [
+  { from: '2025-03-15', season: 'summer' },
+  { from: '2025-10-21', season: 'winter' },
+  { from: '2026-03-05', season: 'summer' },
+  { from: '2026-11-09', season: 'winter' },
+  { from: '2027-03-23', season: 'summer' },
+  { from: '2027-10-30', season: 'winter' },
+];
+
+const same = <T>(value: T): Record<DarshanSeason, T> => ({ summer: value, winter: value });
+
+export const TEMPLE_TIMINGS: TempleTimings[] = [
+  // Mathura
+  {
+    poiId: 'mth-janmabhoomi',
+    darshan: {
+      summer: [{ from: '05:00', to: '12:00' }, { from: '16:00', to: '21:30' }],
+      winter: [{ from: '05:30', to: '12:00' }, { from: '15:00', to: '20:30' }],
+    },
+    note: 'Phones, bags and cameras are not allowed inside; lockers at the gate.',
+  },
+  {
+    poiId: 'mth-dwarkadhish',
+    darshan: {
+      summer: [{ from: '06:30', to: '10:30' }, { from: '16:00', to: '19:00' }],
+      winter: [{ from: '06:30', to: '10:30' }, { from: '15:30', to: '18:30' }],
+    },
+    note: 'Pushtimarg seva: darshan opens in short jhankis, so the doors close and reopen within those hours.',
+  },
+  {
+    poiId: 'mth-gita-mandir',
+    darshan: same([{ from: '05:00', to: '12:00' }, { from: '14:00', to: '20:00' }]),
+  },
+  {
+    poiId: 'mth-vishram-ghat',
+    aartis: {
+      summer: [{ name: 'Yamuna aarti', at: '19:00' }],
+      winter: [{ name: 'Yamuna aarti', at: '18:00' }],
+    },
+  },
+
+  // Vrindavan
+  {
+    poiId: 'vrn-banke-bihari',
+    darshan: {
+      summer: [{ from: '07:45', to: '12:00' }, { from: '17:30', to: '21:30' }],
+      winter: [{ from: '08:45', to: '13:00' }, { from: '16:30', to: '20:30' }],
+    },
+    aartis: {
+      summer: [{ name: 'Shringar aarti', at: '08:00' }, { name: 'Shayan aarti', at: '21:25' }],
+      winter: [{ name: 'Shringar aarti', at: '09:00' }, { name: 'Shayan aarti', at: '20:25' }],
+    },
+    note: 'No mangla aarti except on Janmashtami. Weekends and ekadashi are very crowded.',
+  },
+  {
+    poiId: 'vrn-iskcon',
+    darshan: same([{ from: '04:30', to: '12:45' }, { from: '16:15', to: '20:45' }]),
+    aartis: same([
+      { name: 'Mangla aarti', at: '04:30' },
+      { name: 'Shringar darshan', at: '07:15' },
+      { name: 'Sandhya aarti', at: '18:30' },
+    ]),
+  },
+  {
+    poiId: 'vrn-prem-mandir',
+    darshan: same([{ from: '05:30', to: '12:00' }, { from: '16:30', to: '20:30' }]),
+    aartis: same([{ name: 'Sandhya aarti', at: '19:00' }]),
+    note: 'The light and fountain show runs in the evening after the aarti.',
+  },
+  {
+    poiId: 'vrn-radha-raman',
+    darshan: {
+      summer: [{ from: '04:00', to: '12:30' }, { from: '18:00', to: '21:30' }],
+      winter: [{ from: '05:00', to: '12:30' }, { from: '17:30', to: '20:30' }],
+    },
+    aartis: {
+      summer: [{ name: 'Mangla aarti', at: '04:00' }, { name: 'Sandhya aarti', at: '19:00' }],
+      winter: [{ name: 'Mangla aarti', at: '05:00' }, { name: 'Sandhya aarti', at: '18:00' }],
+    },
+  },
+  {
+    poiId: 'vrn-radha-vallabh',
+    darshan: {
+      summer: [{ from: '05:00', to: '12:00' }, { from: '18:00', to: '21:30' }],
+      winter: [{ from: '05:30', to: '12:00' }, { from: '17:00', to: '20:30' }],
+    },
+  },
+  {
+    poiId: 'vrn-govind-dev',
+    darshan: same([{ from: '06:00', to: '12:00' }, { from: '16:00', to: '20:00' }]),
+  },
+  {
+    poiId: 'vrn-rangaji',
+    darshan: {
+      summer: [{ from: '05:30', to: '11:00' }, { from: '16:00', to: '21:00' }],
+      winter: [{ from: '06:00', to: '11:30' }, { from: '15:30', to: '20:30' }],
+    },
+  },
+  {
+    poiId: 'vrn-madan-mohan',
+    darshan: same([{ from: '06:00', to: '12:00' }, { from: '17:00', to: '20:00' }]),
+  },
+  {
+    poiId: 'vrn-nidhivan',
+    darshan: {
+      summer: [{ from: '05:00', to: '19:30' }],
+      winter: [{ from: '06:00', to: '18:30' }],
+    },
+    note: 'Emptied after the evening aarti; nobody may stay inside at night.',
+  },
+  {
+    poiId: 'vrn-seva-kunj',
+    darshan: {
+      summer: [{ from: '05:00', to: '19:30' }],
+      winter: [{ from: '06:00', to: '18:30' }],
+    },
+    note: 'Closed at night, like Nidhivan.',
+  },
+  {
+    poiId: 'vrn-keshi-ghat',
+    aartis: {
+      summer: [{ name: 'Yamuna aarti', at: '19:00' }],
+      winter: [{ name: 'Yamuna aarti', at: '18:00' }],
+    },
+  },
+
+  // Govardhan
+  {
+    poiId: 'gvd-daan-ghati',
+    darshan: same([{ from: '05:00', to: '13:00' }, { from: '16:00', to: '22:00' }]),
+    note: 'Parikrama itself goes on day and night.',
+  },
+  {
+    poiId: 'gvd-mukharvind-jatipura',
+    darshan: same([{ from: '05:00', to: '12:00' }, { from: '16:00', to: '21:00' }]),
+  },
+
+  // Barsana
+  {
+    poiId: 'brs-ladli-ji',
+    darshan: {
+      summer: [{ from: '05:00', to: '14:00' }, { from: '17:00', to: '21:00' }],
+      winter: [{ from: '05:30', to: '14:00' }, { from: '16:30', to: '20:30' }],
+    },
+    note: 'About 200 steps up Bhanugarh hill; a ropeway runs from the Jaipur Mandir side.',
+  },
+  {
+    poiId: 'brs-kirti-mandir',
+    darshan: same([{ from: '08:00', to: '12:00' }, { from: '16:30', to: '20:00' }]),
+  },
+
+  // Gokul
+  {
+    poiId: 'gkl-nand-bhawan',
+    darshan: same([{ from: '06:00', to: '12:00' }, { from: '16:00', to: '19:30' }]),
+  },
+  {
+    poiId: 'gkl-thakurani-ghat',
+    aartis: same([{ name: 'Yamuna aarti', at: '18:30' }]),
+  },
+];
@@ -0,0 +1,52 @@
+import { ScriptStep, fakeAudioChunk } from '../services/fakeLiveTransport';
+
+const say = (text: string, delayMs = 400): ScriptStep[] => [
+  { kind: 'message', delayMs, message: { serverContent: { outputTranscription: { text } } } },
+  { kind: 'message', message: { serverContent: { modelTurn: { parts: [{ inlineData: { data: fakeAudioChunk(), mimeType: 'audio/pcm;rate=24000' } }] } } } },
+  { kind: 'message', message: { serverContent: { turnComplete: true } } },
+];
+
+const resumable = (handle: string): ScriptStep => ({
+  kind: 'message',
+  message: { sessionResumptionUpdate: { newHandle: handle, resumable: true } },
+});
+
+// Greeting, a spoken question that triggers lookUpMapInfo, an interrupted answer, then a goAway and a resumed session
+export const DEMO_SCRIPT: ScriptStep[][] = [
+  [
+    resumable('fake-handle-1'),
+    ...say('Radhe Radhe, Lalla! Kahan ja ryo hai?'),
+    { kind: 'waitFor', event: 'realtimeInput' },
+    { kind: 'message', delayMs: 800, message: { serverContent: { inputTranscription: { text: 'Banke Bihari kahan hai?' } } } },
+    { kind: 'message', message: { toolCall: { functionCalls: [{ id: 'fake-call-1', name: 'lookUpMapInfo', args: { query: 'Banke Bihari temple' } }] } } },
+    { kind: 'waitFor', event: 'toolResponse' },
+    ...say('Seedho chal, Bihari Ji ki gali mein mud ja.'),
+    { kind: 'message', delayMs: 1500, message: { serverContent: { outputTranscription: { text: 'Aur sun, wahan bheed bahut' } } } },
+    { kind: 'message', message: { serverContent: { modelTurn: { parts: [{ inlineData: { data: fakeAudioChunk(1200, 330), mimeType: 'audio/pcm;rate=24000' } }] } } } },
+    { kind: 'message', delayMs: 300, message: { serverContent: { interrupted: true } } },
+    resumable('fake-handle-2'),
+    { kind: 'message', delayMs: 2000, message: { goAway: { timeLeft: '5s' } } },
+  ],
+  [
+    resumable('fake-handle-3'),
+    ...say('Phir aa gayo, Lalla. Kachu aur?'),
+  ],
+];
+
+// Socket keeps dropping: two unexpected closes before a connection finally sticks
+export const FLAKY_NETWORK_SCRIPT: ScriptStep[][] = [
+  [resumable('flaky-1'), ...say('Radhe Radhe!'), { kind: 'close', delayMs: 1000 }],
+  [resumable('flaky-2'), { kind: 'close', delayMs: 500 }],
+  [resumable('flaky-3'), ...say('Ab net theek hai, bol.')],
+];
+
+// The server rejects the key outright
+export const BAD_KEY_SCRIPT: ScriptStep[][] = [
+  [{ kind: 'error', delayMs: 200, message: 'Requested entity was not found.' }],
+];
+
+export const FAKE_LIVE_SCRIPTS: Record<string, ScriptStep[][]> = {
+  demo: DEMO_SCRIPT,
+  flaky: FLAKY_NETWORK_SCRIPT,
+  'bad-key': BAD_KEY_SCRIPT,
+};
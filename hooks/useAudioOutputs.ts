@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import { supportsOutputSelection } from '../utils/replyPlayer';
+
+// Speakers, earphones and Bluetooth sets Buddy could talk through; empty where the output can't be chosen
+export const useAudioOutputs = () => {
+  const [outputs, setOutputs] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    if (!supportsOutputSelection() || !navigator.mediaDevices?.enumerateDevices) return;
+    let cancelled = false;
+
+    const refresh = () => {
+      navigator.mediaDevices.enumerateDevices()
+        .then(devices => {
+          // The "default" entry duplicates a real device; '' already means "whatever the system uses"
+          if (!cancelled) setOutputs(devices.filter(d => d.kind === 'audiooutput' && d.deviceId !== 'default'));
+        })
+        .catch(err => console.warn("Could not list audio outputs", err));
+    };
+
+    refresh();
+    // Earphones plugged in, Bluetooth connected, or labels unlocked by the mic permission
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices.removeEventListener('devicechange', refresh);
+    };
+  }, []);
+
+  return outputs;
+};
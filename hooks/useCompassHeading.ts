@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+
+type OrientationEventWithCompass = DeviceOrientationEvent & { webkitCompassHeading?: number };
+
+// iOS 13+ hides orientation behind an explicit, gesture-triggered permission prompt
+const needsExplicitPermission = () =>
+  typeof DeviceOrientationEvent !== 'undefined' &&
+  typeof (DeviceOrientationEvent as any).requestPermission === 'function';
+
+export const useCompassHeading = () => {
+  const [heading, setHeading] = useState<number | null>(null);
+  const [permissionGranted, setPermissionGranted] = useState(!needsExplicitPermission());
+
+  const requestPermission = useCallback(async () => {
+    if (!needsExplicitPermission()) return;
+    try {
+      const result = await (DeviceOrientationEvent as any).requestPermission();
+      setPermissionGranted(result === 'granted');
+    } catch (err) {
+      console.warn("Compass permission error", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!permissionGranted || typeof window === 'undefined') return;
+
+    const handle = (e: OrientationEventWithCompass) => {
+      if (typeof e.webkitCompassHeading === 'number') {
+        setHeading(e.webkitCompassHeading);
+      } else if (e.absolute && e.alpha !== null) {
+        // alpha grows counter-clockwise; compass heading grows clockwise from north
+        setHeading((360 - e.alpha) % 360);
+      }
+    };
+
+    // Android only reports true-north alpha on the "absolute" event; iOS fires the plain one with webkitCompassHeading
+    const eventName = 'ondeviceorientationabsolute' in window ? 'deviceorientationabsolute' : 'deviceorientation';
+    window.addEventListener(eventName, handle as EventListener);
+    return () => window.removeEventListener(eventName, handle as EventListener);
+  }, [permissionGranted]);
+
+  return { heading, permissionGranted, requestPermission };
+};
@@ -0,0 +1,180 @@
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { ConnectionState, GeoLocation, Tour, TourProgress, TourWaypoint } from '../types';
+import {
+  BUILT_IN_TOURS,
+  describeTourResume,
+  describeTourStart,
+  describeTourStop,
+  isWaypointDone,
+  loadCustomTours,
+  loadTourProgress,
+  nextWaypoint,
+  parseTour,
+  removeCustomTour,
+  saveCustomTour,
+  saveTourProgress,
+} from '../services/tourService';
+import { assessLocation } from '../services/locationService';
+import { createGeofenceTracker } from '../utils/geofence';
+
+/**
+ * Leads a walk: watches the location against the tour's waypoints and, on arriving at one, asks Buddy to
+ * tell its story. Progress survives reconnects and reloads; a stop reached while the session was down is
+ * told as soon as it's back.
+ */
+export const useGuidedTour = (
+  location: GeoLocation | null,
+  connectionState: ConnectionState,
+  sendContext: (text: string) => boolean
+) => {
+  const [customTours, setCustomTours] = useState<Tour[]>(loadCustomTours);
+  const [progress, setProgressState] = useState<TourProgress | null>(loadTourProgress);
+  // Waypoint the group is standing in right now, if any
+  const [insideId, setInsideId] = useState<string | null>(null);
+
+  const tours = useMemo(() => [...BUILT_IN_TOURS, ...customTours], [customTours]);
+  const tour = useMemo(() => tours.find(t => t.id === progress?.tourId) ?? null, [tours, progress?.tourId]);
+  const tracker = useMemo(() => (tour ? createGeofenceTracker(tour.waypoints) : null), [tour]);
+
+  const progressRef = useRef(progress);
+  const tourRef = useRef(tour);
+  const locationRef = useRef(location);
+  const sendContextRef = useRef(sendContext);
+  // Reached while Buddy couldn't be told (offline or paused); told on reconnect or resume
+  const pendingRef = useRef<string | null>(null);
+  const previousStateRef = useRef(connectionState);
+
+  useEffect(() => {
+    tourRef.current = tour;
+  }, [tour]);
+
+  useEffect(() => {
+    sendContextRef.current = sendContext;
+  }, [sendContext]);
+
+  const setProgress = useCallback((next: TourProgress | null) => {
+    progressRef.current = next;
+    saveTourProgress(next);
+    setProgressState(next);
+  }, []);
+
+  const narrate = useCallback((waypoint: TourWaypoint) => {
+    const current = progressRef.current;
+    const activeTour = tourRef.current;
+    if (!current || !activeTour || isWaypointDone(current, waypoint.id)) return;
+    if (current.paused || !sendContextRef.current(describeTourStop(activeTour, current, waypoint, locationRef.current))) {
+      pendingRef.current = waypoint.id;
+      return;
+    }
+    pendingRef.current = null;
+    setProgress({ ...current, narrated: [...current.narrated, waypoint.id] });
+  }, [setProgress]);
+
+  const flushPending = useCallback(() => {
+    const waypoint = tourRef.current?.waypoints.find(w => w.id === pendingRef.current);
+    if (waypoint) narrate(waypoint);
+  }, [narrate]);
+
+  useEffect(() => {
+    locationRef.current = location;
+    // An unusable fix could be anywhere; a manual pin counts, so a group without GPS can still be led
+    if (!tracker || !location || assessLocation(location).quality === 'unusable') return;
+    tracker.update(location).forEach(event => {
+      if (event.type === 'exit') {
+        setInsideId(prev => (prev === event.id ? null : prev));
+        // A story told after the group has walked on would only confuse them
+        if (pendingRef.current === event.id) pendingRef.current = null;
+        return;
+      }
+      setInsideId(event.id);
+      const waypoint = tourRef.current?.waypoints.find(w => w.id === event.id);
+      if (waypoint) narrate(waypoint);
+    });
+  }, [location, tracker, narrate]);
+
+  useEffect(() => {
+    const previous = previousStateRef.current;
+    previousStateRef.current = connectionState;
+    if (connectionState !== ConnectionState.CONNECTED || previous === ConnectionState.CONNECTED) return;
+    const current = progressRef.current;
+    const activeTour = tourRef.current;
+    if (!current || !activeTour) return;
+    if (pendingRef.current && !current.paused) {
+      flushPending();
+    } else if (previous !== ConnectionState.RECONNECTING) {
+      // A resumed socket still remembers the walk; only a brand-new session needs reminding
+      sendContextRef.current(describeTourResume(activeTour, current));
+    }
+  }, [connectionState, flushPending]);
+
+  const start = useCallback((tourId: string) => {
+    const chosen = tours.find(t => t.id === tourId);
+    if (!chosen) return;
+    pendingRef.current = null;
+    setInsideId(null);
+    setProgress({ tourId, startedAt: Date.now(), narrated: [], skipped: [], paused: false });
+    sendContextRef.current(describeTourStart(chosen));
+  }, [tours, setProgress]);
+
+  const stop = useCallback(() => {
+    pendingRef.current = null;
+    setInsideId(null);
+    setProgress(null);
+  }, [setProgress]);
+
+  const pause = useCallback(() => {
+    const current = progressRef.current;
+    if (current) setProgress({ ...current, paused: true });
+  }, [setProgress]);
+
+  const resume = useCallback(() => {
+    const current = progressRef.current;
+    if (!current) return;
+    setProgress({ ...current, paused: false });
+    flushPending();
+  }, [setProgress, flushPending]);
+
+  // Passes by the stop the group is being led to; it won't be told even if they walk through it later
+  const skip = useCallback(() => {
+    const current = progressRef.current;
+    const next = tourRef.current && current ? nextWaypoint(tourRef.current, current) : null;
+    if (!current || !next) return;
+    if (pendingRef.current === next.id) pendingRef.current = null;
+    setProgress({ ...current, skipped: [...current.skipped, next.id] });
+  }, [setProgress]);
+
+  // Resolves to an error message for the sheet, or null when the tour was added
+  const importTour = useCallback(async (file: File): Promise<string | null> => {
+    try {
+      const imported = parseTour(JSON.parse(await file.text()));
+      if (BUILT_IN_TOURS.some(t => t.id === imported.id)) return `"${imported.id}" is a built-in tour's id; pick another`;
+      setCustomTours(saveCustomTour(imported));
+      return null;
+    } catch (err) {
+      return err instanceof SyntaxError ? "Ye JSON file na hai" : (err as Error).message;
+    }
+  }, []);
+
+  const removeTour = useCallback((id: string) => {
+    if (progressRef.current?.tourId === id) stop();
+    setCustomTours(removeCustomTour(id));
+  }, [stop]);
+
+  const next = tour && progress ? nextWaypoint(tour, progress) : null;
+
+  return {
+    tours,
+    tour,
+    progress,
+    next,
+    insideId,
+    finished: !!tour && !!progress && !next,
+    start,
+    stop,
+    pause,
+    resume,
+    skip,
+    importTour,
+    removeTour,
+  };
+};
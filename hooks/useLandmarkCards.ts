@@ -0,0 +1,95 @@
+import { useState, useRef, useEffect, useCallback, RefObject } from 'react';
+import { GeoLocation, LandmarkCard, TokenUsage, UsageSource } from '../types';
+import {
+  googleLandmarkIdentifier,
+  identifyLandmark,
+  LandmarkIdentifier,
+  loadLandmarkCards,
+  saveLandmarkCards,
+} from '../services/landmarkService';
+import { BuddyError, classifyError } from '../services/errors';
+import { captureSnapshot } from '../utils/snapshot';
+
+export const useLandmarkCards = (
+  videoRef: RefObject<HTMLVideoElement>,
+  canvasRef: RefObject<HTMLCanvasElement>,
+  location: GeoLocation | null,
+  options: {
+    identifier?: LandmarkIdentifier;
+    onUsage?: (source: UsageSource, usage?: TokenUsage) => void;
+    // A fresh card, for Buddy to narrate
+    onCard?: (card: LandmarkCard) => void;
+  } = {}
+) => {
+  const { identifier = googleLandmarkIdentifier, onUsage, onCard } = options;
+  const [cards, setCards] = useState<LandmarkCard[]>(loadLandmarkCards);
+  const [activeCard, setActiveCard] = useState<LandmarkCard | null>(null);
+  const [identifying, setIdentifying] = useState(false);
+  const [error, setError] = useState<BuddyError | 'no_camera' | null>(null);
+
+  const locationRef = useRef(location);
+  const onUsageRef = useRef(onUsage);
+  const onCardRef = useRef(onCard);
+  const busyRef = useRef(false);
+
+  useEffect(() => {
+    locationRef.current = location;
+  }, [location]);
+
+  useEffect(() => {
+    onUsageRef.current = onUsage;
+    onCardRef.current = onCard;
+  }, [onUsage, onCard]);
+
+  const updateCards = useCallback((update: (prev: LandmarkCard[]) => LandmarkCard[]) => {
+    setCards(prev => {
+      const next = update(prev);
+      saveLandmarkCards(next);
+      return next;
+    });
+  }, []);
+
+  const snap = useCallback(async () => {
+    // One identification at a time; a second tap while waiting would just pay twice
+    if (busyRef.current) return;
+    // Claimed before the first await, or a quick double tap gets through while the frame is captured
+    busyRef.current = true;
+    setError(null);
+    // The fix from when the shutter was pressed, not from whenever the answer comes back
+    const takenAt = locationRef.current;
+    try {
+      const snapshot = await captureSnapshot(videoRef.current, canvasRef.current);
+      if (!snapshot) {
+        setError('no_camera');
+        return;
+      }
+
+      setIdentifying(true);
+      const { usage, ...draft } = await identifyLandmark(snapshot.base64Jpeg, takenAt, identifier);
+      if (usage) onUsageRef.current?.('vision', usage);
+      const card: LandmarkCard = {
+        ...draft,
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+        thumbnail: snapshot.thumbnailDataUrl,
+      };
+      updateCards(prev => [card, ...prev]);
+      setActiveCard(card);
+      onCardRef.current?.(card);
+    } catch (err) {
+      setError(classifyError(err));
+    } finally {
+      busyRef.current = false;
+      setIdentifying(false);
+    }
+  }, [videoRef, canvasRef, identifier, updateCards]);
+
+  const removeCard = useCallback((id: string) => {
+    updateCards(prev => prev.filter(c => c.id !== id));
+    setActiveCard(prev => (prev?.id === id ? null : prev));
+  }, [updateCards]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return { cards, activeCard, openCard: setActiveCard, identifying, error, clearError, snap, removeCard };
+};
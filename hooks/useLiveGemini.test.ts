@@ -0,0 +1,249 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { LiveGeminiOptions, useLiveGemini } from './useLiveGemini';
+import { ConnectionState } from '../types';
+import { createScriptedLiveTransport, ScriptedLiveTransport, ScriptStep } from '../services/fakeLiveTransport';
+import { LiveTransportSession } from '../services/liveTransport';
+import { MediaManager } from '../utils/mediaManager';
+import { offlineMapSearchProvider } from '../services/mapService';
+import { createRecordedLiveTransport, createSessionRecorder, exportRecording, loadRecording } from '../services/sessionRecorder';
+import { BAD_KEY_SCRIPT, DEMO_SCRIPT, FLAKY_NETWORK_SCRIPT } from '../fixtures/liveScripts';
+
+// A scripted transport that also keeps the sessions it handed out, so a test can speak for the user
+const keepSessions = (transport: ScriptedLiveTransport) => {
+  const sessions: LiveTransportSession[] = [];
+  const connect: ScriptedLiveTransport['connect'] = async params => {
+    const session = await transport.connect(params);
+    sessions.push(session);
+    return session;
+  };
+  return { transport: { ...transport, connect }, sent: transport.sent, sessions };
+};
+
+const scripted = (scripts: ScriptStep[][]) => keepSessions(createScriptedLiveTransport(scripts));
+
+// Text mode never touches the mic, and jsdom has no MediaStream for the hook to make its own manager with
+const noMedia = { acquireMic: vi.fn(), releaseMic: vi.fn() } as unknown as MediaManager;
+
+// Text mode, so jsdom's missing Web Audio and mic don't matter; everything else is the real hook
+const renderLive = (transport: ScriptedLiveTransport, options: LiveGeminiOptions = {}) => {
+  // Every state that got rendered. CONNECTING never does here: the fake opens in the same tick it's asked to
+  const states: ConnectionState[] = [];
+  const onMapResults = vi.fn();
+  const hook = renderHook(() => {
+    const live = useLiveGemini({ current: null }, { current: null }, null, onMapResults, {
+      transport,
+      mapSearchProvider: offlineMapSearchProvider,
+      media: noMedia,
+      ...options,
+    });
+    if (states[states.length - 1] !== live.connectionState) states.push(live.connectionState);
+    return live;
+  });
+  return { ...hook, states, onMapResults };
+};
+
+// jsdom's Blob has no arrayBuffer(), but it does have FileReader
+const readBlob = (blob: Blob) => new Promise<Uint8Array>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+
+// Small steps, so each state change gets its own render instead of being batched into the last one
+const advance = async (ms: number, step = 50) => {
+  for (let elapsed = 0; elapsed < ms; elapsed += step) {
+    await act(() => vi.advanceTimersByTimeAsync(Math.min(step, ms - elapsed)));
+  }
+};
+
+describe('useLiveGemini against the scripted backend', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('answers the tool call, then resumes on a new socket after goAway', async () => {
+    const { transport, sent, sessions } = scripted(DEMO_SCRIPT);
+    const { result, states, onMapResults, unmount } = renderLive(transport);
+
+    await act(() => result.current.connect({ withMic: false }));
+    expect(result.current.connectionState).toBe(ConnectionState.CONNECTED);
+
+    await advance(500);
+    // The script waits for the user before it hears "Banke Bihari kahan hai?"
+    act(() => sessions[0].sendRealtimeInput({ activityStart: {} }));
+    await advance(1500);
+
+    const toolResponse = sent.find(e => e.type === 'toolResponse');
+    expect(toolResponse).toBeDefined();
+    expect(toolResponse?.type === 'toolResponse' && toolResponse.params.functionResponses).toEqual([
+      expect.objectContaining({ id: 'fake-call-1', name: 'lookUpMapInfo' }),
+    ]);
+    expect(onMapResults).toHaveBeenCalledWith(expect.any(Object), 'Banke Bihari temple');
+    expect(result.current.transcript.some(e => e.kind === 'tool_call' && e.name === 'lookUpMapInfo')).toBe(true);
+
+    // Rest of the first script, the goAway, and the backoff before reconnecting
+    await advance(6000);
+
+    expect(states).toEqual([
+      ConnectionState.DISCONNECTED,
+      ConnectionState.CONNECTED,
+      ConnectionState.RECONNECTING,
+      ConnectionState.CONNECTED,
+    ]);
+    expect(transport.connections).toHaveLength(2);
+    expect(transport.connections[1].config?.sessionResumption?.handle).toBe('fake-handle-2');
+    unmount();
+  });
+
+  it('rides out a flaky network with reconnects until a socket sticks', async () => {
+    const { transport } = scripted(FLAKY_NETWORK_SCRIPT);
+    const { result, states, unmount } = renderLive(transport);
+
+    await act(() => result.current.connect({ withMic: false }));
+    await advance(10000);
+
+    expect(states).toEqual([
+      ConnectionState.DISCONNECTED,
+      ConnectionState.CONNECTED,
+      ConnectionState.RECONNECTING,
+      ConnectionState.CONNECTED,
+      ConnectionState.RECONNECTING,
+      ConnectionState.CONNECTED,
+    ]);
+    expect(result.current.connectionState).toBe(ConnectionState.CONNECTED);
+    expect(transport.connections).toHaveLength(3);
+    expect(result.current.lastError).toBeNull();
+    unmount();
+  });
+
+  it('stops with a bad_key error instead of retrying a rejected key', async () => {
+    const { transport } = scripted(BAD_KEY_SCRIPT);
+    const { result, states, unmount } = renderLive(transport);
+
+    await act(() => result.current.connect({ withMic: false }));
+    await advance(5000);
+
+    expect(result.current.connectionState).toBe(ConnectionState.ERROR);
+    expect(states).not.toContain(ConnectionState.RECONNECTING);
+    expect(result.current.lastError?.kind).toBe('bad_key');
+    expect(transport.connections).toHaveLength(1);
+    unmount();
+  });
+
+  it('hangs up cleanly when the user disconnects', async () => {
+    const { transport, sent } = scripted(DEMO_SCRIPT);
+    const { result, unmount } = renderLive(transport);
+
+    await act(() => result.current.connect({ withMic: false }));
+    act(() => result.current.disconnect());
+    await advance(5000);
+
+    expect(result.current.connectionState).toBe(ConnectionState.DISCONNECTED);
+    expect(sent[sent.length - 1]).toEqual({ type: 'close' });
+    expect(transport.connections).toHaveLength(1);
+    unmount();
+  });
+
+  it('closes a socket that finishes opening after the user already hung up', async () => {
+    const { transport, sent } = scripted(DEMO_SCRIPT);
+    let finishHandshake = () => {};
+    const handshake = new Promise<void>(resolve => { finishHandshake = resolve; });
+    const slow: ScriptedLiveTransport = {
+      ...transport,
+      connect: async params => {
+        await handshake;
+        return transport.connect(params);
+      },
+    };
+    const { result, unmount } = renderLive(slow);
+
+    let connecting: Promise<void> = Promise.resolve();
+    act(() => { connecting = result.current.connect({ withMic: false }); });
+    act(() => result.current.disconnect());
+    await act(async () => {
+      finishHandshake();
+      await connecting;
+    });
+    await advance(5000);
+
+    expect(result.current.connectionState).toBe(ConnectionState.DISCONNECTED);
+    expect(sent.filter(e => e.type === 'close')).toHaveLength(1);
+    expect(transport.connections).toHaveLength(1);
+    unmount();
+  });
+
+  it.each([
+    'help me find the ghat',
+    'I lost my chappal near Kesi Ghat',
+    'mera phone kho gaya',
+    'rasta dhoondne mein madad karo',
+  ])('treats "%s" as an ordinary question, not an SOS', async text => {
+    const onSosRequest = vi.fn();
+    const { result, unmount } = renderLive(createScriptedLiveTransport([[]]), { onSosRequest });
+
+    await act(() => result.current.connect({ withMic: false }));
+    act(() => { result.current.sendText(text); });
+
+    expect(onSosRequest).not.toHaveBeenCalled();
+    unmount();
+  });
+
+  it.each(['main kho gaya', 'I lost my son near the ghat', 'bachao'])('switches SOS on for "%s"', async text => {
+    const onSosRequest = vi.fn();
+    const { result, unmount } = renderLive(createScriptedLiveTransport([[]]), { onSosRequest });
+
+    await act(() => result.current.connect({ withMic: false }));
+    act(() => { result.current.sendText(text); });
+
+    expect(onSosRequest).toHaveBeenCalledTimes(1);
+    unmount();
+  });
+
+  it('replays an exported recording as a fixture, tool call and resume included', async () => {
+    const recorder = createSessionRecorder();
+    const live = scripted(DEMO_SCRIPT);
+    const original = renderLive(live.transport, { recorder });
+    await act(() => original.result.current.connect({ withMic: false }));
+    await advance(500);
+    act(() => live.sessions[0].sendRealtimeInput({ activityStart: {} }));
+    await advance(7500);
+    const spoken = original.result.current.transcript.filter(e => e.kind === 'model').map(e => e.text);
+    act(() => original.result.current.disconnect());
+    original.unmount();
+
+    const recording = recorder.snapshot();
+    expect(spoken.length).toBeGreaterThan(0);
+    expect(recording.model.length).toBeGreaterThan(0);
+    const reading = readBlob(exportRecording(recording));
+    // FileReader reports back on a timer, and the timers here are fake
+    await advance(50);
+    const loaded = loadRecording(await reading);
+    expect(loaded.events).toEqual(recording.events);
+    expect(loaded.model).toEqual(recording.model);
+
+    const replay = keepSessions(createRecordedLiveTransport(loaded));
+    const { result, unmount } = renderLive(replay.transport);
+    await act(() => result.current.connect({ withMic: false }));
+    await advance(500);
+    act(() => replay.sessions[0].sendRealtimeInput({ activityStart: {} }));
+    await advance(7500);
+
+    expect(replay.sent.find(e => e.type === 'toolResponse')).toMatchObject({
+      params: { functionResponses: [expect.objectContaining({ id: 'fake-call-1', name: 'lookUpMapInfo' })] },
+    });
+    expect(replay.transport.connections).toHaveLength(2);
+    expect(replay.transport.connections[1].config?.sessionResumption?.handle).toBe('fake-handle-2');
+    expect(result.current.transcript.filter(e => e.kind === 'model').map(e => e.text)).toEqual(spoken);
+    unmount();
+  });
+});
@@ -1,242 +1,694 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, FunctionDeclaration, Type } from '@google/genai';
-import { ConnectionState, GeoLocation, MapSearchResult } from '../types';
-import { searchMaps } from '../services/mapService';
-
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
-
-function decode(base64: string) {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
+import { Modality } from '@google/genai';
+import { ConnectionState, GeoLocation, MapSearchResult, PersonaProfile, ScheduleAnswer, SpeechCue, TokenUsage, TranscriptEntry, UsageSource } from '../types';
+import { createMapTool, googleMapSearchProvider, MapSearchProvider } from '../services/mapService';
+import { createScheduleTool } from '../services/darshanService';
+import { googleLiveTransport, LiveTransport, LiveTransportSession } from '../services/liveTransport';
+import { createToolRegistry, LiveTool, ToolRegistry } from '../services/toolRegistry';
+import { SessionRecorder } from '../services/sessionRecorder';
+import { buildSystemInstruction } from '../services/personaService';
+import { describeLocation, describeLocationChange, isSignificantChange } from '../services/locationService';
+import { toTokenUsage } from '../services/usageMeter';
+import { BuddyError, MicFailureError, NetworkError, UnsupportedBrowserError, checkBrowserSupport, classifyError, classifyMicError } from '../services/errors';
+import { DEFAULT_PERSONA_ID, getPersona } from '../data/personas';
+import { decode, decodePcm16, createBlob } from '../utils/audio';
+import { startMicCapture, MicCapture, MIC_TARGET_SAMPLE_RATE } from '../utils/micCapture';
+import { createFrameScheduler, FrameScheduler, FramePresetName, FrameStats } from '../utils/frameScheduler';
+import { createVoiceActivityDetector, MicMode } from '../utils/voiceActivity';
+import { createReplyPlayer, DEFAULT_PLAYBACK, PlaybackSettings, ReplyPlayer } from '../utils/replyPlayer';
+import { createMediaManager, MediaManager } from '../utils/mediaManager';
 
-function encode(bytes: Uint8Array) {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
+const MAX_RECONNECT_ATTEMPTS = 6;
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 15000;
+// Chunks kept while the gate is shut, so the first syllable that opened it still reaches the model
+const PRE_ROLL_CHUNKS = 3;
+// GPS wobble shouldn't turn into a running commentary; manual pins skip the wait
+const LOCATION_CONTEXT_MIN_INTERVAL_MS = 90 * 1000;
+// Captions only need the last few turns
+const MAX_SPEECH_CUES = 400;
+// "Ye kya hai?" and friends: the user wants Buddy to look right now
+const LOOK_REQUEST = /\b(ye+h?|yah|is|isme|wo|woh)\s+(kya|kaun|kon)\b|\bkya\s+(hai|h)\s+(ye+h?|yah|wo)\b|what(?:'s| is) (this|that)/i;
+// Someone lost or in trouble. A match switches SOS mode on (saved session, [SOS] note, calm persona), so only
+// phrases about people count: "help me find the ghat" or "rasta dhoondne mein madad karo" are ordinary questions.
+const SOS_REQUEST = /\b(sos|bachao|bachaao|bichh?ad gay[aeio]|i(?:'m| am) lost|(?:main|mai|hum|ham|bachch[aei]|beta|beti|mummy|papa|maa|amma|bhai|behen) kho gay[aeio]|lost my (?:family|group|child|kid|son|daughter|baby|mother|father|mom|mum|dad|parents?|wife|husband|brother|sister|friends?))\b/i;
 
-function createBlob(data: Float32Array): { data: string; mimeType: string } {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
-  return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
-  };
+export interface LiveGeminiOptions {
+  extraTools?: LiveTool[];
+  persona?: PersonaProfile;
+  // Swappable so the hook can run against the scripted fake backend without a key or network
+  transport?: LiveTransport;
+  mapSearchProvider?: MapSearchProvider;
+  framePreset?: FramePresetName;
+  // 'auto' streams only what the client VAD calls speech, 'hold' only while the talk button is held
+  micMode?: MicMode;
+  // Off stops camera frames without ending the session, e.g. to save budget
+  cameraEnabled?: boolean;
+  // Every billed call: each live usageMetadata report, and each map search (usage absent when it ran offline)
+  onUsage?: (source: UsageSource, usage?: TokenUsage) => void;
+  // Volume, speed and output device for Buddy's voice; applied live
+  playback?: PlaybackSettings;
+  // Owner of the capture tracks, shared with the camera preview; the hook makes its own if left out
+  media?: MediaManager;
+  // '' is the default mic; changing it mid-session moves the mic over
+  micDeviceId?: string;
+  // Each darshan/festival lookup Buddy makes, for the schedule card
+  onScheduleResult?: (answer: ScheduleAnswer) => void;
+  // The user said something that sounds like a call for help
+  onSosRequest?: () => void;
+  // Opt-in: logs every socket (mic, frames, replies, tool calls) plus state changes for export and replay
+  recorder?: SessionRecorder | null;
 }
 
-async function blobToBase64(blob: Blob): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64data = reader.result as string;
-      resolve(base64data.split(',')[1]);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
-}
-
-const mapToolDeclaration: FunctionDeclaration = {
-  name: 'lookUpMapInfo',
-  description: 'Search for real-time places, directions, or map information relative to the user location.',
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      query: {
-        type: Type.STRING,
-        description: 'The search query for maps (e.g., "restaurants nearby", "directions to home").',
-      },
-    },
-    required: ['query'],
-  },
-};
+const NO_TOOLS: LiveTool[] = [];
+const DEFAULT_PERSONA = getPersona(DEFAULT_PERSONA_ID);
 
 export const useLiveGemini = (
   videoRef: React.RefObject<HTMLVideoElement | null>,
   canvasRef: React.RefObject<HTMLCanvasElement | null>,
   userLocation: GeoLocation | null,
-  onMapResults: (results: MapSearchResult) => void,
-  onResetKey: () => void
+  onMapResults: (results: MapSearchResult, query: string) => void,
+  options: LiveGeminiOptions = {}
 ) => {
+  const {
+    extraTools = NO_TOOLS,
+    persona = DEFAULT_PERSONA,
+    transport = googleLiveTransport,
+    mapSearchProvider = googleMapSearchProvider,
+    framePreset = 'balanced',
+    micMode = 'auto',
+    cameraEnabled = true,
+    onUsage,
+    onScheduleResult,
+    onSosRequest,
+    recorder = null,
+    playback = DEFAULT_PLAYBACK,
+    micDeviceId = '',
+  } = options;
+  const [ownMedia] = useState(() => (options.media ? null : createMediaManager()));
+  const media = options.media ?? ownMedia!;
   const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
   const [isTalking, setIsTalking] = useState(false);
   const [volume, setVolume] = useState(0);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [speechCues, setSpeechCues] = useState<SpeechCue[]>([]);
+  const [micActive, setMicActive] = useState(false);
+  const [speakReplies, setSpeakReplies] = useState(true);
+  const [userSpeaking, setUserSpeaking] = useState(false);
+  const [canReplay, setCanReplay] = useState(false);
+  // Why the last attempt failed; ERROR always comes with one, a refused mic sets it while staying connected
+  const [lastError, setLastError] = useState<BuddyError | null>(null);
+  const [frameStats, setFrameStats] = useState<FrameStats>({ captured: 0, sent: 0, skippedDuplicate: 0, skippedHidden: 0 });
 
   const inputAudioContextRef = useRef<AudioContext | null>(null);
+  const micCaptureRef = useRef<MicCapture | null>(null);
+  const mediaRef = useRef<MediaManager>(media);
+  const micDeviceIdRef = useRef(micDeviceId);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const videoIntervalRef = useRef<number | null>(null);
+  const playerRef = useRef<ReplyPlayer | null>(null);
+  const playbackRef = useRef<PlaybackSettings>(playback);
+  // Transcript entry each speaker is still adding to
+  const openSpeechIdRef = useRef<Record<'user' | 'model', string | null>>({ user: null, model: null });
+  const frameSchedulerRef = useRef<FrameScheduler | null>(null);
+  const framePresetRef = useRef<FramePresetName>(framePreset);
+  const cameraEnabledRef = useRef(cameraEnabled);
+  const onUsageRef = useRef(onUsage);
+  const onScheduleResultRef = useRef(onScheduleResult);
+  const onSosRequestRef = useRef(onSosRequest);
+  const recorderRef = useRef(recorder);
+  // Tail of what the user said lately; transcription arrives in fragments that can split a phrase
+  const recentUserTextRef = useRef('');
+  const vadRef = useRef(createVoiceActivityDetector());
+  const micModeRef = useRef<MicMode>(micMode);
+  const holdRef = useRef(false);
+  // Whether activityStart has gone out on the current socket without a matching activityEnd
+  const activityOpenRef = useRef(false);
+  const preRollRef = useRef<Float32Array[]>([]);
   const locationRef = useRef<GeoLocation | null>(userLocation);
+  // What Buddy was last told about the user's whereabouts, and when
+  const sharedLocationRef = useRef<GeoLocation | null>(null);
+  const sharedLocationAtRef = useRef(0);
+  const sessionRef = useRef<LiveTransportSession | null>(null);
+  const sessionGenRef = useRef(0);
+  const resumeHandleRef = useRef<string | null>(null);
+  const retryCountRef = useRef(0);
+  const reconnectTimerRef = useRef<number | null>(null);
+  const userClosedRef = useRef(false);
+  const extraToolsRef = useRef<LiveTool[]>(extraTools);
+  const personaRef = useRef<PersonaProfile>(persona);
+  const speakRepliesRef = useRef(speakReplies);
+  const toolRegistryRef = useRef<ToolRegistry | null>(null);
+  // onclose is bound when the socket opens, so it reaches the latest scheduler through a ref
+  const scheduleReconnectRef = useRef<() => void>(() => {});
   
   useEffect(() => {
     locationRef.current = userLocation;
+    const session = sessionRef.current;
+    if (!session || !isSignificantChange(sharedLocationRef.current, userLocation)) return;
+    const newPin = userLocation?.source === 'manual' && userLocation.label !== sharedLocationRef.current?.label;
+    if (!newPin && Date.now() - sharedLocationAtRef.current < LOCATION_CONTEXT_MIN_INTERVAL_MS) return;
+    sharedLocationRef.current = userLocation;
+    sharedLocationAtRef.current = Date.now();
+    session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: describeLocationChange(userLocation) }] }], turnComplete: true });
   }, [userLocation]);
 
-  const connect = useCallback(async () => {
-    try {
-      setConnectionState(ConnectionState.CONNECTING);
-      
-      const apiKey = process.env.API_KEY;
-      if (!apiKey) throw new Error("API Key not found in environment.");
-
-      const ai = new GoogleGenAI({ apiKey });
-
-      const inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      const outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      inputAudioContextRef.current = inputAudioContext;
-      outputAudioContextRef.current = outputAudioContext;
-
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const outputNode = outputAudioContext.createGain();
-      outputNode.connect(outputAudioContext.destination);
-
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } },
-          },
-          systemInstruction: `
-            Persona: "Braj Buddy" - A grumpy, street-smart guide from Mathura.
-            Language: Braj Bhasha / Hindi dialect.
-            Directives:
-            - You're watching through the camera. Comment on what you see!
-            - Call the user "Lalla", "Gunda", or "Hore Chhore".
-            - If they ask for directions or places, use 'lookUpMapInfo' immediately.
-            - Grumpy but loving. Complain about heat, noise, or "Lalla's" slow brain.
-            - KEEP IT VERY SHORT. Maximum 10 words per turn.
-            - "Radhe Radhe" is your greeting.
-          `,
-          tools: [{ functionDeclarations: [mapToolDeclaration] }],
+  // Tools, voice and persona are fixed per socket, so changes are picked up on the next (re)connect
+  useEffect(() => {
+    extraToolsRef.current = extraTools;
+  }, [extraTools]);
+
+  useEffect(() => {
+    personaRef.current = persona;
+  }, [persona]);
+
+  useEffect(() => {
+    onUsageRef.current = onUsage;
+  }, [onUsage]);
+
+  useEffect(() => {
+    onScheduleResultRef.current = onScheduleResult;
+  }, [onScheduleResult]);
+
+  useEffect(() => {
+    onSosRequestRef.current = onSosRequest;
+  }, [onSosRequest]);
+
+  useEffect(() => {
+    recorderRef.current = recorder;
+  }, [recorder]);
+
+  useEffect(() => {
+    recorderRef.current?.log({ type: 'state', state: connectionState });
+  }, [connectionState]);
+
+  useEffect(() => {
+    playbackRef.current = playback;
+    playerRef.current?.apply(playback);
+  }, [playback]);
+
+  // Buddy keeps talking under the user until the model decides it was really an interruption
+  useEffect(() => {
+    playerRef.current?.setDucked(userSpeaking);
+  }, [userSpeaking]);
+
+  useEffect(() => {
+    cameraEnabledRef.current = cameraEnabled;
+    const scheduler = frameSchedulerRef.current;
+    if (!scheduler) return;
+    if (cameraEnabled) scheduler.start();
+    else scheduler.stop();
+  }, [cameraEnabled]);
+
+  // Unlike voice and tools, the camera preset can change mid-session
+  useEffect(() => {
+    framePresetRef.current = framePreset;
+    frameSchedulerRef.current?.setPreset(framePreset);
+  }, [framePreset]);
+
+  const startUserActivity = useCallback(() => {
+    if (activityOpenRef.current) return;
+    activityOpenRef.current = true;
+    setUserSpeaking(true);
+    sessionRef.current?.sendRealtimeInput({ activityStart: {} });
+  }, []);
+
+  const endUserActivity = useCallback(() => {
+    if (!activityOpenRef.current) return;
+    activityOpenRef.current = false;
+    setUserSpeaking(false);
+    sessionRef.current?.sendRealtimeInput({ activityEnd: {} });
+  }, []);
+
+  useEffect(() => {
+    micModeRef.current = micMode;
+    holdRef.current = false;
+    vadRef.current.reset();
+    endUserActivity();
+  }, [micMode, endUserActivity]);
+
+  const pushToTalk = useCallback((pressed: boolean) => {
+    if (micModeRef.current !== 'hold') return;
+    holdRef.current = pressed;
+    if (pressed) {
+      startUserActivity();
+      frameSchedulerRef.current?.markActivity();
+    } else {
+      endUserActivity();
+    }
+  }, [startUserActivity, endUserActivity]);
+
+  const noticeUserText = useCallback((text: string) => {
+    const recent = (recentUserTextRef.current + text).slice(-60);
+    const sos = SOS_REQUEST.test(recent);
+    const look = LOOK_REQUEST.test(recent);
+    if (sos) onSosRequestRef.current?.();
+    if (look) frameSchedulerRef.current?.boost();
+    recentUserTextRef.current = sos || look ? '' : recent;
+  }, []);
+
+  // Transcription chunks stream in word by word, so keep growing the open entry for that speaker
+  const appendSpeech = useCallback((kind: 'user' | 'model', text: string): string => {
+    const id = openSpeechIdRef.current[kind] ?? crypto.randomUUID();
+    openSpeechIdRef.current[kind] = id;
+    setTranscript(prev => {
+      const idx = prev.findIndex(e => e.id === id);
+      if (idx === -1) {
+        return [...prev, { id, kind, text, timestamp: Date.now(), final: false }];
+      }
+      const open = prev[idx] as Extract<TranscriptEntry, { kind: 'user' | 'model' }>;
+      const next = [...prev];
+      next[idx] = { ...open, text: open.text + text };
+      return next;
+    });
+    return id;
+  }, []);
+
+  const closeSpeech = useCallback((kinds: ('user' | 'model')[]) => {
+    kinds.forEach(kind => { openSpeechIdRef.current[kind] = null; });
+    setTranscript(prev => prev.map(e =>
+      (e.kind === 'user' || e.kind === 'model') && !e.final && kinds.includes(e.kind) ? { ...e, final: true } : e
+    ));
+  }, []);
+
+  const clearTranscript = useCallback(() => {
+    openSpeechIdRef.current = { user: null, model: null };
+    setTranscript([]);
+    setSpeechCues([]);
+  }, []);
+
+  const stopPlayback = useCallback(() => {
+    playerRef.current?.stop();
+    setIsTalking(false);
+  }, []);
+
+  // Whatever was said last is kept, so a cut-off reply can be heard again too
+  const endReplyTurn = useCallback(() => {
+    const player = playerRef.current;
+    if (!player) return;
+    player.endTurn();
+    setCanReplay(player.canReplay());
+  }, []);
+
+  const replayLast = useCallback((): boolean => playerRef.current?.replayLast() ?? false, []);
+
+  useEffect(() => {
+    speakRepliesRef.current = speakReplies;
+    if (!speakReplies) stopPlayback();
+  }, [speakReplies, stopPlayback]);
+
+  // The mic track goes too, not just the pipeline, so the browser's recording indicator switches off
+  const stopMicCapture = useCallback(() => {
+    micCaptureRef.current?.stop();
+    micCaptureRef.current = null;
+    if (inputAudioContextRef.current) inputAudioContextRef.current.close();
+    inputAudioContextRef.current = null;
+    mediaRef.current.releaseMic();
+    setMicActive(false);
+  }, []);
+
+  // Stops everything the session owns. Bumping the generation silences the old socket's late callbacks.
+  const teardown = useCallback((finalState: ConnectionState) => {
+    userClosedRef.current = true;
+    sessionGenRef.current += 1;
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+    reconnectTimerRef.current = null;
+    toolRegistryRef.current?.cancelAll();
+    sessionRef.current?.close();
+    sessionRef.current = null;
+    resumeHandleRef.current = null;
+    frameSchedulerRef.current?.stop();
+    frameSchedulerRef.current = null;
+    recentUserTextRef.current = '';
+    activityOpenRef.current = false;
+    holdRef.current = false;
+    preRollRef.current = [];
+    setUserSpeaking(false);
+    stopMicCapture();
+    stopPlayback();
+    if (outputAudioContextRef.current) outputAudioContextRef.current.close();
+    outputAudioContextRef.current = null;
+    playerRef.current = null;
+    setCanReplay(false);
+    closeSpeech(['user', 'model']);
+    setConnectionState(finalState);
+  }, [closeSpeech, stopPlayback, stopMicCapture]);
+
+  // Leaving the page mid-session must not leave the socket or the mic running
+  useEffect(() => () => teardown(ConnectionState.DISCONNECTED), [teardown]);
+
+  const fail = useCallback((error: BuddyError) => {
+    console.error(`Live session failed (${error.kind}):`, error.original ?? error);
+    setLastError(error);
+    teardown(ConnectionState.ERROR);
+  }, [teardown]);
+
+  // Opens one Live socket. Mic and camera pipelines outlive it, so a reconnect only swaps the session.
+  const openSession = useCallback(async () => {
+    const generation = ++sessionGenRef.current;
+    // A fresh socket hasn't seen any activityStart; the next mic chunk reopens the turn if still speaking
+    activityOpenRef.current = false;
+
+    // Calls still running belong to the old socket, which will never take their answers
+    toolRegistryRef.current?.cancelAll();
+    const registry = createToolRegistry([
+      createMapTool((query, result) => {
+        onUsageRef.current?.('maps', result.usage);
+        recorderRef.current?.log({ type: 'map_result', query, result });
+        onMapResults(result, query);
+        setTranscript(prev => [...prev, { id: crypto.randomUUID(), kind: 'map_result', query, result, timestamp: Date.now() }]);
+      }, mapSearchProvider),
+      createScheduleTool(answer => onScheduleResultRef.current?.(answer)),
+      ...extraToolsRef.current,
+    ]);
+    toolRegistryRef.current = registry;
+    // The new socket starts out knowing where we are, so only later moves need a [LOCATION] note
+    sharedLocationRef.current = locationRef.current;
+    sharedLocationAtRef.current = Date.now();
+
+    // Picked per socket, so switching recording on takes effect at the next (re)connect
+    const sessionPromise = (recorderRef.current ? recorderRef.current.wrap(transport) : transport).connect({
+      model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: personaRef.current.voiceName } },
+        },
+        systemInstruction: buildSystemInstruction(personaRef.current, describeLocation(locationRef.current)),
+        tools: [{ functionDeclarations: registry.declarations }],
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        // Turn-taking comes from the client VAD or the talk button, so bells and crowd noise never reach the model
+        realtimeInputConfig: { automaticActivityDetection: { disabled: true } },
+        sessionResumption: { handle: resumeHandleRef.current ?? undefined },
+      },
+      callbacks: {
+        onopen: () => {
+          // A socket that finishes its handshake after disconnect() or a newer connect has nothing to report
+          if (generation !== sessionGenRef.current) return;
+          retryCountRef.current = 0;
+          setConnectionState(ConnectionState.CONNECTED);
+        },
+        onmessage: (msg) => {
+          if (generation !== sessionGenRef.current) return;
+
+          if (msg.usageMetadata) onUsageRef.current?.('live', toTokenUsage(msg.usageMetadata));
+
+          if (msg.sessionResumptionUpdate?.resumable && msg.sessionResumptionUpdate.newHandle) {
+            resumeHandleRef.current = msg.sessionResumptionUpdate.newHandle;
+          }
+          if (msg.goAway) {
+            // Server is about to drop us; hop to a fresh socket while the handle is still valid
+            console.warn("Live API goAway, time left:", msg.goAway.timeLeft);
+            sessionPromise.then(s => s.close()).catch(() => {});
+          }
+
+          const inputText = msg.serverContent?.inputTranscription?.text;
+          if (inputText) {
+            appendSpeech('user', inputText);
+            noticeUserText(inputText);
+          }
+          const outputText = msg.serverContent?.outputTranscription?.text;
+          if (outputText) {
+            // Buddy has started answering, so whatever the user said is done
+            closeSpeech(['user']);
+            const entryId = appendSpeech('model', outputText);
+            // The words are heard once everything already queued ahead of them has played
+            const queuedSeconds = speakRepliesRef.current ? playerRef.current?.queuedSeconds() ?? 0 : 0;
+            setSpeechCues(prev => [
+              ...prev.slice(-(MAX_SPEECH_CUES - 1)),
+              { entryId, text: outputText, at: Date.now() + queuedSeconds * 1000 },
+            ]);
+          }
+          const audio = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+          // Silent replies still get their text through outputTranscription
+          if (audio && speakRepliesRef.current) {
+            playerRef.current?.play(decodePcm16(decode(audio)));
+          }
+          if (msg.toolCall?.functionCalls?.length) {
+            const calls = msg.toolCall.functionCalls;
+            closeSpeech(['user', 'model']);
+            setTranscript(prev => [...prev, ...calls.map(fc => ({
+              id: crypto.randomUUID(),
+              kind: 'tool_call' as const,
+              name: fc.name ?? 'unknown',
+              query: typeof fc.args?.query === 'string' ? fc.args.query : JSON.stringify(fc.args ?? {}),
+              timestamp: Date.now(),
+            }))]);
+            registry.run(calls, locationRef.current, (_call, e) => {
+              // The same key drives the map search, so a dead key there is a dead session
+              const error = classifyError(e);
+              if (error.fatal) fail(error);
+            }).then(functionResponses => {
+              if (generation !== sessionGenRef.current || functionResponses.length === 0) return;
+              sessionPromise.then(s => s.sendToolResponse({ functionResponses })).catch(() => {});
+            });
+          }
+          if (msg.toolCallCancellation?.ids?.length) {
+            registry.cancel(msg.toolCallCancellation.ids);
+          }
+          if (msg.serverContent?.interrupted) {
+            stopPlayback();
+            // Queued audio was thrown away, so its words will never be heard
+            const now = Date.now();
+            setSpeechCues(prev => prev.filter(c => c.at <= now));
+            closeSpeech(['model']);
+            endReplyTurn();
+          }
+          if (msg.serverContent?.turnComplete) {
+            closeSpeech(['user', 'model']);
+            endReplyTurn();
+          }
         },
-        callbacks: {
-          onopen: () => {
-            setConnectionState(ConnectionState.CONNECTED);
-            const source = inputAudioContext.createMediaStreamSource(stream);
-            const scriptProcessor = inputAudioContext.createScriptProcessor(4096, 1, 1);
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              sessionPromise.then(s => s.sendRealtimeInput({ media: pcmBlob })).catch(() => {});
-              let sum = 0;
-              for(let i=0; i<inputData.length; i++) sum += inputData[i] * inputData[i];
-              setVolume(Math.sqrt(sum / inputData.length));
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputAudioContext.destination);
-
-            videoIntervalRef.current = window.setInterval(() => {
-              const video = videoRef.current;
-              const canvas = canvasRef.current;
-              if (video && canvas && video.videoWidth > 0) {
-                const ctx = canvas.getContext('2d');
-                if (ctx) {
-                  canvas.width = 320;
-                  canvas.height = 180;
-                  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-                  canvas.toBlob(async (blob) => {
-                    if (blob) {
-                      const data = await blobToBase64(blob);
-                      sessionPromise.then(s => s.sendRealtimeInput({ media: { data, mimeType: 'image/jpeg' }})).catch(() => {});
-                    }
-                  }, 'image/jpeg', 0.5);
-                }
-              }
-            }, 1000);
-          },
-          onmessage: async (msg) => {
-            const audio = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (audio) {
-              setIsTalking(true);
-              const ctx = outputAudioContextRef.current;
-              if (ctx) {
-                nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-                const buffer = await decodeAudioData(decode(audio), ctx, 24000, 1);
-                const source = ctx.createBufferSource();
-                source.buffer = buffer;
-                source.connect(outputNode);
-                source.onended = () => {
-                  sourcesRef.current.delete(source);
-                  if (sourcesRef.current.size === 0) setIsTalking(false);
-                };
-                source.start(nextStartTimeRef.current);
-                nextStartTimeRef.current += buffer.duration;
-                sourcesRef.current.add(source);
-              }
-            }
-            if (msg.toolCall) {
-              for (const fc of msg.toolCall.functionCalls) {
-                if (fc.name === 'lookUpMapInfo') {
-                  try {
-                    const result = await searchMaps((fc.args as any).query, locationRef.current || { lat: 0, lng: 0 });
-                    onMapResults(result);
-                    sessionPromise.then(s => s.sendToolResponse({
-                      functionResponses: { id: fc.id, name: fc.name, response: { result: result.text } }
-                    }));
-                  } catch (e: any) {
-                    if (e.message?.includes("Requested entity was not found")) onResetKey();
-                  }
-                }
-              }
-            }
-            if (msg.serverContent?.interrupted) {
-              sourcesRef.current.forEach(s => { try { s.stop(); } catch {} });
-              sourcesRef.current.clear();
-              setIsTalking(false);
-            }
-          },
-          onclose: () => setConnectionState(ConnectionState.DISCONNECTED),
-          onerror: (e: any) => {
-            console.error("Live API Error:", e);
-            if (e.message?.includes("Requested entity was not found")) onResetKey();
-            setConnectionState(ConnectionState.ERROR);
+        onclose: (e: CloseEvent) => {
+          if (generation !== sessionGenRef.current) return;
+          sessionRef.current = null;
+          if (userClosedRef.current) {
+            setConnectionState(ConnectionState.DISCONNECTED);
+            return;
+          }
+          // The server explains key and quota refusals in the close reason; retrying those only burns time
+          const error = e?.reason ? classifyError(e) : null;
+          if (error?.fatal) {
+            fail(error);
+          } else {
+            scheduleReconnectRef.current();
           }
+        },
+        onerror: (e: ErrorEvent) => {
+          if (generation !== sessionGenRef.current) return;
+          const error = classifyError(e);
+          console.error("Live API Error:", e);
+          if (error.fatal) fail(error);
         }
+      }
+    });
+
+    const session = await sessionPromise;
+    // Torn down while the socket was opening; nobody else holds it, so close it here
+    if (generation !== sessionGenRef.current) {
+      session.close();
+      return;
+    }
+    sessionRef.current = session;
+  }, [transport, mapSearchProvider, onMapResults, appendSpeech, closeSpeech, stopPlayback, endReplyTurn, noticeUserText, fail]);
+
+  const scheduleReconnect = useCallback(() => {
+    if (retryCountRef.current >= MAX_RECONNECT_ATTEMPTS) {
+      fail(new NetworkError(`Gave up after ${MAX_RECONNECT_ATTEMPTS} reconnect attempts.`));
+      return;
+    }
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** retryCountRef.current, RECONNECT_MAX_DELAY_MS);
+    retryCountRef.current += 1;
+    setConnectionState(ConnectionState.RECONNECTING);
+    // Whatever was queued belongs to the dead socket
+    stopPlayback();
+    closeSpeech(['user', 'model']);
+    reconnectTimerRef.current = window.setTimeout(async () => {
+      reconnectTimerRef.current = null;
+      if (userClosedRef.current) return;
+      try {
+        await openSession();
+      } catch (err) {
+        console.error("Reconnect failed:", err);
+        const error = classifyError(err);
+        if (error.fatal) {
+          fail(error);
+          return;
+        }
+        scheduleReconnectRef.current();
+      }
+    }, delay + Math.random() * 250);
+  }, [openSession, stopPlayback, closeSpeech, fail]);
+
+  useEffect(() => {
+    scheduleReconnectRef.current = scheduleReconnect;
+  }, [scheduleReconnect]);
+
+  // Safe to call again mid-session, e.g. after the user unblocks the mic in site settings
+  const startMic = useCallback(async (): Promise<boolean> => {
+    if (micCaptureRef.current) return true;
+    let stream: MediaStream;
+    try {
+      stream = await mediaRef.current.acquireMic(micDeviceIdRef.current || undefined);
+    } catch (err) {
+      // Not fatal: the session carries on as text chat. Only a refusal is something the user can fix.
+      console.warn("Mic unavailable, continuing in text mode", err);
+      const error = classifyMicError(err);
+      if (error.kind === 'mic_denied') setLastError(error);
+      return false;
+    }
+    if (userClosedRef.current) {
+      mediaRef.current.releaseMic();
+      return false;
+    }
+
+    // No sampleRate hint: Android ignores it anyway and the worklet resamples to 16 kHz itself
+    const inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    inputAudioContextRef.current = inputAudioContext;
+    vadRef.current.reset();
+    preRollRef.current = [];
+    micCaptureRef.current = await startMicCapture(inputAudioContext, stream, (pcm, rms) => {
+      setVolume(rms);
+      const speaking = micModeRef.current === 'hold' ? holdRef.current : vadRef.current.update(rms);
+      if (speaking && !activityOpenRef.current) {
+        startUserActivity();
+        preRollRef.current.forEach(chunk => sessionRef.current?.sendRealtimeInput({ media: createBlob(chunk, MIC_TARGET_SAMPLE_RATE) }));
+        preRollRef.current = [];
+      }
+      if (activityOpenRef.current) {
+        sessionRef.current?.sendRealtimeInput({ media: createBlob(pcm, MIC_TARGET_SAMPLE_RATE) });
+        frameSchedulerRef.current?.markActivity();
+        if (!speaking) endUserActivity();
+      } else {
+        preRollRef.current = [...preRollRef.current, pcm].slice(-PRE_ROLL_CHUNKS);
+      }
+    });
+    setMicActive(true);
+    setLastError(prev => (prev?.kind === 'mic_denied' || prev?.kind === 'mic_failed' ? null : prev));
+    return true;
+  }, [startUserActivity, endUserActivity]);
+
+  // A mid-session (re)start; if it fails the session carries on as text and the recovery screen says why
+  const restartMic = useCallback(async () => {
+    try {
+      const started = await startMic();
+      // A refusal has already been reported by startMic itself
+      if (!started && !userClosedRef.current) {
+        setLastError(prev => prev?.kind === 'mic_denied' ? prev : new MicFailureError('The microphone could not be opened.'));
+      }
+    } catch (err) {
+      // e.g. the worklet failed to load; drop the half-built graph
+      console.warn("Mic restart failed", err);
+      stopMicCapture();
+      setLastError(new MicFailureError(err instanceof Error ? err.message : String(err), err));
+    }
+  }, [startMic, stopMicCapture]);
+
+  useEffect(() => {
+    mediaRef.current = media;
+  }, [media]);
+
+  useEffect(() => {
+    if (micDeviceIdRef.current === micDeviceId) return;
+    micDeviceIdRef.current = micDeviceId;
+    if (!micCaptureRef.current) return;
+    // The capture graph is bound to the old track, so rebuild it on the new one
+    stopMicCapture();
+    endUserActivity();
+    restartMic();
+  }, [micDeviceId, stopMicCapture, endUserActivity, restartMic]);
+
+  const connect = useCallback(async ({ withMic = true }: { withMic?: boolean } = {}) => {
+    setLastError(null);
+    const support = checkBrowserSupport();
+    if (!support.text || (withMic && !support.voice)) {
+      fail(new UnsupportedBrowserError(support.missing));
+      return;
+    }
+
+    try {
+      setConnectionState(ConnectionState.CONNECTING);
+      userClosedRef.current = false;
+      retryCountRef.current = 0;
+      resumeHandleRef.current = null;
+
+      // Text mode still works without Web Audio; replies then only arrive as captions
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      if (AudioContextClass) {
+        const outputAudioContext = new AudioContextClass({ sampleRate: 24000 });
+        outputAudioContextRef.current = outputAudioContext;
+        playerRef.current = createReplyPlayer({
+          ctx: outputAudioContext,
+          sampleRate: 24000,
+          settings: playbackRef.current,
+          onTalkingChange: setIsTalking,
+        });
+      }
+
+      await openSession();
+      // A fatal error during the handshake has already torn everything down
+      if (userClosedRef.current) return;
+      if (withMic) await startMic();
+
+      const frameScheduler = createFrameScheduler({
+        getVideo: () => videoRef.current,
+        getCanvas: () => canvasRef.current,
+        send: (data) => sessionRef.current?.sendRealtimeInput({ media: { data, mimeType: 'image/jpeg' } }),
+        onStats: setFrameStats,
+        preset: framePresetRef.current,
       });
-    } catch (err: any) {
-      console.error("Connection failed:", err);
-      if (err.message?.includes("Requested entity was not found")) onResetKey();
-      setConnectionState(ConnectionState.ERROR);
+      frameSchedulerRef.current = frameScheduler;
+      if (cameraEnabledRef.current) frameScheduler.start();
+    } catch (err) {
+      fail(classifyError(err));
     }
-  }, [videoRef, canvasRef, onMapResults, onResetKey]);
+  }, [videoRef, canvasRef, openSession, startMic, fail]);
 
-  const disconnect = useCallback(() => {
-    if (videoIntervalRef.current) clearInterval(videoIntervalRef.current);
-    if (inputAudioContextRef.current) inputAudioContextRef.current.close();
-    if (outputAudioContextRef.current) outputAudioContextRef.current.close();
-    setConnectionState(ConnectionState.DISCONNECTED);
+  // Pushes an app-side note (navigation, location...) into the conversation as a completed user turn
+  const sendContext = useCallback((text: string): boolean => {
+    const session = sessionRef.current;
+    if (!session) return false;
+    session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+    return true;
   }, []);
 
-  return { connect, disconnect, connectionState, isTalking, volume };
-};
\ No newline at end of file
+  // A typed turn goes over the same live session, so tools and persona behave exactly as with speech
+  const sendText = useCallback((text: string): boolean => {
+    const session = sessionRef.current;
+    const trimmed = text.trim();
+    if (!session || !trimmed) return false;
+    noticeUserText(` ${trimmed}`);
+    closeSpeech(['user', 'model']);
+    setTranscript(prev => [...prev, { id: crypto.randomUUID(), kind: 'user', text: trimmed, timestamp: Date.now(), final: true }]);
+    session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: trimmed }] }], turnComplete: true });
+    return true;
+  }, [noticeUserText, closeSpeech]);
+
+  const disconnect = useCallback(() => teardown(ConnectionState.DISCONNECTED), [teardown]);
+
+  const clearError = useCallback(() => setLastError(null), []);
+
+  return {
+    connect,
+    disconnect,
+    sendContext,
+    sendText,
+    connectionState,
+    lastError,
+    clearError,
+    retryMic: restartMic,
+    isTalking,
+    replayLast,
+    canReplay,
+    volume,
+    transcript,
+    speechCues,
+    clearTranscript,
+    micActive,
+    speakReplies,
+    setSpeakReplies,
+    frameStats,
+    userSpeaking,
+    pushToTalk,
+  };
+};
@@ -0,0 +1,118 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import {
+  CameraControls,
+  CameraFacing,
+  createMediaManager,
+  loadMediaPreferences,
+  MediaPreferences,
+  saveMediaPreferences,
+} from '../utils/mediaManager';
+
+const NO_CONTROLS: CameraControls = { zoom: null, torch: false };
+
+/**
+ * The preview side of the shared media stream: which camera, its zoom and torch, and the device lists
+ * for the pickers. The same manager is handed to the live session for the mic.
+ */
+export const useMediaStream = (videoRef: React.RefObject<HTMLVideoElement | null>) => {
+  const [media] = useState(createMediaManager);
+  const [preferences, setPreferences] = useState<MediaPreferences>(loadMediaPreferences);
+  const [facing, setFacing] = useState<CameraFacing>(preferences.facing);
+  const [controls, setControls] = useState<CameraControls>(NO_CONTROLS);
+  const [zoom, setZoomState] = useState<number | null>(null);
+  const [torch, setTorchState] = useState(false);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [mics, setMics] = useState<MediaDeviceInfo[]>([]);
+  const preferencesRef = useRef(preferences);
+
+  const updatePreferences = useCallback((change: Partial<MediaPreferences>) => {
+    const next = { ...preferencesRef.current, ...change };
+    preferencesRef.current = next;
+    saveMediaPreferences(next);
+    setPreferences(next);
+  }, []);
+
+  // Labels stay blank until a capture has been allowed, so this runs again after every start
+  const refreshDevices = useCallback(() => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    navigator.mediaDevices.enumerateDevices()
+      .then(devices => {
+        setCameras(devices.filter(d => d.kind === 'videoinput' && d.deviceId));
+        setMics(devices.filter(d => d.kind === 'audioinput' && d.deviceId && d.deviceId !== 'default'));
+      })
+      .catch(err => console.warn("Could not list cameras and mics", err));
+  }, []);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.addEventListener) return;
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+  }, [refreshDevices]);
+
+  // Leaving the page must switch the camera and mic lights off
+  useEffect(() => () => media.stopAll(), [media]);
+
+  // Throws what getUserMedia threw, so the caller can tell the user the camera is missing
+  const startCamera = useCallback(async () => {
+    const { facing: wanted, cameraId } = preferencesRef.current;
+    const track = await media.startCamera({ facing: wanted, deviceId: cameraId || undefined });
+    if (!track) return;
+    const video = videoRef.current;
+    // Reassigning makes every browser pick up the swapped track
+    if (video) {
+      video.srcObject = null;
+      video.srcObject = media.stream;
+    }
+    const settings = media.cameraSettings();
+    setFacing(settings?.facingMode === 'user' ? 'user' : settings?.facingMode === 'environment' ? 'environment' : wanted);
+    const nextControls = media.cameraControls();
+    setControls(nextControls);
+    setZoomState(nextControls.zoom ? settings?.zoom ?? nextControls.zoom.min : null);
+    setTorchState(false);
+    refreshDevices();
+  }, [media, videoRef, refreshDevices]);
+
+  const switchFacing = useCallback(() => {
+    updatePreferences({ facing: facing === 'user' ? 'environment' : 'user', cameraId: '' });
+    return startCamera();
+  }, [facing, updatePreferences, startCamera]);
+
+  const selectCamera = useCallback((cameraId: string) => {
+    updatePreferences({ cameraId });
+    return startCamera();
+  }, [updatePreferences, startCamera]);
+
+  // Picked up by the live session, which reopens its mic on the new device
+  const selectMic = useCallback((micId: string) => updatePreferences({ micId }), [updatePreferences]);
+
+  const setZoom = useCallback((value: number) => {
+    const range = controls.zoom;
+    if (!range) return;
+    const stepped = Math.round((value - range.min) / (range.step || 0.1)) * (range.step || 0.1) + range.min;
+    const clamped = Math.min(range.max, Math.max(range.min, stepped));
+    media.setZoom(clamped);
+    setZoomState(clamped);
+  }, [media, controls.zoom]);
+
+  const toggleTorch = useCallback(async () => {
+    setTorchState(await media.setTorch(!torch));
+  }, [media, torch]);
+
+  return {
+    media,
+    facing,
+    cameraId: preferences.cameraId,
+    micId: preferences.micId,
+    cameras,
+    mics,
+    controls,
+    zoom,
+    torch,
+    startCamera,
+    switchFacing,
+    selectCamera,
+    selectMic,
+    setZoom,
+    toggleTorch,
+  };
+};
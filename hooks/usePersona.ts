@@ -0,0 +1,16 @@
+import { useState, useCallback } from 'react';
+import { PersonaProfile } from '../types';
+import { getPersona } from '../data/personas';
+import { loadPersona, savePersona } from '../services/personaService';
+
+export const usePersona = () => {
+  const [persona, setPersona] = useState<PersonaProfile>(loadPersona);
+
+  const selectPersona = useCallback((id: string) => {
+    const next = getPersona(id);
+    savePersona(next.id);
+    setPersona(next);
+  }, []);
+
+  return { persona, selectPersona };
+};
@@ -0,0 +1,26 @@
+import React, { useRef, useCallback } from 'react';
+
+const spread = (touches: React.TouchList) =>
+  Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+// Two-finger pinch on the preview scales the camera zoom it started from; one finger is left alone
+export const usePinchZoom = (zoom: number | null, onZoom: (zoom: number) => void) => {
+  const startRef = useRef<{ spread: number; zoom: number } | null>(null);
+
+  const onTouchStart = useCallback((e: React.TouchEvent) => {
+    if (e.touches.length !== 2 || zoom === null) return;
+    startRef.current = { spread: spread(e.touches), zoom };
+  }, [zoom]);
+
+  const onTouchMove = useCallback((e: React.TouchEvent) => {
+    const start = startRef.current;
+    if (!start || e.touches.length !== 2 || start.spread === 0) return;
+    onZoom(start.zoom * (spread(e.touches) / start.spread));
+  }, [onZoom]);
+
+  const onTouchEnd = useCallback((e: React.TouchEvent) => {
+    if (e.touches.length < 2) startRef.current = null;
+  }, []);
+
+  return { onTouchStart, onTouchMove, onTouchEnd, onTouchCancel: onTouchEnd };
+};
@@ -0,0 +1,101 @@
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Breadcrumb, ConnectionState, GeoLocation, SosSession, SosTrigger } from '../types';
+import {
+  addBreadcrumb,
+  describeSosEnd,
+  describeSosStart,
+  loadBreadcrumbs,
+  loadSosSession,
+  nearestHelp,
+  saveBreadcrumbs,
+  saveSosSession,
+} from '../services/safetyService';
+
+/**
+ * SOS mode and the breadcrumb trail behind it. Everything here is local, so it works with the live session
+ * down: the trail is recorded from GPS all the time, not just once something has gone wrong.
+ */
+export const useSafetyMode = (gpsLocation: GeoLocation | null, location: GeoLocation | null) => {
+  const [session, setSessionState] = useState<SosSession | null>(loadSosSession);
+  const [trail, setTrail] = useState<Breadcrumb[]>(() => loadBreadcrumbs());
+  const sessionRef = useRef(session);
+  const trailRef = useRef(trail);
+
+  useEffect(() => {
+    if (!gpsLocation) return;
+    const next = addBreadcrumb(trailRef.current, gpsLocation);
+    if (next === trailRef.current) return;
+    trailRef.current = next;
+    saveBreadcrumbs(next);
+    setTrail(next);
+  }, [gpsLocation]);
+
+  const setSession = useCallback((next: SosSession | null) => {
+    sessionRef.current = next;
+    saveSosSession(next);
+    setSessionState(next);
+  }, []);
+
+  const activate = useCallback((trigger: SosTrigger) => {
+    if (!sessionRef.current) setSession({ activatedAt: Date.now(), trigger });
+  }, [setSession]);
+
+  const end = useCallback(() => setSession(null), [setSession]);
+
+  const clearTrail = useCallback(() => {
+    trailRef.current = [];
+    saveBreadcrumbs([]);
+    setTrail([]);
+  }, []);
+
+  const help = useMemo(() => (location ? nearestHelp(location) : []), [location]);
+
+  return { active: !!session, session, help, trail, activate, end, clearTrail };
+};
+
+/**
+ * Keeps Buddy told about SOS mode: on the way in and out, and again after a fresh connect, since a new
+ * socket starts with the calm persona but doesn't know what happened. A note that couldn't go out while
+ * offline is sent on the next connect instead.
+ */
+export const useSosBriefing = (
+  session: SosSession | null,
+  location: GeoLocation | null,
+  connectionState: ConnectionState,
+  sendContext: (text: string) => boolean
+) => {
+  const locationRef = useRef(location);
+  const sendContextRef = useRef(sendContext);
+  const previousSessionRef = useRef(session);
+  const previousStateRef = useRef(connectionState);
+  const pendingRef = useRef(false);
+
+  useEffect(() => {
+    locationRef.current = location;
+  }, [location]);
+
+  useEffect(() => {
+    sendContextRef.current = sendContext;
+  }, [sendContext]);
+
+  useEffect(() => {
+    const previous = previousSessionRef.current;
+    previousSessionRef.current = session;
+    if (session && !previous) {
+      pendingRef.current = !sendContextRef.current(describeSosStart(session.trigger, locationRef.current));
+    } else if (!session && previous) {
+      pendingRef.current = false;
+      sendContextRef.current(describeSosEnd());
+    }
+  }, [session]);
+
+  useEffect(() => {
+    const previous = previousStateRef.current;
+    previousStateRef.current = connectionState;
+    if (connectionState !== ConnectionState.CONNECTED || previous === ConnectionState.CONNECTED) return;
+    // A resumed socket still remembers, unless the note never reached it
+    if (session && (pendingRef.current || previous !== ConnectionState.RECONNECTING)) {
+      pendingRef.current = !sendContextRef.current(describeSosStart(session.trigger, locationRef.current));
+    }
+  }, [connectionState, session]);
+};
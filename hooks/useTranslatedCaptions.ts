@@ -0,0 +1,76 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { SpeechCue, TokenUsage, TranscriptEntry, UsageSource } from '../types';
+import { CaptionLanguage, googleTranslator, MAX_CAPTION_CHARS, Translator } from '../services/translationService';
+import { buildCaptionSegments, CaptionSegment, currentCaption } from '../utils/captions';
+
+const CLOCK_TICK_MS = 200;
+
+export interface Caption {
+  segment: CaptionSegment;
+  // null while the translation is on its way (or failed)
+  translation: string | null;
+}
+
+export const useTranslatedCaptions = (
+  cues: SpeechCue[],
+  transcript: TranscriptEntry[],
+  language: CaptionLanguage,
+  options: {
+    translator?: Translator;
+    onUsage?: (source: UsageSource, usage?: TokenUsage) => void;
+  } = {}
+) => {
+  const { translator = googleTranslator, onUsage } = options;
+  const [translations, setTranslations] = useState<Record<string, string>>({});
+  const [now, setNow] = useState(Date.now);
+  // Keys asked for under the current language, so a sentence is only paid for once
+  const requestedRef = useRef<Set<string>>(new Set());
+  const onUsageRef = useRef(onUsage);
+
+  useEffect(() => {
+    onUsageRef.current = onUsage;
+  }, [onUsage]);
+
+  useEffect(() => {
+    requestedRef.current = new Set();
+    setTranslations({});
+  }, [language, translator]);
+
+  const finalIds = useMemo(
+    () => new Set(transcript.filter(e => e.kind === 'model' && e.final).map(e => e.id)),
+    [transcript]
+  );
+  const segments = useMemo(() => buildCaptionSegments(cues, finalIds), [cues, finalIds]);
+
+  // Translate each sentence as soon as it's complete, which is usually well before its audio plays
+  useEffect(() => {
+    if (language === 'off') return;
+    segments.forEach(segment => {
+      if (!segment.complete || requestedRef.current.has(segment.key)) return;
+      requestedRef.current.add(segment.key);
+      const requested = requestedRef.current;
+      translator.translate(segment.text.slice(0, MAX_CAPTION_CHARS), language)
+        .then(({ text, usage }) => {
+          if (usage) onUsageRef.current?.('captions', usage);
+          // The language changed while this was in flight
+          if (requested !== requestedRef.current) return;
+          setTranslations(prev => ({ ...prev, [segment.key]: text }));
+        })
+        .catch(err => console.warn("Caption translation failed", err));
+    });
+  }, [segments, language, translator]);
+
+  // Only tick while something could be on screen: from the first cue until the last one has had its time
+  const lastCueAt = cues.length > 0 ? cues[cues.length - 1].at : 0;
+  const active = language !== 'off' && currentCaption(segments, Math.max(now, lastCueAt)) !== null;
+  useEffect(() => {
+    if (!active) return;
+    const timer = window.setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+    return () => clearInterval(timer);
+  }, [active]);
+
+  const segment = language === 'off' ? null : currentCaption(segments, now);
+  const caption: Caption | null = segment ? { segment, translation: translations[segment.key] ?? null } : null;
+
+  return { caption };
+};
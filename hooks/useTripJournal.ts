@@ -0,0 +1,81 @@
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { GeoLocation, JournalEntry, MapSearchResult, PlaceResult, TripStop } from '../types';
+import {
+  addJournalEntry,
+  clearJournal as clearJournalStore,
+  deleteTripStop,
+  listJournalEntries,
+  listTripStops,
+  putTripStop,
+} from '../services/journalStore';
+import { planItinerary, tripKeyFor } from '../services/tripPlanner';
+
+export const useTripJournal = (location: GeoLocation | null) => {
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [stops, setStops] = useState<TripStop[]>([]);
+  // Set when IndexedDB can't be opened; the journal then only lasts until the page closes
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const locationRef = useRef(location);
+
+  useEffect(() => {
+    locationRef.current = location;
+  }, [location]);
+
+  const reportStorageError = useCallback((err: unknown) => {
+    console.warn("Journal storage error", err);
+    setStorageError("Diary is phone pe save na ho paa rahi.");
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([listJournalEntries(), listTripStops()])
+      .then(([savedEntries, savedStops]) => {
+        if (cancelled) return;
+        // Anything recorded while the database was still opening stays on top
+        setEntries(prev => [...prev, ...savedEntries.filter(e => !prev.some(p => p.id === e.id))]);
+        setStops(prev => [...savedStops.filter(s => !prev.some(p => p.key === s.key)), ...prev]);
+      })
+      .catch(reportStorageError);
+    return () => { cancelled = true; };
+  }, [reportStorageError]);
+
+  const record = useCallback((query: string, result: MapSearchResult) => {
+    if (result.links.length === 0 && result.places.length === 0) return;
+    const entry: JournalEntry = {
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      query,
+      result,
+      location: locationRef.current,
+    };
+    setEntries(prev => [entry, ...prev]);
+    addJournalEntry(entry).catch(reportStorageError);
+  }, [reportStorageError]);
+
+  const starredKeys = useMemo(() => new Set(stops.map(s => s.key)), [stops]);
+
+  const isStarred = useCallback((place: PlaceResult) => starredKeys.has(tripKeyFor(place)), [starredKeys]);
+
+  const toggleStar = useCallback((place: PlaceResult) => {
+    const key = tripKeyFor(place);
+    if (starredKeys.has(key)) {
+      setStops(prev => prev.filter(s => s.key !== key));
+      deleteTripStop(key).catch(reportStorageError);
+    } else {
+      // Distance and bearing were relative to wherever the search ran; the planner works its own out
+      const { distanceMeters, bearingDegrees, ...bare } = place;
+      const stop: TripStop = { key, place: bare, addedAt: Date.now() };
+      setStops(prev => [...prev, stop]);
+      putTripStop(stop).catch(reportStorageError);
+    }
+  }, [starredKeys, reportStorageError]);
+
+  const clearJournal = useCallback(() => {
+    setEntries([]);
+    clearJournalStore().catch(reportStorageError);
+  }, [reportStorageError]);
+
+  const itinerary = useMemo(() => planItinerary(location, stops), [location, stops]);
+
+  return { entries, stops, itinerary, storageError, record, isStarred, toggleStar, clearJournal };
+};
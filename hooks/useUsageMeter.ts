@@ -0,0 +1,90 @@
+import { useState, useCallback, useRef, useMemo } from 'react';
+import { SessionUsageRecord, TokenUsage, UsageBudget, UsageSource } from '../types';
+import {
+  addUsage,
+  checkBudget,
+  clearUsageHistory,
+  loadBudget,
+  loadUsageHistory,
+  newUsageRecord,
+  saveBudget,
+  saveSessionUsage,
+  sessionTotal,
+  tokensUsedToday,
+} from '../services/usageMeter';
+
+export const useUsageMeter = (personaId: string) => {
+  const [history, setHistory] = useState<SessionUsageRecord[]>(loadUsageHistory);
+  const [budget, setBudgetState] = useState<UsageBudget>(loadBudget);
+  const [current, setCurrent] = useState<SessionUsageRecord | null>(null);
+  // Usage reports arrive from socket callbacks; the ref keeps increments from racing each other
+  const currentRef = useRef<SessionUsageRecord | null>(null);
+
+  const commit = useCallback((record: SessionUsageRecord | null, save: SessionUsageRecord | null = record) => {
+    currentRef.current = record;
+    setCurrent(record);
+    // Saved on every report so a crash or closed tab still counts towards today's cap
+    if (save) setHistory(saveSessionUsage(save));
+  }, []);
+
+  const startSession = useCallback(() => {
+    commit(newUsageRecord(personaId));
+  }, [personaId, commit]);
+
+  const endSession = useCallback((reason: SessionUsageRecord['endReason']) => {
+    const record = currentRef.current;
+    if (!record) return;
+    commit(null, { ...record, endedAt: Date.now(), endReason: reason });
+  }, [commit]);
+
+  const record = useCallback((source: UsageSource, usage?: TokenUsage) => {
+    const rec = currentRef.current;
+    if (!rec) {
+      // A snapshot while Buddy sleeps still costs money, so it gets an entry of its own
+      if (usage) {
+        const oneOff = newUsageRecord(personaId);
+        setHistory(saveSessionUsage({
+          ...oneOff,
+          endedAt: oneOff.startedAt,
+          mapSearches: source === 'maps' ? 1 : 0,
+          [source]: usage,
+        }));
+      }
+      return;
+    }
+    commit({
+      ...rec,
+      [source]: usage ? addUsage(rec[source], usage) : rec[source],
+      mapSearches: rec.mapSearches + (source === 'maps' ? 1 : 0),
+    });
+  }, [personaId, commit]);
+
+  const setBudget = useCallback((next: UsageBudget) => {
+    saveBudget(next);
+    setBudgetState(next);
+  }, []);
+
+  const clearHistory = useCallback(() => {
+    clearUsageHistory();
+    // The running session stays on the books; clearing history isn't a way round the daily cap
+    setHistory(currentRef.current ? saveSessionUsage(currentRef.current) : []);
+  }, []);
+
+  const sessionTokens = current ? sessionTotal(current) : 0;
+  const dailyTokens = tokensUsedToday(history);
+  const check = useMemo(() => checkBudget(sessionTokens, dailyTokens, budget), [sessionTokens, dailyTokens, budget]);
+
+  return {
+    current,
+    history,
+    budget,
+    setBudget,
+    sessionTokens,
+    dailyTokens,
+    check,
+    startSession,
+    endSession,
+    record,
+    clearHistory,
+  };
+};
@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { GeoLocation, PointOfInterest } from '../types';
+import { pinAtLandmark } from '../services/locationService';
+
+export type LocationError = 'denied' | 'unsupported' | null;
+
+// A manual pin wins over GPS until it is cleared: under temple domes the fix can drift by hundreds of metres
+export const useUserLocation = () => {
+  const [gpsLocation, setGpsLocation] = useState<GeoLocation | null>(null);
+  const [manualPin, setManualPin] = useState<GeoLocation | null>(null);
+  const [error, setError] = useState<LocationError>(null);
+
+  useEffect(() => {
+    if (!('geolocation' in navigator)) {
+      setError('unsupported');
+      return;
+    }
+    const watchId = navigator.geolocation.watchPosition(
+      (pos) => {
+        const { latitude, longitude, accuracy, heading, speed } = pos.coords;
+        setGpsLocation({
+          lat: latitude,
+          lng: longitude,
+          accuracy,
+          // Browsers report null (or NaN for heading) when standing still
+          heading: heading !== null && !Number.isNaN(heading) ? heading : undefined,
+          speed: speed ?? undefined,
+          timestamp: pos.timestamp,
+          source: 'gps',
+        });
+        setError(null);
+      },
+      (err) => {
+        console.warn("Location error", err);
+        if (err.code === err.PERMISSION_DENIED) setError('denied');
+      },
+      { enableHighAccuracy: true }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, []);
+
+  const pinLandmark = useCallback((poi: PointOfInterest) => setManualPin(pinAtLandmark(poi)), []);
+  const clearPin = useCallback(() => setManualPin(null), []);
+
+  return {
+    location: manualPin ?? gpsLocation,
+    gpsLocation,
+    manualPin,
+    error,
+    pinLandmark,
+    clearPin,
+  };
+};
@@ -0,0 +1,127 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { GeoLocation, NavigationEvent, NavigationProgress, NavigationStatus, PlaceResult, WalkingRoute } from '../types';
+import { RouteProvider, straightLineRouteProvider } from '../services/routeProvider';
+import { computeProgress } from '../utils/navigation';
+import { distanceMeters } from '../utils/geo';
+
+const ARRIVAL_RADIUS_M = 25;
+const OFF_ROUTE_THRESHOLD_M = 60;
+const STEP_ANNOUNCE_M = 40;
+const PROGRESS_ANNOUNCE_EVERY_M = 500;
+
+export const useWalkingNavigation = (
+  location: GeoLocation | null,
+  onEvent: (event: NavigationEvent) => void,
+  provider: RouteProvider = straightLineRouteProvider
+) => {
+  const [status, setStatus] = useState<NavigationStatus>(NavigationStatus.IDLE);
+  const [route, setRoute] = useState<WalkingRoute | null>(null);
+  const [progress, setProgress] = useState<NavigationProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const locationRef = useRef<GeoLocation | null>(location);
+  const onEventRef = useRef(onEvent);
+  const statusRef = useRef(status);
+  const announcedStepsRef = useRef<Set<number>>(new Set());
+  const bestRemainingRef = useRef(Infinity);
+  const lastProgressAnnouncedRef = useRef(Infinity);
+  // Bumped on start/stop so a slow route request can't resurrect a cancelled trip
+  const tripRef = useRef(0);
+
+  useEffect(() => {
+    locationRef.current = location;
+  }, [location]);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  const updateStatus = useCallback((next: NavigationStatus) => {
+    statusRef.current = next;
+    setStatus(next);
+  }, []);
+
+  const adoptRoute = useCallback((next: WalkingRoute) => {
+    announcedStepsRef.current = new Set();
+    bestRemainingRef.current = Infinity;
+    lastProgressAnnouncedRef.current = next.distanceMeters;
+    setRoute(next);
+    updateStatus(NavigationStatus.NAVIGATING);
+  }, [updateStatus]);
+
+  const start = useCallback(async (destination: PlaceResult) => {
+    const from = locationRef.current;
+    if (!from) {
+      setError("Pehle location to mil jaan de, Lalla.");
+      return;
+    }
+    const trip = ++tripRef.current;
+    setError(null);
+    setProgress(null);
+    updateStatus(NavigationStatus.ROUTING);
+    try {
+      const next = await provider.getRoute(from, destination);
+      if (trip !== tripRef.current) return;
+      adoptRoute(next);
+      onEventRef.current({ type: 'started', route: next });
+    } catch (err: any) {
+      if (trip !== tripRef.current) return;
+      console.error("Route error:", err);
+      setError(err.message || "Rasta na mil ryo.");
+      updateStatus(NavigationStatus.IDLE);
+    }
+  }, [provider, adoptRoute, updateStatus]);
+
+  const stop = useCallback(() => {
+    tripRef.current++;
+    setRoute(null);
+    setProgress(null);
+    setError(null);
+    updateStatus(NavigationStatus.IDLE);
+  }, [updateStatus]);
+
+  useEffect(() => {
+    if (!route || !location) return;
+    const current = statusRef.current;
+    if (current !== NavigationStatus.NAVIGATING) return;
+
+    const p = computeProgress(route, location);
+    setProgress(p);
+
+    const toDestination = route.destination.location ? distanceMeters(location, route.destination.location) : p.remainingMeters;
+    if (toDestination <= ARRIVAL_RADIUS_M) {
+      updateStatus(NavigationStatus.ARRIVED);
+      onEventRef.current({ type: 'arrived', destination: route.destination });
+      return;
+    }
+
+    // Off-route is either drifting sideways from the line or walking away from the goal
+    const drifting = p.crossTrackMeters > OFF_ROUTE_THRESHOLD_M;
+    const retreating = p.remainingMeters > bestRemainingRef.current + OFF_ROUTE_THRESHOLD_M;
+    bestRemainingRef.current = Math.min(bestRemainingRef.current, p.remainingMeters);
+    if (drifting || retreating) {
+      updateStatus(NavigationStatus.OFF_ROUTE);
+      onEventRef.current({ type: 'off_route', remainingMeters: p.remainingMeters });
+      const trip = tripRef.current;
+      provider.getRoute(location, route.destination)
+        .then(next => { if (trip === tripRef.current) adoptRoute(next); })
+        .catch(err => {
+          console.error("Reroute error:", err);
+          if (trip === tripRef.current) updateStatus(NavigationStatus.NAVIGATING);
+        });
+      return;
+    }
+
+    const isArrivalStep = p.nextStep?.pointIndex === route.points.length - 1;
+    if (p.nextStep && !isArrivalStep && p.distanceToNextStepMeters !== null &&
+        p.distanceToNextStepMeters <= STEP_ANNOUNCE_M && !announcedStepsRef.current.has(p.nextStep.pointIndex)) {
+      announcedStepsRef.current.add(p.nextStep.pointIndex);
+      onEventRef.current({ type: 'step_ahead', step: p.nextStep, distanceMeters: p.distanceToNextStepMeters });
+    } else if (lastProgressAnnouncedRef.current - p.remainingMeters >= PROGRESS_ANNOUNCE_EVERY_M) {
+      lastProgressAnnouncedRef.current = p.remainingMeters;
+      onEventRef.current({ type: 'progress', remainingMeters: p.remainingMeters });
+    }
+  }, [location, route, provider, adoptRoute, updateStatus]);
+
+  return { status, route, progress, error, start, stop };
+};
@@ -0,0 +1,38 @@
+export interface RateLimitDecision {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  take: (clientKey: string) => RateLimitDecision;
+}
+
+/**
+ * Token bucket per client: `capacity` requests in a burst, refilled evenly over `windowMs`.
+ * Idle buckets are dropped once full again so the map can't grow without bound.
+ */
+export const createRateLimiter = (capacity: number, windowMs: number): RateLimiter => {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  const refillPerMs = capacity / windowMs;
+
+  const take = (clientKey: string): RateLimitDecision => {
+    const now = Date.now();
+    const bucket = buckets.get(clientKey) ?? { tokens: capacity, updatedAt: now };
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+
+    if (bucket.tokens < 1) {
+      buckets.set(clientKey, bucket);
+      return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+    }
+    bucket.tokens -= 1;
+    buckets.set(clientKey, bucket);
+
+    for (const [key, b] of buckets) {
+      if (key !== clientKey && b.tokens + (now - b.updatedAt) * refillPerMs >= capacity) buckets.delete(key);
+    }
+    return { allowed: true, retryAfterMs: 0 };
+  };
+
+  return { take };
+};
@@ -0,0 +1,35 @@
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { server } from './tokenProxy';
+
+describe('token proxy rate limiting', () => {
+  let base = '';
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  // An empty query is turned away after the limiter has counted it, so nothing goes upstream
+  const search = (forwardedFor: string) => fetch(`${base}/api/maps-search`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': forwardedFor },
+    body: '{}',
+  });
+
+  it('keys on the address the trusted hop appended, not one the phone made up', async () => {
+    const statuses: number[] = [];
+    for (let i = 0; i < 22; i++) {
+      // What Vite sends on with xfwd: whatever the phone claimed, then the phone's real address
+      const res = await search(`203.0.113.${i}, 192.168.1.50`);
+      statuses.push(res.status);
+    }
+
+    expect(statuses.slice(0, 20).every(status => status === 400)).toBe(true);
+    expect(statuses.slice(20)).toEqual([429, 429]);
+  });
+});
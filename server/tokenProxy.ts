@@ -0,0 +1,190 @@
+import http from "node:http";
+import { pathToFileURL } from "node:url";
+import { GoogleGenAI } from "@google/genai";
+import { buildMapsRequest } from "../services/mapService";
+import { buildLandmarkRequest } from "../services/landmarkService";
+import { buildTranslationRequest, CAPTION_LANGUAGES, CaptionLanguage, MAX_CAPTION_CHARS } from "../services/translationService";
+import { createRateLimiter, RateLimiter } from "./rateLimiter";
+
+// Same place the README tells people to put the key for `npm run dev`
+try {
+  process.loadEnvFile(".env.local");
+} catch {
+  // Fine as long as GEMINI_API_KEY comes from the real environment
+}
+
+const API_KEY = process.env.GEMINI_API_KEY;
+const PORT = Number(process.env.PROXY_PORT ?? 8787);
+const ALLOWED_ORIGINS = (process.env.PROXY_ALLOWED_ORIGINS ?? "http://localhost:3000").split(",").map(o => o.trim());
+// Only behind a reverse proxy that sets it; otherwise anyone could pick their own rate-limit bucket
+const TRUST_FORWARDED_FOR = process.env.PROXY_TRUST_FORWARDED_FOR === "true";
+
+// A token only has to open one socket; resuming that session later doesn't spend it
+const LIVE_TOKEN_TTL_MS = 30 * 60 * 1000;
+const NEW_SESSION_WINDOW_MS = 60 * 1000;
+const MAX_BODY_BYTES = 8 * 1024;
+// One 1024px JPEG, base64-encoded, with room to spare
+const MAX_SNAPSHOT_BODY_BYTES = 1024 * 1024;
+const MAX_QUERY_LENGTH = 300;
+
+// A reconnect storm asks for a token per attempt, so this is sized to survive the hook's 6 retries
+const liveTokenLimiter = createRateLimiter(10, 10 * 60 * 1000);
+const mapsLimiter = createRateLimiter(20, 60 * 1000);
+const landmarkLimiter = createRateLimiter(10, 60 * 1000);
+// Captions go sentence by sentence, so a chatty Buddy needs far more of these than searches
+const translateLimiter = createRateLimiter(60, 60 * 1000);
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+const LOOPBACK = new Set(["127.0.0.1", "::1", "::ffff:127.0.0.1"]);
+
+const clientKeyOf = (req: http.IncomingMessage) => {
+  const peer = req.socket.remoteAddress ?? "";
+  // A peer on this machine is a proxy in front of us (Vite's dev server, say), so every phone would share its address
+  const trusted = TRUST_FORWARDED_FOR || LOOPBACK.has(peer);
+  // Proxies append, so only the last entry is the trusted hop's; anything before it the client wrote itself
+  const forwarded = trusted ? String(req.headers["x-forwarded-for"] ?? "").split(",").pop()!.trim() : "";
+  return forwarded || peer || "unknown";
+};
+
+const enforce = (limiter: RateLimiter, req: http.IncomingMessage) => {
+  const { allowed, retryAfterMs } = limiter.take(clientKeyOf(req));
+  if (!allowed) {
+    throw new HttpError(429, "Too many requests, slow down.", { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) });
+  }
+};
+
+const readJson = async (req: http.IncomingMessage, maxBytes = MAX_BODY_BYTES): Promise<any> => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new HttpError(413, "Request body too large.");
+    chunks.push(chunk);
+  }
+  if (chunks.length === 0) return {};
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Body is not valid JSON.");
+  }
+};
+
+const mintLiveToken = async () => {
+  const ai = new GoogleGenAI({ apiKey: API_KEY, httpOptions: { apiVersion: "v1alpha" } });
+  const now = Date.now();
+  const token = await ai.authTokens.create({
+    config: {
+      uses: 1,
+      expireTime: new Date(now + LIVE_TOKEN_TTL_MS).toISOString(),
+      newSessionExpireTime: new Date(now + NEW_SESSION_WINDOW_MS).toISOString(),
+      httpOptions: { apiVersion: "v1alpha" },
+    },
+  });
+  if (!token.name) throw new HttpError(502, "Gemini returned no token.");
+  return { token: token.name, expireTime: new Date(now + LIVE_TOKEN_TTL_MS).toISOString() };
+};
+
+const searchMapsUpstream = async (body: any) => {
+  const query = typeof body.query === "string" ? body.query.trim() : "";
+  if (!query || query.length > MAX_QUERY_LENGTH) throw new HttpError(400, `query must be 1-${MAX_QUERY_LENGTH} characters.`);
+  const { location } = body;
+  const valid = location && Number.isFinite(location.lat) && Number.isFinite(location.lng);
+  if (location != null && !valid) throw new HttpError(400, "location must be {lat, lng} or null.");
+
+  const ai = new GoogleGenAI({ apiKey: API_KEY });
+  const response = await ai.models.generateContent(buildMapsRequest(query, valid ? { lat: location.lat, lng: location.lng } : null));
+  return {
+    text: response.text ?? "",
+    groundingChunks: response.candidates?.[0]?.groundingMetadata?.groundingChunks ?? [],
+    // The device meters its own spend against its budget, so it needs the bill too
+    usageMetadata: response.usageMetadata,
+  };
+};
+
+const identifyLandmarkUpstream = async (body: any) => {
+  const image = typeof body.image === "string" ? body.image : "";
+  if (!image || !/^[A-Za-z0-9+/]+=*$/.test(image)) throw new HttpError(400, "image must be a base64 JPEG.");
+  const { location } = body;
+  const valid = location && Number.isFinite(location.lat) && Number.isFinite(location.lng);
+  if (location != null && !valid) throw new HttpError(400, "location must be {lat, lng} or null.");
+
+  const ai = new GoogleGenAI({ apiKey: API_KEY });
+  const response = await ai.models.generateContent(buildLandmarkRequest(image, valid ? { lat: location.lat, lng: location.lng } : null));
+  return { text: response.text ?? "", usageMetadata: response.usageMetadata };
+};
+
+const translateUpstream = async (body: any) => {
+  const text = typeof body.text === "string" ? body.text.trim() : "";
+  if (!text || text.length > MAX_CAPTION_CHARS) throw new HttpError(400, `text must be 1-${MAX_CAPTION_CHARS} characters.`);
+  const language = body.language as CaptionLanguage;
+  if (typeof language !== "string" || !(language in CAPTION_LANGUAGES) || language === "off") {
+    throw new HttpError(400, "language is not one of the caption languages.");
+  }
+
+  const ai = new GoogleGenAI({ apiKey: API_KEY });
+  const response = await ai.models.generateContent(buildTranslationRequest(text, language));
+  return { text: (response.text ?? "").trim(), usageMetadata: response.usageMetadata };
+};
+
+const routes: Record<string, (req: http.IncomingMessage) => Promise<unknown>> = {
+  "GET /api/health": async () => ({ ok: true }),
+  "POST /api/live-token": async (req) => {
+    enforce(liveTokenLimiter, req);
+    return mintLiveToken();
+  },
+  "POST /api/maps-search": async (req) => {
+    enforce(mapsLimiter, req);
+    return searchMapsUpstream(await readJson(req));
+  },
+  "POST /api/identify-landmark": async (req) => {
+    enforce(landmarkLimiter, req);
+    return identifyLandmarkUpstream(await readJson(req, MAX_SNAPSHOT_BODY_BYTES));
+  },
+  "POST /api/translate": async (req) => {
+    enforce(translateLimiter, req);
+    return translateUpstream(await readJson(req));
+  },
+};
+
+export const server = http.createServer(async (req, res) => {
+  const origin = req.headers.origin;
+  const headers: Record<string, string> = { "Content-Type": "application/json", "Cache-Control": "no-store" };
+  if (origin && ALLOWED_ORIGINS.includes(origin)) {
+    headers["Access-Control-Allow-Origin"] = origin;
+    headers["Access-Control-Allow-Headers"] = "Content-Type";
+    headers["Vary"] = "Origin";
+  }
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, headers).end();
+    return;
+  }
+
+  const route = routes[`${req.method} ${(req.url ?? "").split("?")[0]}`];
+  try {
+    if (!route) throw new HttpError(404, "Not found.");
+    const body = await route(req);
+    res.writeHead(200, headers).end(JSON.stringify(body));
+  } catch (err: any) {
+    const status = err instanceof HttpError ? err.status : 502;
+    if (status >= 500) console.error(`${req.method} ${req.url} failed:`, err);
+    res.writeHead(status, { ...headers, ...(err instanceof HttpError ? err.headers : {}) })
+      .end(JSON.stringify({ error: err?.message ?? "Upstream error." }));
+  }
+});
+
+// Only when run as `npm run proxy`; tests import the server and listen on a port of their own
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  if (!API_KEY) {
+    console.error("GEMINI_API_KEY is not set (environment or .env.local); the proxy has nothing to hand out.");
+    process.exit(1);
+  }
+
+  server.listen(PORT, () => {
+    console.log(`Braj Buddy token proxy on http://localhost:${PORT} (origins: ${ALLOWED_ORIGINS.join(", ")})`);
+  });
+}
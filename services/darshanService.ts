@@ -0,0 +1,251 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+import {
+  BrajFestival,
+  DarshanSeason,
+  DarshanWindow,
+  FestivalOccurrence,
+  GeoLocation,
+  PointOfInterest,
+  ScheduleAnswer,
+  TempleStatus,
+  TempleTimings,
+} from "../types";
+import { BRAJ_POIS } from "../data/brajPois";
+import { DARSHAN_DATASET_VERSION, SEASON_CHANGES, TEMPLE_TIMINGS } from "../data/darshanTimings";
+import { BRAJ_FESTIVALS, FESTIVAL_DATASET_VERSION } from "../data/brajFestivals";
+import { distanceMeters, formatDistance } from "../utils/geo";
+import { assessLocation, nearestLandmark } from "./locationService";
+import { LiveTool } from "./toolRegistry";
+
+// Temple clocks run on IST wherever the phone thinks it is; a visitor from abroad often hasn't switched
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DAYS_AHEAD = 30;
+const MAX_DAYS_AHEAD = 400;
+// "What's open near me" is about where to walk next, not the whole of Braj
+const NEARBY_TEMPLES = 3;
+const MAX_FESTIVALS = 6;
+// A temple closed for longer than this is treated as having no next opening in the dataset
+const SEARCH_DAYS = 7;
+
+// Words that say "temple" rather than which one
+const GENERIC_WORDS = new Set(['shri', 'sri', 'temple', 'mandir', 'ji', 'the', 'of', 'ka', 'ki', 'ke', 'darshan', 'open', 'khula', 'kab', 'timing', 'timings']);
+
+const TIMINGS_BY_POI = new Map(TEMPLE_TIMINGS.map(t => [t.poiId, t]));
+const SCHEDULED_POIS = BRAJ_POIS.filter(poi => TIMINGS_BY_POI.has(poi.id));
+const POI_BY_ID = new Map(BRAJ_POIS.map(poi => [poi.id, poi]));
+
+const toMinutes = (clock: string) => {
+  const [h, m] = clock.split(':').map(Number);
+  return h * 60 + m;
+};
+
+// "YYYY-MM-DD", "HH:MM" and minutes past midnight, all in IST
+export const istClock = (now: number) => {
+  const iso = new Date(now + IST_OFFSET_MS).toISOString();
+  const time = iso.slice(11, 16);
+  return { date: iso.slice(0, 10), time, minutes: toMinutes(time) };
+};
+
+const addDays = (date: string, days: number) => new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+export const seasonOn = (date: string): DarshanSeason => {
+  const first = SEASON_CHANGES[0];
+  const last = SEASON_CHANGES[SEASON_CHANGES.length - 1];
+  if (date >= first.from && date.slice(0, 4) <= last.from.slice(0, 4)) {
+    return SEASON_CHANGES.filter(change => change.from <= date).pop()?.season ?? first.season;
+  }
+  // Outside the listed years: Holi and Diwali fall somewhere in March and October/November
+  const month = Number(date.slice(5, 7));
+  return month >= 4 && month <= 10 ? 'summer' : 'winter';
+};
+
+// A festival's hours replace the usual ones for the whole day
+const festivalChangeOn = (poiId: string, date: string) => {
+  for (const festival of BRAJ_FESTIVALS) {
+    const change = festival.timingChanges?.find(c => c.poiId === poiId);
+    if (change && festival.dates.includes(date)) return { festival, ...change };
+  }
+  return null;
+};
+
+// null means the place doesn't close
+const windowsOn = (timings: TempleTimings, date: string): DarshanWindow[] | null => {
+  const change = festivalChangeOn(timings.poiId, date);
+  if (change) return change.darshan;
+  return timings.darshan ? timings.darshan[seasonOn(date)] : null;
+};
+
+const nextAartiFrom = (timings: TempleTimings, date: string, minutes: number) => {
+  if (!timings.aartis) return undefined;
+  for (let day = 0; day < 2; day++) {
+    const on = addDays(date, day);
+    const aarti = timings.aartis[seasonOn(on)].find(a => day > 0 || toMinutes(a.at) > minutes);
+    if (aarti) return { name: aarti.name, date: on, at: aarti.at };
+  }
+  return undefined;
+};
+
+export const templeStatus = (timings: TempleTimings, now: number, location: GeoLocation | null): TempleStatus => {
+  const poi = POI_BY_ID.get(timings.poiId)!;
+  const { date, minutes } = istClock(now);
+  const base: TempleStatus = {
+    poiId: poi.id,
+    name: poi.name,
+    town: poi.town,
+    distanceMeters: location ? distanceMeters(location, poi.location) : undefined,
+    open: null,
+    season: seasonOn(date),
+    festivalNote: festivalChangeOn(poi.id, date)?.note,
+    nextAarti: nextAartiFrom(timings, date, minutes),
+  };
+
+  const today = windowsOn(timings, date);
+  if (!today) return base;
+  const current = today.find(w => toMinutes(w.from) <= minutes && minutes < toMinutes(w.to));
+  if (current) return { ...base, open: true, closesAt: current.to };
+
+  for (let day = 0; day <= SEARCH_DAYS; day++) {
+    const on = addDays(date, day);
+    const opening = (windowsOn(timings, on) ?? []).find(w => day > 0 || toMinutes(w.from) > minutes);
+    if (opening) return { ...base, open: false, nextOpening: { date: on, at: opening.from } };
+  }
+  return { ...base, open: false };
+};
+
+export const upcomingFestivals = (now: number, daysAhead = DEFAULT_DAYS_AHEAD): FestivalOccurrence[] => {
+  const { date } = istClock(now);
+  const until = addDays(date, daysAhead);
+  return BRAJ_FESTIVALS.flatMap(festival => {
+    const next = festival.dates.find(d => d >= date);
+    if (!next || next > until) return [];
+    return [{ festival, date: next, daysAway: daysBetween(date, next) }];
+  }).sort((a, b) => a.daysAway - b.daysAway);
+};
+
+const words = (text: string) =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 1 && !GENERIC_WORDS.has(w));
+
+const namesOf = (item: { name: string; altNames?: string[] }) => words([item.name, ...(item.altNames ?? [])].join(' '));
+
+// Names beat towns, so "Radha Raman" isn't drowned out by every other Vrindavan temple and
+// "Lathmar Holi" doesn't bring back every Holi in Braj
+const bestMatches = <T extends { name: string; altNames?: string[]; town: string }>(asked: string, items: T[]): T[] => {
+  const wanted = words(asked);
+  const scored = items.map(item => {
+    const names = namesOf(item);
+    const score = wanted.reduce((total, w) => total + (names.includes(w) ? 3 : item.town.toLowerCase() === w ? 1 : 0), 0);
+    return { item, score };
+  }).filter(s => s.score > 0);
+  const best = Math.max(0, ...scored.map(s => s.score));
+  return scored.filter(s => s.score === best).map(s => s.item);
+};
+
+export const nearestScheduledTemples = (location: GeoLocation, count = NEARBY_TEMPLES): PointOfInterest[] =>
+  [...SCHEDULED_POIS].sort((a, b) => distanceMeters(location, a.location) - distanceMeters(location, b.location)).slice(0, count);
+
+// 0 for today in Braj, 1 for tomorrow, and so on
+export const daysFromToday = (date: string, now: number) => daysBetween(istClock(now).date, date);
+
+const dayWord = (date: string, today: string) => {
+  const away = daysBetween(today, date);
+  return away === 0 ? 'today' : away === 1 ? 'tomorrow' : date;
+};
+
+const describeStatus = (status: TempleStatus, today: string) => {
+  const timings = TIMINGS_BY_POI.get(status.poiId)!;
+  const where = status.distanceMeters !== undefined ? ` (${formatDistance(status.distanceMeters)} away)` : '';
+  const state = status.open === null
+    ? 'open to visit at any hour'
+    : status.open
+      ? `open now, usually until ${status.closesAt}`
+      : status.nextOpening
+        ? `closed now, usually opens ${dayWord(status.nextOpening.date, today)} at ${status.nextOpening.at}`
+        : 'closed, and no opening is listed for the coming week';
+  const aarti = status.nextAarti ? ` Next: ${status.nextAarti.name} ${dayWord(status.nextAarti.date, today)} at ${status.nextAarti.at}.` : '';
+  const festival = status.festivalNote ? ` Today is special: ${status.festivalNote}` : '';
+  const note = timings.note ? ` ${timings.note}` : '';
+  return `${status.name}, ${status.town}${where}: ${state} (${status.season} hours).${aarti}${festival}${note}`;
+};
+
+const describeFestival = ({ festival, date, daysAway }: FestivalOccurrence) => {
+  const when = daysAway === 0 ? 'today' : daysAway === 1 ? 'tomorrow' : `on ${date}, in ${daysAway} days`;
+  const where = festival.name.includes(festival.town) ? '' : ` in ${festival.town}`;
+  return `${festival.name}${where} ${when}: ${festival.description}`;
+};
+
+/**
+ * Works out the answer from the bundled timings and calendar alone, so it keeps working with no network.
+ * With no place named it reports the temples nearest the user; a named festival is looked up however far off.
+ */
+export const lookUpSchedule = (
+  { place, festival, daysAhead }: { place?: string; festival?: string; daysAhead?: number },
+  location: GeoLocation | null,
+  now = Date.now()
+): { answer: ScheduleAnswer; text: string } => {
+  const { date, time } = istClock(now);
+  const temples = place?.trim()
+    ? bestMatches(place, SCHEDULED_POIS)
+    : festival?.trim() || !location ? [] : nearestScheduledTemples(location);
+  const statuses = temples.map(poi => templeStatus(TIMINGS_BY_POI.get(poi.id)!, now, location));
+
+  const named = festival?.trim() ? bestMatches(festival, BRAJ_FESTIVALS) : [];
+  const festivals = named.length > 0
+    ? upcomingFestivals(now, MAX_DAYS_AHEAD).filter(o => named.includes(o.festival))
+    : upcomingFestivals(now, Math.min(MAX_DAYS_AHEAD, Math.max(1, daysAhead ?? DEFAULT_DAYS_AHEAD))).slice(0, MAX_FESTIVALS);
+
+  const lines = [
+    `It is ${time} on ${date} in Braj (IST).`,
+    ...statuses.map(s => describeStatus(s, date)),
+  ];
+  if (place?.trim() && statuses.length === 0) lines.push(`No timings are listed for "${place}"; say you don't know rather than guessing.`);
+  if (!place?.trim() && !festival?.trim() && !location) lines.push('The user location is unknown, so ask which temple they mean.');
+  // Lets Buddy lead with what's happening in the town the user is actually in
+  const town = location ? nearestLandmark(location)?.poi.town : undefined;
+  if (festivals.length > 0) lines.push(town ? `Festivals (the user is in or near ${town}):` : 'Festivals:', ...festivals.map(describeFestival));
+  else if (named.length > 0) lines.push(`No upcoming date is listed yet for ${named.map(f => f.name).join(', ')}.`);
+  else if (festival?.trim()) lines.push(`"${festival}" isn't in the festival calendar; say you don't know the date.`);
+  lines.push(`Timings are usual hours (dataset ${DARSHAN_DATASET_VERSION}, calendar ${FESTIVAL_DATASET_VERSION}) and change on crowded days.`);
+
+  return { answer: { asOf: now, temples: statuses, festivals }, text: lines.join('\n') };
+};
+
+const scheduleToolDeclaration: FunctionDeclaration = {
+  name: 'lookUpDarshanSchedule',
+  description:
+    'Darshan and aarti timings of Braj temples (open now, when it closes, next opening, next aarti) and the Braj festival calendar. Use it for any question about when a temple is open or when a festival is.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      place: {
+        type: Type.STRING,
+        description: 'Temple, ghat or town the user asked about (e.g. "Banke Bihari", "Barsana"). Leave out for the temples nearest the user.',
+      },
+      festival: {
+        type: Type.STRING,
+        description: 'Festival the user asked about (e.g. "Lathmar Holi", "Janmashtami").',
+      },
+      daysAhead: {
+        type: Type.NUMBER,
+        description: 'How many days of upcoming festivals to include when no festival is named. Defaults to 30.',
+      },
+    },
+  },
+};
+
+export const createScheduleTool = (
+  onResult: (answer: ScheduleAnswer) => void
+): LiveTool<{ place?: string; festival?: string; daysAhead?: number }> => ({
+  declaration: scheduleToolDeclaration,
+  handler: async (args, { location }) => {
+    // "Nearest" from a fix that could be in another town would name the wrong temples
+    const { quality, reason } = assessLocation(location);
+    const { answer, text } = lookUpSchedule(args, quality === 'unusable' ? null : location);
+    onResult(answer);
+    if (quality === 'rough' && answer.temples.some(t => t.distanceMeters !== undefined)) {
+      return { result: text, locationWarning: `User location is rough (${reason}). Hedge the distances.` };
+    }
+    return { result: text };
+  },
+});
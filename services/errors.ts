@@ -0,0 +1,111 @@
+export type BuddyErrorKind = 'bad_key' | 'quota' | 'mic_denied' | 'mic_failed' | 'network' | 'unsupported' | 'unknown';
+
+export class BuddyError extends Error {
+  readonly kind: BuddyErrorKind = 'unknown';
+  // Retrying on its own won't help; the user has to do something first
+  readonly fatal: boolean = false;
+
+  constructor(message: string, readonly original?: unknown) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class BadKeyError extends BuddyError {
+  readonly kind = 'bad_key';
+  readonly fatal = true;
+}
+
+export class QuotaError extends BuddyError {
+  readonly kind = 'quota';
+  readonly fatal = true;
+}
+
+export class MicPermissionError extends BuddyError {
+  readonly kind = 'mic_denied';
+}
+
+// The mic was allowed but wouldn't start, e.g. a switched-to device vanished or the worklet didn't load
+export class MicFailureError extends BuddyError {
+  readonly kind = 'mic_failed';
+}
+
+export class NetworkError extends BuddyError {
+  readonly kind = 'network';
+}
+
+export class UnsupportedBrowserError extends BuddyError {
+  readonly kind = 'unsupported';
+  readonly fatal = true;
+
+  constructor(readonly missing: string[]) {
+    super(`This browser lacks ${missing.join(', ')}.`);
+  }
+}
+
+const BAD_KEY_PATTERNS = [
+  /requested entity was not found/i,
+  /api key not (found|valid)/i,
+  /api_key_invalid/i,
+  /permission[_ ]denied/i,
+  /unauthenticated/i,
+];
+const QUOTA_PATTERNS = [/resource[_ ]exhausted/i, /quota/i, /rate limit/i, /\b429\b/];
+const NETWORK_PATTERNS = [/failed to fetch/i, /network/i, /websocket/i, /timed? ?out/i, /load failed/i];
+
+const messageOf = (err: unknown): string => {
+  if (typeof err === 'string') return err;
+  if (err && typeof err === 'object') {
+    const { message, reason } = err as { message?: unknown; reason?: unknown };
+    if (typeof message === 'string' && message) return message;
+    // CloseEvent from the Live socket carries the server's explanation here
+    if (typeof reason === 'string') return reason;
+  }
+  return String(err);
+};
+
+/** Maps whatever the SDK, the socket or the browser threw onto one of the kinds the UI can act on. */
+export const classifyError = (err: unknown): BuddyError => {
+  if (err instanceof BuddyError) return err;
+  const message = messageOf(err);
+
+  if (BAD_KEY_PATTERNS.some(p => p.test(message))) return new BadKeyError(message, err);
+  if (QUOTA_PATTERNS.some(p => p.test(message))) return new QuotaError(message, err);
+  if (
+    (typeof navigator !== 'undefined' && navigator.onLine === false) ||
+    NETWORK_PATTERNS.some(p => p.test(message))
+  ) {
+    return new NetworkError(message, err);
+  }
+  return new BuddyError(message, err);
+};
+
+// getUserMedia rejects with DOMExceptions; only the permission ones mean "ask the user", the rest are hardware
+export const classifyMicError = (err: unknown): BuddyError => {
+  const name = err && typeof err === 'object' ? (err as { name?: string }).name : undefined;
+  if (name === 'NotAllowedError' || name === 'SecurityError' || name === 'PermissionDeniedError') {
+    return new MicPermissionError(messageOf(err), err);
+  }
+  return classifyError(err);
+};
+
+export interface BrowserSupport {
+  // Everything a voice session needs
+  voice: boolean;
+  // Enough for typed turns with silent replies
+  text: boolean;
+  missing: string[];
+}
+
+export const checkBrowserSupport = (): BrowserSupport => {
+  const missing: string[] = [];
+  const hasAudio = typeof window !== 'undefined' && !!(window.AudioContext || (window as any).webkitAudioContext);
+  const hasWorklet = hasAudio && typeof AudioWorkletNode !== 'undefined';
+  const hasMedia = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+  const hasSocket = typeof WebSocket !== 'undefined';
+  if (!hasAudio) missing.push('AudioContext');
+  if (hasAudio && !hasWorklet) missing.push('AudioWorklet');
+  if (!hasMedia) missing.push('mediaDevices');
+  if (!hasSocket) missing.push('WebSocket');
+  return { voice: hasAudio && hasWorklet && hasMedia && hasSocket, text: hasSocket, missing };
+};
@@ -0,0 +1,127 @@
+import {
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from "@google/genai";
+import { LiveTransport, LiveTransportSession } from "./liveTransport";
+import { encode } from "../utils/audio";
+
+// Plain-object form of a server message; the SDK class only adds convenience getters on top
+export type FakeServerMessage = Omit<Partial<LiveServerMessage>, 'text' | 'data'>;
+
+export type FakeClientEventType = 'realtimeInput' | 'clientContent' | 'toolResponse';
+
+export type ScriptStep =
+  | { kind: 'message'; message: FakeServerMessage; delayMs?: number }
+  // Hold the script until the client sends something of this type, e.g. the answer to a tool call
+  | { kind: 'waitFor'; event: FakeClientEventType; delayMs?: number }
+  | { kind: 'error'; message: string; delayMs?: number }
+  // Server-side drop; the hook should treat it as an unexpected close
+  | { kind: 'close'; code?: number; delayMs?: number };
+
+export type FakeClientEvent =
+  | { type: 'realtimeInput'; params: LiveSendRealtimeInputParameters }
+  | { type: 'clientContent'; params: LiveSendClientContentParameters }
+  | { type: 'toolResponse'; params: LiveSendToolResponseParameters }
+  | { type: 'close' };
+
+export interface ScriptedLiveTransport extends LiveTransport {
+  // Everything the client sent, across all connections, in order
+  sent: FakeClientEvent[];
+  connections: LiveConnectParameters[];
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A short 24 kHz sine burst, so scripted turns actually make a sound and exercise the playback path
+export const fakeAudioChunk = (durationMs = 300, frequency = 440): string => {
+  const sampleRate = 24000;
+  const samples = new Int16Array(Math.round((sampleRate * durationMs) / 1000));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 0.2 * 0x7fff);
+  }
+  return encode(new Uint8Array(samples.buffer));
+};
+
+/**
+ * Replays recorded server messages instead of talking to Gemini. Connection N plays `scripts[N]`
+ * (the last script repeats), which is how reconnect and resumption flows are scripted.
+ */
+export const createScriptedLiveTransport = (scripts: ScriptStep[][]): ScriptedLiveTransport => {
+  const sent: FakeClientEvent[] = [];
+  const connections: LiveConnectParameters[] = [];
+
+  const connect = async (params: LiveConnectParameters): Promise<LiveTransportSession> => {
+    const script = scripts[Math.min(connections.length, scripts.length - 1)] ?? [];
+    connections.push(params);
+    const { callbacks } = params;
+    let closed = false;
+    let waiter: { event: FakeClientEventType; resolve: () => void } | null = null;
+    // Client events since the last satisfied waitFor, so a reply that beats the waitFor step still counts
+    const unseen = new Set<FakeClientEvent['type']>();
+
+    const record = (event: FakeClientEvent) => {
+      sent.push(event);
+      unseen.add(event.type);
+      if (waiter && event.type === waiter.event) {
+        unseen.clear();
+        const { resolve } = waiter;
+        waiter = null;
+        resolve();
+      }
+    };
+
+    const shutDown = (code: number, reason: string) => {
+      if (closed) return;
+      closed = true;
+      waiter = null;
+      callbacks.onclose?.(new CloseEvent('close', { code, reason }));
+    };
+
+    const play = async () => {
+      for (const step of script) {
+        if (step.delayMs) await sleep(step.delayMs);
+        if (closed) return;
+        switch (step.kind) {
+          case 'message':
+            await callbacks.onmessage(step.message as LiveServerMessage);
+            break;
+          case 'waitFor':
+            if (unseen.has(step.event)) {
+              unseen.clear();
+            } else {
+              await new Promise<void>(resolve => { waiter = { event: step.event, resolve }; });
+            }
+            break;
+          case 'error':
+            callbacks.onerror?.(new ErrorEvent('error', { message: step.message }));
+            shutDown(1011, step.message);
+            return;
+          case 'close':
+            shutDown(step.code ?? 1006, 'scripted close');
+            return;
+        }
+      }
+    };
+
+    const session: LiveTransportSession = {
+      sendRealtimeInput: (p) => { if (!closed) record({ type: 'realtimeInput', params: p }); },
+      sendClientContent: (p) => { if (!closed) record({ type: 'clientContent', params: p }); },
+      sendToolResponse: (p) => { if (!closed) record({ type: 'toolResponse', params: p }); },
+      close: () => {
+        if (closed) return;
+        record({ type: 'close' });
+        shutDown(1000, 'client closed');
+      },
+    };
+
+    // Like the real SDK: onopen fires before connect() resolves, messages start right after
+    callbacks.onopen?.();
+    setTimeout(() => { play().catch(err => console.error("Fake live script failed:", err)); }, 0);
+    return session;
+  };
+
+  return { name: 'fake', connect, sent, connections };
+};
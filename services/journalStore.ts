@@ -0,0 +1,103 @@
+import { JournalEntry, TripStop } from "../types";
+
+// localStorage would fill up after a few days of Maps answers; IndexedDB has room for a whole yatra
+const DB_NAME = "brajBuddy";
+const DB_VERSION = 1;
+const JOURNAL_STORE = "journal";
+const TRIP_STORE = "trip";
+// Oldest entries go first once the diary gets this long
+const MAX_JOURNAL_ENTRIES = 500;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(JOURNAL_STORE)) {
+        db.createObjectStore(JOURNAL_STORE, { keyPath: "id" }).createIndex("createdAt", "createdAt");
+      }
+      if (!db.objectStoreNames.contains(TRIP_STORE)) {
+        db.createObjectStore(TRIP_STORE, { keyPath: "key" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // A failed open (private mode, blocked upgrade) shouldn't stick for the rest of the visit
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  body: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  const request = body(tx.objectStore(storeName));
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = request ? await requestToPromise(request) : undefined;
+  await done;
+  return result;
+};
+
+/** Newest first. */
+export const listJournalEntries = async (): Promise<JournalEntry[]> => {
+  const entries = (await run<JournalEntry[]>(JOURNAL_STORE, "readonly", store => store.index("createdAt").getAll())) ?? [];
+  return entries.reverse();
+};
+
+export const addJournalEntry = async (entry: JournalEntry) => {
+  await run(JOURNAL_STORE, "readwrite", store => {
+    store.put(entry);
+    // Trim from the oldest end in the same transaction so the cap can't be overshot by a burst of answers
+    const countRequest = store.count();
+    countRequest.onsuccess = () => {
+      let excess = countRequest.result - MAX_JOURNAL_ENTRIES;
+      if (excess <= 0) return;
+      store.index("createdAt").openCursor().onsuccess = (e) => {
+        const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor || excess-- <= 0) return;
+        cursor.delete();
+        cursor.continue();
+      };
+    };
+  });
+};
+
+export const clearJournal = async () => {
+  await run(JOURNAL_STORE, "readwrite", store => store.clear());
+};
+
+export const listTripStops = async (): Promise<TripStop[]> =>
+  ((await run<TripStop[]>(TRIP_STORE, "readonly", store => store.getAll())) ?? []).sort((a, b) => a.addedAt - b.addedAt);
+
+export const putTripStop = async (stop: TripStop) => {
+  await run(TRIP_STORE, "readwrite", store => store.put(stop));
+};
+
+export const deleteTripStop = async (key: string) => {
+  await run(TRIP_STORE, "readwrite", store => store.delete(key));
+};
+
+export const clearTrip = async () => {
+  await run(TRIP_STORE, "readwrite", store => store.clear());
+};
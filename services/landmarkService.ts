@@ -0,0 +1,203 @@
+import { GenerateContentParameters, GoogleGenAI, Type } from "@google/genai";
+import { GeoLocation, LandmarkCard, PlaceResult, TokenUsage } from "../types";
+import { BRAJ_POIS } from "../data/brajPois";
+import { mapsLinkFor, poiToPlace } from "./offlinePoiService";
+import { nearestLandmark } from "./locationService";
+import { BadKeyError, classifyError } from "./errors";
+import { toTokenUsage } from "./usageMeter";
+import { formatDistance, withDistanceAndBearing } from "../utils/geo";
+import { readSetting, writeSetting } from "../utils/storage";
+
+const CARDS_STORAGE_KEY = "brajBuddy.landmarkCards";
+// Thumbnails are a few KB each; this keeps the whole album well inside localStorage
+const MAX_CARDS = 40;
+// Below this the card says it's a guess, and so does Buddy
+export const LOW_CONFIDENCE = 0.5;
+
+// What comes back from the model, before the app attaches links and bookkeeping
+export interface LandmarkIdentification {
+  name: string;
+  deity: string | null;
+  town: string | null;
+  history: string;
+  etiquette: string[];
+  confidence: number;
+}
+
+export type LandmarkDraft = Omit<LandmarkCard, 'id' | 'createdAt' | 'thumbnail'> & { usage?: TokenUsage };
+
+export interface LandmarkIdentifier {
+  name: string;
+  // Throws on failure; identifyLandmark decides whether to fall back to a location-only guess
+  identify: (imageBase64: string, location: GeoLocation | null) => Promise<LandmarkDraft>;
+}
+
+const landmarkSchema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING, description: 'Name of the temple, ghat, kund or landmark in the photo.' },
+    deity: { type: Type.STRING, nullable: true, description: 'Presiding deity, if it is a shrine.' },
+    town: { type: Type.STRING, nullable: true, description: 'Town it is in, e.g. Vrindavan.' },
+    history: { type: Type.STRING, description: 'Two or three sentences of history and legend.' },
+    etiquette: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Short darshan etiquette tips for visitors.' },
+    confidence: { type: Type.NUMBER, description: 'How sure the identification is, from 0 to 1.' },
+  },
+  required: ['name', 'history', 'etiquette', 'confidence'],
+};
+
+// Shared with the token proxy, which makes the same call server-side so the key stays off the device
+export const buildLandmarkRequest = (imageBase64: string, location: GeoLocation | null): GenerateContentParameters => ({
+  model: "gemini-2.5-flash",
+  contents: [{
+    role: 'user',
+    parts: [
+      { inlineData: { mimeType: 'image/jpeg', data: imageBase64 } },
+      {
+        text: `A pilgrim in Braj (Mathura, Vrindavan, Govardhan, Barsana, Nandgaon, Gokul, Baldeo) pointed their phone at this and asked "ye kya hai?".
+      ${location ? `They are at Lat ${location.lat}, Lng ${location.lng}.` : 'Their location is unknown.'}
+      Identify the landmark. Use the location only to choose between look-alikes, never to name something the photo doesn't show.
+      If it isn't a landmark, name what it is and give a low confidence. Answer in plain English.`,
+      },
+    ],
+  }],
+  config: {
+    responseMimeType: 'application/json',
+    responseSchema: landmarkSchema,
+  },
+});
+
+const clamp01 = (n: unknown) => (typeof n === 'number' && Number.isFinite(n) ? Math.min(1, Math.max(0, n)) : 0);
+
+export const parseLandmarkResponse = (rawText: string): LandmarkIdentification => {
+  let parsed: any = {};
+  try {
+    parsed = JSON.parse(rawText);
+  } catch {
+    // Leave it empty; the fallbacks below still make a card that admits it doesn't know
+  }
+  return {
+    name: typeof parsed.name === 'string' && parsed.name.trim() ? parsed.name.trim() : 'Pata na chalo',
+    deity: typeof parsed.deity === 'string' && parsed.deity.trim() ? parsed.deity.trim() : null,
+    town: typeof parsed.town === 'string' && parsed.town.trim() ? parsed.town.trim() : null,
+    history: typeof parsed.history === 'string' ? parsed.history.trim() : '',
+    etiquette: Array.isArray(parsed.etiquette) ? parsed.etiquette.filter((e: unknown) => typeof e === 'string' && e.trim()) : [],
+    confidence: clamp01(parsed.confidence),
+  };
+};
+
+const normalise = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, ' ').replace(/\b(shri|sri|temple|mandir|ji)\b/g, '').trim();
+
+// The bundled dataset has trustworthy coordinates, so prefer it over a name search whenever it knows the place
+const placeFor = (id: LandmarkIdentification, location: GeoLocation | null): PlaceResult => {
+  const wanted = normalise(id.name);
+  const known = wanted && BRAJ_POIS.find(poi => [poi.name, ...(poi.altNames ?? [])].some(n => normalise(n) === wanted));
+  if (known) return withDistanceAndBearing([poiToPlace(known)], location)[0];
+  const query = [id.name, id.town].filter(Boolean).join(', ');
+  return { title: id.name, uri: `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(query)}` };
+};
+
+export const toLandmarkDraft = (
+  id: LandmarkIdentification,
+  location: GeoLocation | null,
+  provider: string,
+  usage?: TokenUsage
+): LandmarkDraft => ({
+  name: id.name,
+  deity: id.deity,
+  history: id.history,
+  etiquette: id.etiquette,
+  confidence: id.confidence,
+  place: placeFor(id, location),
+  takenAt: location,
+  provider,
+  usage,
+});
+
+export const googleLandmarkIdentifier: LandmarkIdentifier = {
+  name: 'google',
+  identify: async (imageBase64, location) => {
+    // Always create a new instance right before the call to get the latest key
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent(buildLandmarkRequest(imageBase64, location));
+    return toLandmarkDraft(
+      parseLandmarkResponse(response.text || ""),
+      location,
+      'google',
+      response.usageMetadata && toTokenUsage(response.usageMetadata)
+    );
+  },
+};
+
+// No eyes at all: name whatever landmark is nearest and be upfront that it's a guess
+export const offlineLandmarkIdentifier: LandmarkIdentifier = {
+  name: 'offline',
+  identify: async (_imageBase64, location) => {
+    const near = location && nearestLandmark(location);
+    if (!near) {
+      return {
+        name: 'Pata na chalo',
+        deity: null,
+        history: 'Net bhi na hai aur location bhi na mili, to Buddy andaaza bhi na laga paayo.',
+        etiquette: [],
+        confidence: 0,
+        place: { title: 'Naksha', uri: location ? mapsLinkFor(location) : 'https://www.google.com/maps' },
+        takenAt: location,
+        provider: 'offline',
+      };
+    }
+    return {
+      name: near.poi.name,
+      deity: null,
+      history: `Tasveer na dekh paayo, par ${formatDistance(near.distance)} pe ${near.poi.name} (${near.poi.town}) hai. Shaayad wahi hoyego.`,
+      etiquette: [],
+      // A landmark right next to you is a decent bet; one down the road much less so
+      confidence: near.distance <= 75 ? 0.4 : near.distance <= 250 ? 0.2 : 0.05,
+      place: withDistanceAndBearing([poiToPlace(near.poi)], location)[0],
+      takenAt: location,
+      provider: 'offline',
+    };
+  },
+};
+
+export const identifyLandmark = async (
+  imageBase64: string,
+  location: GeoLocation | null,
+  identifier: LandmarkIdentifier = googleLandmarkIdentifier
+): Promise<LandmarkDraft> => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return offlineLandmarkIdentifier.identify(imageBase64, location);
+  }
+
+  try {
+    return await identifier.identify(imageBase64, location);
+  } catch (error) {
+    console.error("Landmark service error:", error);
+    // Same rule as map search: a bad key has to reach the user, anything else gets the nearest-landmark guess
+    const typed = classifyError(error);
+    if (typed instanceof BadKeyError) throw typed;
+    return offlineLandmarkIdentifier.identify(imageBase64, location);
+  }
+};
+
+export const describeLandmarkCard = (card: LandmarkCard): string => {
+  const sure = card.confidence >= LOW_CONFIDENCE
+    ? `${Math.round(card.confidence * 100)}% sure`
+    : `only a guess (${Math.round(card.confidence * 100)}%), so say you're not certain`;
+  const deity = card.deity ? ` Deity: ${card.deity}.` : '';
+  return `[LANDMARK] The user snapped a photo and the app identified it as "${card.name}", ${sure}.${deity} ${card.history} Narrate it in two short lines, in character.`;
+};
+
+export const loadLandmarkCards = (): LandmarkCard[] => {
+  const raw = readSetting(CARDS_STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const cards = JSON.parse(raw);
+    return Array.isArray(cards) ? cards : [];
+  } catch {
+    return [];
+  }
+};
+
+// Newest first
+export const saveLandmarkCards = (cards: LandmarkCard[]) =>
+  writeSetting(CARDS_STORAGE_KEY, JSON.stringify(cards.slice(0, MAX_CARDS)));
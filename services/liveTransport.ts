@@ -0,0 +1,31 @@
+import {
+  GoogleGenAI,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from "@google/genai";
+
+// The slice of the SDK's Session the hook actually talks to
+export interface LiveTransportSession {
+  sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+  sendClientContent: (params: LiveSendClientContentParameters) => void;
+  sendToolResponse: (params: LiveSendToolResponseParameters) => void;
+  close: () => void;
+}
+
+export interface LiveTransport {
+  name: string;
+  connect: (params: LiveConnectParameters) => Promise<LiveTransportSession>;
+}
+
+export const googleLiveTransport: LiveTransport = {
+  name: 'google',
+  connect: async (params) => {
+    // Always create a new instance right before the call to get the latest key
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) throw new Error("API Key not found in environment.");
+    const ai = new GoogleGenAI({ apiKey });
+    return ai.live.connect(params);
+  },
+};
@@ -0,0 +1,84 @@
+import { GeoLocation, PointOfInterest } from "../types";
+import { BRAJ_POIS } from "../data/brajPois";
+import { distanceMeters, formatDistance } from "../utils/geo";
+
+export type LocationQuality = 'good' | 'rough' | 'unusable';
+
+export interface LocationAssessment {
+  quality: LocationQuality;
+  // Why the fix isn't 'good', phrased for the model
+  reason?: string;
+}
+
+// Anything looser than this can't tell one gali from the next
+const GOOD_ACCURACY_M = 150;
+// Past this the fix could be a different town
+const MAX_ACCURACY_M = 2000;
+const FRESH_MS = 2 * 60 * 1000;
+const MAX_AGE_MS = 10 * 60 * 1000;
+
+// A landmark this close is a useful way to say where the user is
+const NEAR_LANDMARK_M = 400;
+const LANDMARK_CATEGORIES = new Set<PointOfInterest['category']>(['temple', 'ghat', 'kund']);
+
+// Only moves this large, or a change in how far we can trust the fix, are worth telling Buddy about
+export const SIGNIFICANT_MOVE_M = 250;
+
+export const assessLocation = (location: GeoLocation | null, now = Date.now()): LocationAssessment => {
+  if (!location) return { quality: 'unusable', reason: 'no location fix yet' };
+  if (location.source === 'manual') {
+    return { quality: 'rough', reason: 'pinned by hand, not measured' };
+  }
+
+  const ageMs = location.timestamp !== undefined ? now - location.timestamp : 0;
+  const accuracy = location.accuracy ?? 0;
+  if (ageMs > MAX_AGE_MS) return { quality: 'unusable', reason: `last fix is ${Math.round(ageMs / 60000)} minutes old` };
+  if (accuracy > MAX_ACCURACY_M) return { quality: 'unusable', reason: `fix is only accurate to ${formatDistance(accuracy)}` };
+  if (ageMs > FRESH_MS) return { quality: 'rough', reason: `last fix is ${Math.round(ageMs / 60000)} minutes old` };
+  if (accuracy > GOOD_ACCURACY_M) return { quality: 'rough', reason: `fix is only accurate to about ${formatDistance(accuracy)}` };
+  return { quality: 'good' };
+};
+
+export const nearestLandmark = (location: GeoLocation, pois: PointOfInterest[] = BRAJ_POIS) => {
+  let best: { poi: PointOfInterest; distance: number } | null = null;
+  for (const poi of pois) {
+    if (!LANDMARK_CATEGORIES.has(poi.category)) continue;
+    const distance = distanceMeters(location, poi.location);
+    if (!best || distance < best.distance) best = { poi, distance };
+  }
+  return best;
+};
+
+// The pickable "I'm here" spots for a manual pin
+export const PIN_LANDMARKS = BRAJ_POIS.filter(poi => LANDMARK_CATEGORIES.has(poi.category));
+
+export const pinAtLandmark = (poi: PointOfInterest): GeoLocation => ({
+  ...poi.location,
+  source: 'manual',
+  label: `${poi.name}, ${poi.town}`,
+  timestamp: Date.now(),
+});
+
+export const describeLocation = (location: GeoLocation | null): string => {
+  const assessment = assessLocation(location);
+  if (!location || assessment.quality === 'unusable') return `User location is unknown (${assessment.reason}).`;
+
+  const near = nearestLandmark(location);
+  const where = location.label
+    ? `at ${location.label}`
+    : near && near.distance <= NEAR_LANDMARK_M
+      ? `about ${formatDistance(near.distance)} from ${near.poi.name}, ${near.poi.town}`
+      : `at ${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}`;
+  const moving = location.speed !== undefined && location.speed > 0.5 ? `, moving at ${location.speed.toFixed(1)} m/s` : '';
+  const caveat = assessment.reason ? ` (rough: ${assessment.reason})` : '';
+  return `User is ${where}${moving}${caveat}.`;
+};
+
+export const describeLocationChange = (location: GeoLocation | null) => `[LOCATION] ${describeLocation(location)}`;
+
+export const isSignificantChange = (previous: GeoLocation | null, next: GeoLocation | null): boolean => {
+  if (!previous || !next) return previous !== next;
+  if (previous.source !== next.source || previous.label !== next.label) return true;
+  if (assessLocation(previous).quality !== assessLocation(next).quality) return true;
+  return distanceMeters(previous, next) >= SIGNIFICANT_MOVE_M;
+};
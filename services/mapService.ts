@@ -1,55 +1,180 @@
-import { GoogleGenAI } from "@google/genai";
-import { GeoLocation, MapSearchResult } from "../types";
+import { GoogleGenAI, FunctionDeclaration, GenerateContentParameters, GroundingChunk, Type } from "@google/genai";
+import { GeoLocation, GroundingLink, MapSearchResult, PlaceResult } from "../types";
+import { LiveTool } from "./toolRegistry";
+import { withDistanceAndBearing } from "../utils/geo";
+import { searchOfflinePois } from "./offlinePoiService";
+import { assessLocation } from "./locationService";
+import { BadKeyError, classifyError } from "./errors";
+import { toTokenUsage } from "./usageMeter";
 
-export const searchMaps = async (query: string, location: GeoLocation): Promise<MapSearchResult> => {
-  // Always create a new instance right before the call to get the latest key
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const PLACES_MARKER = "PLACES_JSON:";
 
+interface PlaceHint {
+  title?: string;
+  placeId?: string;
+  lat?: number;
+  lng?: number;
+}
+
+// Maps grounding gives us links but no coordinates, so the model is asked to tack them on after its answer
+const splitPlaceHints = (raw: string): { text: string; hints: PlaceHint[] } => {
+  const idx = raw.lastIndexOf(PLACES_MARKER);
+  if (idx === -1) return { text: raw, hints: [] };
+  const text = raw.slice(0, idx).trim();
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `User is at Lat ${location.lat}, Lng ${location.lng}. They asked: "${query}". 
-      Respond like a Braj local guide who is funny and helpful.`,
-      config: {
-        tools: [{ googleMaps: {} }],
-        toolConfig: {
-          retrievalConfig: {
-            latLng: {
-              latitude: location.lat,
-              longitude: location.lng
-            }
-          }
+    const json = raw.slice(idx + PLACES_MARKER.length).trim().replace(/^```(?:json)?|```$/g, "").trim();
+    const parsed = JSON.parse(json);
+    return { text, hints: Array.isArray(parsed) ? parsed : [] };
+  } catch {
+    return { text, hints: [] };
+  }
+};
+
+// Some Maps URIs carry the coordinates themselves ("@27.58,77.69" or "?q=27.58,77.69")
+const coordsFromUri = (uri: string): GeoLocation | undefined => {
+  const match = uri.match(/@(-?\d+\.\d+),(-?\d+\.\d+)/) || uri.match(/[?&](?:q|query|ll|destination)=(-?\d+\.\d+),(-?\d+\.\d+)/);
+  return match ? { lat: parseFloat(match[1]), lng: parseFloat(match[2]) } : undefined;
+};
+
+const toPlace = (link: GroundingLink, placeId: string | undefined, hints: PlaceHint[]): PlaceResult => {
+  const hint = hints.find(h => (placeId && h.placeId === placeId) || h.title?.toLowerCase() === link.title.toLowerCase());
+  const hinted = hint && typeof hint.lat === 'number' && typeof hint.lng === 'number' ? { lat: hint.lat, lng: hint.lng } : undefined;
+  return {
+    ...link,
+    placeId: placeId ?? hint?.placeId,
+    location: coordsFromUri(link.uri) ?? hinted,
+  };
+};
+
+export interface MapSearchProvider {
+  name: string;
+  // Throws on failure; searchMaps decides whether to fall back to the offline dataset
+  // A null location means the search runs without any position bias
+  search: (query: string, location: GeoLocation | null) => Promise<MapSearchResult>;
+}
+
+// Shared with the token proxy, which makes the same call server-side so the key stays off the device
+export const buildMapsRequest = (query: string, location: GeoLocation | null): GenerateContentParameters => ({
+  model: "gemini-2.5-flash",
+  contents: `${location ? `User is at Lat ${location.lat}, Lng ${location.lng}.` : 'User location is unknown, so do not give directions from where they stand.'} They asked: "${query}". 
+      Respond like a Braj local guide who is funny and helpful.
+      After your answer, on a new last line write ${PLACES_MARKER} followed by a JSON array of the places you mention,
+      each as {"title": string, "placeId": string, "lat": number, "lng": number}.`,
+  config: {
+    tools: [{ googleMaps: {} }],
+    toolConfig: location ? {
+      retrievalConfig: {
+        latLng: {
+          latitude: location.lat,
+          longitude: location.lng
         }
-      },
+      }
+    } : undefined
+  },
+});
+
+export const parseMapsResponse = (
+  rawText: string,
+  chunks: GroundingChunk[] | undefined,
+  location: GeoLocation | null
+): MapSearchResult => {
+  const { text, hints } = splitPlaceHints(rawText);
+  const links: GroundingLink[] = [];
+  const places: PlaceResult[] = [];
+
+  if (chunks) {
+    chunks.forEach((chunk: any) => {
+      if (chunk.maps) {
+        const link = {
+          uri: chunk.maps.uri,
+          title: chunk.maps.title || "Vrindavan Path"
+        };
+        links.push(link);
+        places.push(toPlace(link, chunk.maps.placeId, hints));
+      }
     });
+  }
 
-    const links: { uri: string; title: string }[] = [];
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    
-    if (chunks) {
-      chunks.forEach((chunk: any) => {
-        if (chunk.maps) {
-          links.push({
-            uri: chunk.maps.uri,
-            title: chunk.maps.title || "Vrindavan Path"
-          });
-        }
-      });
-    }
+  return {
+    text: text || "Moiku kachu milo na, Bhaiya.",
+    links: links,
+    places: withDistanceAndBearing(places, location)
+  };
+};
 
+export const googleMapSearchProvider: MapSearchProvider = {
+  name: 'google',
+  search: async (query, location) => {
+    // Always create a new instance right before the call to get the latest key
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent(buildMapsRequest(query, location));
     return {
-      text: response.text || "Moiku kachu milo na, Bhaiya.",
-      links: links
+      ...parseMapsResponse(response.text || "", response.candidates?.[0]?.groundingMetadata?.groundingChunks, location),
+      usage: response.usageMetadata && toTokenUsage(response.usageMetadata),
     };
-  } catch (error: any) {
+  },
+};
+
+export const offlineMapSearchProvider: MapSearchProvider = {
+  name: 'offline',
+  search: async (query, location) => searchOfflinePois(query, location),
+};
+
+export const searchMaps = async (
+  query: string,
+  location: GeoLocation | null,
+  provider: MapSearchProvider = googleMapSearchProvider
+): Promise<MapSearchResult> => {
+  // No point waiting for a timeout in the temple lanes; the browser already knows we're offline
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return searchOfflinePois(query, location);
+  }
+
+  try {
+    return await provider.search(query, location);
+  } catch (error) {
     console.error("Map service error:", error);
-    // If the key is invalid or the project isn't found, we propagate the error to trigger re-selection
-    if (error.message?.includes("Requested entity was not found")) {
-        throw error;
-    }
-    return {
-      text: "Are lalla, naksha khul na ryo. Lag ryo hai internet marya gayo.",
-      links: []
-    };
+    // A bad key needs the user to re-pick it; anything else (quota, network, odd replies) still has the offline list
+    const typed = classifyError(error);
+    if (typed instanceof BadKeyError) throw typed;
+    return searchOfflinePois(query, location);
   }
-};
\ No newline at end of file
+};
+
+const mapToolDeclaration: FunctionDeclaration = {
+  name: 'lookUpMapInfo',
+  description: 'Search for real-time places, directions, or map information relative to the user location.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      query: {
+        type: Type.STRING,
+        description: 'The search query for maps (e.g., "restaurants nearby", "directions to home").',
+      },
+    },
+    required: ['query'],
+  },
+};
+
+export const createMapTool = (
+  onResult: (query: string, result: MapSearchResult) => void,
+  provider: MapSearchProvider = googleMapSearchProvider
+): LiveTool<{ query: string }> => ({
+  declaration: mapToolDeclaration,
+  handler: async ({ query }, { location }) => {
+    // A bad fix is worse than none: search unbiased and tell Buddy not to point anyone anywhere
+    const { quality, reason } = assessLocation(location);
+    const result = await searchMaps(query, quality === 'unusable' ? null : location, provider);
+    onResult(query, result);
+    if (quality === 'unusable') {
+      return {
+        result: result.text,
+        locationWarning: `User location is unusable (${reason}). Do not give directions or distances from their position; ask where they are or suggest pinning a landmark.`,
+      };
+    }
+    if (quality === 'rough') {
+      return { result: result.text, locationWarning: `User location is rough (${reason}). Hedge any distances and directions.` };
+    }
+    return { result: result.text };
+  },
+});
@@ -0,0 +1,84 @@
+import { GeoLocation, MapSearchResult, PlaceResult, PoiCategory, PointOfInterest } from "../types";
+import { BRAJ_POIS } from "../data/brajPois";
+import { distanceMeters, formatDistance, withDistanceAndBearing } from "../utils/geo";
+
+const MAX_RESULTS = 5;
+
+// What people actually type or say, in English, Hindi and Braj
+const CATEGORY_WORDS: Record<PoiCategory, string[]> = {
+  temple: ['temple', 'mandir', 'mandur', 'darshan', 'thakur', 'thakurji'],
+  ghat: ['ghat', 'yamuna', 'jamuna', 'river', 'snan', 'boat'],
+  kund: ['kund', 'sarovar', 'talab', 'pond', 'lake'],
+  parking: ['parking', 'park', 'car', 'gaadi', 'gadi', 'bus'],
+  toilet: ['toilet', 'washroom', 'bathroom', 'loo', 'shauchalay', 'sulabh', 'peshab'],
+  water: ['water', 'pani', 'paani', 'pyau', 'drinking', 'thirsty', 'pyas'],
+  police: ['police', 'thana', 'chowki', 'kotwali', 'sipahi'],
+  hospital: ['hospital', 'doctor', 'aspatal', 'ambulance', 'chot', 'dawai', 'medical'],
+  lost_found: ['lost', 'found', 'khoya', 'paya', 'kho', 'bichhad', 'bichad', 'missing'],
+};
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'to', 'of', 'in', 'near', 'nearby', 'nearest', 'closest', 'me', 'where', 'is', 'how', 'go', 'find', 'directions',
+  'kahan', 'kaha', 'kidhar', 'hai', 'he', 'ka', 'ki', 'ke', 'ko', 'paas', 'pass', 'sabse', 'najdik', 'nazdeek', 'batao', 'bata', 'jana', 'rasta', 'wala', 'wali',
+]);
+
+const tokenize = (text: string) =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 1 && !STOP_WORDS.has(t));
+
+const LANDMARKS: PoiCategory[] = ['temple', 'ghat', 'kund'];
+
+const scorePoi = (poi: PointOfInterest, tokens: string[], namesCategory: boolean): number => {
+  const names = [poi.name, ...(poi.altNames ?? [])].join(' ').toLowerCase();
+  const extras = [...poi.tags, poi.town].join(' ').toLowerCase();
+  const score = tokens.reduce((total, token) => {
+    if (CATEGORY_WORDS[poi.category].includes(token)) total += 3;
+    if (names.includes(token)) total += 4;
+    else if (extras.includes(token)) total += 2;
+    return total;
+  }, 0);
+  // "Banke Bihari" means the temple, not the parking lot named after it
+  return score > 0 && !namesCategory && LANDMARKS.includes(poi.category) ? score + 1 : score;
+};
+
+export const mapsLinkFor = (location: GeoLocation) =>
+  `https://www.google.com/maps/search/?api=1&query=${location.lat},${location.lng}`;
+
+export const poiToPlace = (poi: PointOfInterest): PlaceResult => ({
+  uri: mapsLinkFor(poi.location),
+  title: poi.name,
+  placeId: `offline:${poi.id}`,
+  location: poi.location,
+});
+
+/**
+ * Keyword + distance search over the bundled Braj dataset. With no recognisable keywords it just
+ * returns whatever is nearest, which is usually the right answer for "kuch paas mein hai?".
+ */
+export const searchOfflinePois = (query: string, location: GeoLocation | null, pois: PointOfInterest[] = BRAJ_POIS): MapSearchResult => {
+  const tokens = tokenize(query);
+  const namesCategory = tokens.some(t => Object.values(CATEGORY_WORDS).some(words => words.includes(t)));
+  const distanceTo = (poi: PointOfInterest) => (location ? distanceMeters(location, poi.location) : 0);
+
+  const ranked = pois
+    .map(poi => ({ poi, score: scorePoi(poi, tokens, namesCategory), distance: distanceTo(poi) }))
+    .filter(r => tokens.length === 0 || r.score > 0)
+    .sort((a, b) => b.score - a.score || a.distance - b.distance)
+    .slice(0, MAX_RESULTS);
+
+  const fallback = ranked.length === 0
+    ? pois.map(poi => ({ poi, score: 0, distance: distanceTo(poi) })).sort((a, b) => a.distance - b.distance).slice(0, MAX_RESULTS)
+    : ranked;
+
+  const places = withDistanceAndBearing(fallback.map(r => poiToPlace(r.poi)), location);
+  const summary = fallback
+    .map(r => (location ? `${r.poi.name} (${formatDistance(r.distance)})` : r.poi.name))
+    .join(', ');
+
+  return {
+    text: ranked.length > 0
+      ? `Net to gayo, par Buddy ki yaadasht pakki hai: ${summary}.`
+      : `Jo maango wo to yaad na aa ryo, par paas mein jo hai: ${summary}.`,
+    links: places.map(({ uri, title }) => ({ uri, title })),
+    places,
+  };
+};
@@ -0,0 +1,27 @@
+import { PersonaProfile } from "../types";
+import { getPersona } from "../data/personas";
+import { readSetting, writeSetting } from "../utils/storage";
+
+const STORAGE_KEY = "brajBuddy.personaId";
+
+export const loadPersona = (): PersonaProfile => getPersona(readSetting(STORAGE_KEY));
+
+export const savePersona = (id: string) => writeSetting(STORAGE_KEY, id);
+
+export const buildSystemInstruction = (persona: PersonaProfile, whereabouts?: string) => `
+  Persona: ${persona.persona}
+  Language: ${persona.language}
+  Directives:
+  - You're watching through the camera. Comment on what you see!
+  - If they ask for directions or places, use 'lookUpMapInfo' immediately.
+  - If they ask when a temple is open, about an aarti, or when a festival is, use 'lookUpDarshanSchedule' instead; never guess timings or dates.
+${persona.directives.map(d => `  - ${d}`).join("\n")}
+  - KEEP IT SHORT. Maximum ${persona.maxWordsPerTurn} words per turn.
+  - "${persona.greeting}" is your greeting.
+  - Messages starting with [NAV] come from the app's navigator, not the user. Announce them in one short line, in character.
+  - Messages starting with [LOCATION] tell you where the user is now. Acknowledge in a few words at most, mentioning the place only if it's worth it.
+  - Messages starting with [LANDMARK] describe a photo the user just asked about. Narrate it as told, and don't claim more certainty than it gives.
+  - Messages starting with [TOUR] come from a guided walk the user is leading. When one says the group has reached a stop, tell that spot's story in character; for these you may use up to ${persona.maxWordsPerTurn * 3} words. Stick to what it asks you to cover and don't invent dates or names.
+  - Messages starting with [SOS] mean the user needs help right now. Drop all jokes and the persona's teasing at once, stay calm, and follow it until another [SOS] message says they are safe.
+  - If a tool result carries a locationWarning, follow it.
+${whereabouts ? `  Where the user is: ${whereabouts}\n` : ''}`;
@@ -0,0 +1,84 @@
+import { GenerateContentResponseUsageMetadata, GoogleGenAI, GroundingChunk } from "@google/genai";
+import { LiveTransport } from "./liveTransport";
+import { MapSearchProvider, parseMapsResponse } from "./mapService";
+import { LandmarkIdentifier, parseLandmarkResponse, toLandmarkDraft } from "./landmarkService";
+import { Translator } from "./translationService";
+import { toTokenUsage } from "./usageMeter";
+import { readSetting, writeSetting } from "../utils/storage";
+
+// 'key' talks to Gemini with a key in the page (inlined or from the AI Studio picker),
+// 'proxy' asks `npm run proxy` for short-lived tokens so the key never leaves the server
+export type KeyMode = 'key' | 'proxy';
+
+const KEY_MODE_STORAGE_KEY = "brajBuddy.keyMode";
+// Vite dev server forwards /api to the proxy; see vite.config.ts
+const PROXY_BASE_URL = "/api";
+
+// Builds made with BUDDY_KEY_MODE=proxy carry no key at all, so they start out on the proxy
+export const loadKeyMode = (): KeyMode => {
+  const stored = readSetting(KEY_MODE_STORAGE_KEY);
+  if (stored === 'key' || stored === 'proxy') return stored;
+  return process.env.BUDDY_KEY_MODE === 'proxy' ? 'proxy' : 'key';
+};
+
+export const saveKeyMode = (mode: KeyMode) => writeSetting(KEY_MODE_STORAGE_KEY, mode);
+
+const post = async <T>(path: string, body: unknown = {}): Promise<T> => {
+  const res = await fetch(`${PROXY_BASE_URL}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const detail = await res.json().catch(() => ({}));
+    throw new Error(`Token proxy ${path} answered ${res.status}: ${detail.error ?? res.statusText}`);
+  }
+  return res.json();
+};
+
+export const proxyLiveTransport: LiveTransport = {
+  name: 'proxy',
+  connect: async (params) => {
+    // Tokens are single-use, so every (re)connect mints a fresh one
+    const { token } = await post<{ token: string }>("/live-token");
+    const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: "v1alpha" } });
+    return ai.live.connect(params);
+  },
+};
+
+export const proxyMapSearchProvider: MapSearchProvider = {
+  name: 'proxy',
+  search: async (query, location) => {
+    const { text, groundingChunks, usageMetadata } = await post<{
+      text: string;
+      groundingChunks: GroundingChunk[];
+      usageMetadata?: GenerateContentResponseUsageMetadata;
+    }>("/maps-search", {
+      query,
+      location: location && { lat: location.lat, lng: location.lng },
+    });
+    return { ...parseMapsResponse(text, groundingChunks, location), usage: usageMetadata && toTokenUsage(usageMetadata) };
+  },
+};
+
+export const proxyLandmarkIdentifier: LandmarkIdentifier = {
+  name: 'proxy',
+  identify: async (imageBase64, location) => {
+    const { text, usageMetadata } = await post<{ text: string; usageMetadata?: GenerateContentResponseUsageMetadata }>(
+      "/identify-landmark",
+      { image: imageBase64, location: location && { lat: location.lat, lng: location.lng } }
+    );
+    return toLandmarkDraft(parseLandmarkResponse(text), location, 'proxy', usageMetadata && toTokenUsage(usageMetadata));
+  },
+};
+
+export const proxyTranslator: Translator = {
+  name: 'proxy',
+  translate: async (text, language) => {
+    const { text: translated, usageMetadata } = await post<{ text: string; usageMetadata?: GenerateContentResponseUsageMetadata }>(
+      "/translate",
+      { text, language }
+    );
+    return { text: translated, usage: usageMetadata && toTokenUsage(usageMetadata) };
+  },
+};
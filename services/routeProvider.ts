@@ -0,0 +1,49 @@
+import { GeoLocation, PlaceResult, RouteStep, WalkingRoute } from "../types";
+import { BRAJ_POIS } from "../data/brajPois";
+import { bearingDegrees } from "../utils/geo";
+import { compassPoint, describeTurn, routeLength } from "../utils/navigation";
+
+export interface RouteProvider {
+  name: string;
+  getRoute: (from: GeoLocation, destination: PlaceResult) => Promise<WalkingRoute>;
+}
+
+// Maps grounding doesn't always hand back coordinates, but most places pilgrims ask for are in the bundled dataset
+export const resolveDestination = (place: PlaceResult): GeoLocation | undefined => {
+  if (place.location) return place.location;
+  const title = place.title.toLowerCase();
+  const poi = BRAJ_POIS.find(p =>
+    [p.name, ...(p.altNames ?? [])].some(n => title.includes(n.toLowerCase()) || n.toLowerCase().includes(title))
+  );
+  return poi?.location;
+};
+
+// Turns a polyline into one step per real bend, plus the final arrival
+export const buildSteps = (points: GeoLocation[], destinationTitle: string): RouteStep[] => {
+  const steps: RouteStep[] = [];
+  if (points.length >= 2) {
+    steps.push({ instruction: `${compassPoint(bearingDegrees(points[0], points[1]))} ki taraf chalo`, pointIndex: 0 });
+  }
+  for (let i = 1; i < points.length - 1; i++) {
+    const instruction = describeTurn(points[i - 1], points[i], points[i + 1]);
+    if (instruction !== 'Seedha chalte raho') steps.push({ instruction, pointIndex: i });
+  }
+  steps.push({ instruction: `${destinationTitle} aa gayo`, pointIndex: points.length - 1 });
+  return steps;
+};
+
+export const straightLineRouteProvider: RouteProvider = {
+  name: 'straight-line',
+  getRoute: async (from, destination) => {
+    const to = resolveDestination(destination);
+    if (!to) throw new Error(`No coordinates known for "${destination.title}".`);
+    const points = [from, to];
+    return {
+      destination: { ...destination, location: to },
+      points,
+      steps: buildSteps(points, destination.title),
+      distanceMeters: routeLength(points),
+      provider: 'straight-line',
+    };
+  },
+};
@@ -0,0 +1,133 @@
+import { Breadcrumb, GeoLocation, PoiCategory, PointOfInterest, SosSession, SosTrigger } from "../types";
+import { BRAJ_POIS } from "../data/brajPois";
+import { SOS_PERSONA } from "../data/personas";
+import { distanceMeters, formatDistance } from "../utils/geo";
+import { readSetting, writeSetting } from "../utils/storage";
+import { mapsLinkFor } from "./offlinePoiService";
+import { nearestLandmark } from "./locationService";
+
+const SOS_STORAGE_KEY = "brajBuddy.sos";
+const BREADCRUMBS_STORAGE_KEY = "brajBuddy.breadcrumbs";
+// Enough to retrace the last couple of hours in a crowd, small enough to rewrite on every step
+const MAX_BREADCRUMBS = 120;
+const BREADCRUMB_MAX_AGE_MS = 3 * 60 * 60 * 1000;
+// A new crumb once the user has really moved, or at least now and then while standing still
+const BREADCRUMB_MIN_MOVE_M = 25;
+const BREADCRUMB_MIN_INTERVAL_MS = 5 * 60 * 1000;
+// Fixes this vague would scatter the trail across the next mohalla
+const BREADCRUMB_MAX_ACCURACY_M = 100;
+
+export const HELP_CATEGORIES: PoiCategory[] = ['police', 'hospital', 'lost_found'];
+
+export const EMERGENCY_NUMBERS = [
+  { label: 'Police / Emergency', number: '112' },
+  { label: 'Ambulance', number: '108' },
+  { label: 'Bachchon ki helpline', number: '1098' },
+  { label: 'Mahila helpline', number: '181' },
+];
+
+export const loadSosSession = (): SosSession | null => {
+  const raw = readSetting(SOS_STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    const stored = JSON.parse(raw) as SosSession | null;
+    if (!stored || typeof stored.activatedAt !== 'number') return null;
+    return { activatedAt: stored.activatedAt, trigger: stored.trigger === 'voice' ? 'voice' : 'long_press' };
+  } catch {
+    return null;
+  }
+};
+
+export const saveSosSession = (session: SosSession | null) =>
+  writeSetting(SOS_STORAGE_KEY, session ? JSON.stringify(session) : "");
+
+const isCrumb = (value: unknown): value is Breadcrumb => {
+  const c = value as Breadcrumb;
+  return !!c && typeof c.lat === 'number' && typeof c.lng === 'number' && typeof c.timestamp === 'number';
+};
+
+export const loadBreadcrumbs = (now = Date.now()): Breadcrumb[] => {
+  const raw = readSetting(BREADCRUMBS_STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const stored = JSON.parse(raw);
+    return Array.isArray(stored) ? stored.filter(isCrumb).filter(c => now - c.timestamp <= BREADCRUMB_MAX_AGE_MS) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveBreadcrumbs = (trail: Breadcrumb[]) => writeSetting(BREADCRUMBS_STORAGE_KEY, JSON.stringify(trail));
+
+/** Returns the trail with the fix added, or the same array when the fix isn't worth a crumb. */
+export const addBreadcrumb = (trail: Breadcrumb[], location: GeoLocation, now = Date.now()): Breadcrumb[] => {
+  if (location.source === 'manual' || (location.accuracy ?? 0) > BREADCRUMB_MAX_ACCURACY_M) return trail;
+  const timestamp = location.timestamp ?? now;
+  const last = trail[trail.length - 1];
+  if (last && distanceMeters(last, location) < BREADCRUMB_MIN_MOVE_M && timestamp - last.timestamp < BREADCRUMB_MIN_INTERVAL_MS) {
+    return trail;
+  }
+  const crumb: Breadcrumb = { lat: location.lat, lng: location.lng, accuracy: location.accuracy, timestamp };
+  return [...trail.filter(c => now - c.timestamp <= BREADCRUMB_MAX_AGE_MS), crumb].slice(-MAX_BREADCRUMBS);
+};
+
+/** The closest police post, hospital and lost-and-found booth from the bundled list, so it works offline. */
+export const nearestHelp = (location: GeoLocation, pois: PointOfInterest[] = BRAJ_POIS) =>
+  HELP_CATEGORIES.flatMap(category => {
+    const nearest = pois
+      .filter(poi => poi.category === category)
+      .map(poi => ({ poi, distance: distanceMeters(location, poi.location) }))
+      .sort((a, b) => a.distance - b.distance)[0];
+    return nearest ? [nearest] : [];
+  });
+
+// Five decimals is about a metre, which is as much as any phone fix is worth
+export const formatCoordinates = (location: GeoLocation) => `${location.lat.toFixed(5)}, ${location.lng.toFixed(5)}`;
+
+/** Plain text that survives SMS and WhatsApp: where, how sure, and a link that opens on any phone. */
+export const buildSosMessage = (location: GeoLocation, now = Date.now()) => {
+  const landmark = nearestLandmark(location);
+  const near = landmark ? ` near ${landmark.poi.name}, ${landmark.poi.town} (${formatDistance(landmark.distance)})` : '';
+  const accuracy = location.source === 'manual'
+    ? ' (pinned by hand, not GPS)'
+    : location.accuracy !== undefined ? ` (±${Math.round(location.accuracy)} m)` : '';
+  const time = new Date(location.timestamp ?? now).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return `SOS - I need help. I am at ${formatCoordinates(location)}${accuracy}${near}, as of ${time}. ${mapsLinkFor(location)}`;
+};
+
+export type ShareOutcome = 'shared' | 'copied' | 'cancelled' | 'failed';
+
+// The share sheet where there is one; otherwise the clipboard, so it can still be pasted into a call or SMS
+export const shareSosMessage = async (text: string): Promise<ShareOutcome> => {
+  if (typeof navigator !== 'undefined' && navigator.share) {
+    try {
+      await navigator.share({ title: "SOS", text });
+      return 'shared';
+    } catch (err) {
+      if ((err as DOMException)?.name === 'AbortError') return 'cancelled';
+    }
+  }
+  try {
+    await navigator.clipboard.writeText(text);
+    return 'copied';
+  } catch {
+    return 'failed';
+  }
+};
+
+export const smsLinkFor = (text: string) => `sms:?body=${encodeURIComponent(text)}`;
+
+// A live socket keeps the persona it opened with, so the calm one's rules ride along in the note itself
+const calmRules = () =>
+  ` Until told otherwise: ${SOS_PERSONA.directives.join(' ')} ${SOS_PERSONA.language} At most ${SOS_PERSONA.maxWordsPerTurn} words per turn.`;
+
+export const describeSosStart = (trigger: SosTrigger, location: GeoLocation | null) => {
+  const help = location
+    ? nearestHelp(location).map(({ poi, distance }) => `${poi.name} (${formatDistance(distance)})`).join(', ')
+    : '';
+  return `[SOS] The user ${trigger === 'voice' ? 'asked for help' : 'pressed the SOS button'}: they may be lost, separated from their family, or unwell.${
+    help ? ` Nearest help: ${help}.` : ' Their location is unknown.'
+  } Ask calmly what happened, then give one step at a time.${calmRules()}`;
+};
+
+export const describeSosEnd = () => `[SOS] The user says they are safe now. Acknowledge warmly in one line, then carry on as usual.`;
@@ -0,0 +1,468 @@
+import { LiveServerMessage } from "@google/genai";
+import { ConnectionState, MapSearchResult } from "../types";
+import { LiveTransport, LiveTransportSession } from "./liveTransport";
+import { createScriptedLiveTransport, FakeClientEventType, FakeServerMessage, ScriptedLiveTransport, ScriptStep } from "./fakeLiveTransport";
+import { decode, encode } from "../utils/audio";
+import { decodeWav, encodeWav } from "../utils/wav";
+import { createZip, readZip } from "../utils/zip";
+import { readSetting, writeSetting } from "../utils/storage";
+
+export const RECORDING_FORMAT = 'braj-buddy-session';
+export const RECORDING_VERSION = 1;
+const MIC_SAMPLE_RATE = 16000;
+const MODEL_SAMPLE_RATE = 24000;
+// A phone holds all of this in memory until it's exported, so a forgotten switch has to stop somewhere
+const MAX_TRACK_SECONDS = 15 * 60;
+const MAX_FRAMES = 300;
+const MAX_EVENTS = 20000;
+// Idle stretches in a recording (a pocketed phone, a long darshan queue) aren't worth waiting through on replay
+const MAX_SCRIPT_GAP_MS = 10000;
+const RECORD_SESSIONS_STORAGE_KEY = 'brajBuddy.recordSessions';
+
+// Off unless someone turns it on: recordings hold the user's voice and camera
+export const loadRecordSessions = (): boolean => readSetting(RECORD_SESSIONS_STORAGE_KEY) === 'on';
+
+export const saveRecordSessions = (on: boolean) => writeSetting(RECORD_SESSIONS_STORAGE_KEY, on ? 'on' : 'off');
+
+// Where a chunk of audio sits in its track, in samples
+export interface AudioSpan {
+  start: number;
+  length: number;
+}
+
+export type RecordedClientKind = 'activityStart' | 'activityEnd' | 'clientContent' | 'toolResponse' | 'close';
+
+export type RecordedEventBody =
+  | { type: 'state'; state: ConnectionState }
+  | { type: 'connect'; connection: number; model: string; voice?: string; resumed: boolean }
+  | { type: 'open'; connection: number }
+  // The message as received, with audio data blanked out; `audio` says where each audio part went in the model track
+  | { type: 'server'; connection: number; message: FakeServerMessage; audio?: (AudioSpan & { part: number })[] }
+  | { type: 'mic'; connection: number; span: AudioSpan }
+  // `file` is missing once the frame cap is hit; the event still shows a frame went out
+  | { type: 'frame'; connection: number; file?: string; bytes: number }
+  | { type: 'client'; connection: number; kind: RecordedClientKind; payload?: unknown }
+  | { type: 'map_result'; query: string; result: MapSearchResult }
+  | { type: 'close'; connection: number; code: number; reason: string }
+  | { type: 'error'; connection: number; message: string };
+
+// `t` is milliseconds since the recording started
+export type RecordedEvent = RecordedEventBody & { t: number };
+
+export interface RecordingHeader {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  startedAt: string;
+  micSampleRate: number;
+  modelSampleRate: number;
+  // Something hit a cap and was left out
+  truncated: boolean;
+}
+
+export interface SessionRecording {
+  header: RecordingHeader;
+  events: RecordedEvent[];
+  mic: Int16Array;
+  model: Int16Array;
+  // Camera frames as sent, keyed by the name the frame event carries
+  frames: Map<string, Uint8Array>;
+}
+
+export interface RecordingStats {
+  durationMs: number;
+  events: number;
+  frames: number;
+  truncated: boolean;
+}
+
+export interface SessionRecorder {
+  // A transport that behaves exactly like `transport` but logs both directions of every socket it opens
+  wrap: (transport: LiveTransport) => LiveTransport;
+  log: (event: RecordedEventBody) => void;
+  snapshot: () => SessionRecording;
+  stats: () => RecordingStats;
+  clear: () => void;
+}
+
+const isAudio = (mimeType?: string) => !!mimeType?.startsWith('audio/pcm');
+
+const pcmFromBase64 = (data: string) => {
+  const bytes = decode(data);
+  return new Int16Array(bytes.buffer, 0, bytes.byteLength >> 1);
+};
+
+const createTrack = (sampleRate: number) => {
+  let chunks: Int16Array[] = [];
+  let length = 0;
+  return {
+    // Null once the track is full
+    append: (samples: Int16Array): AudioSpan | null => {
+      if (length + samples.length > MAX_TRACK_SECONDS * sampleRate) return null;
+      chunks.push(samples);
+      length += samples.length;
+      return { start: length - samples.length, length: samples.length };
+    },
+    concat: () => {
+      const out = new Int16Array(length);
+      let offset = 0;
+      chunks.forEach(chunk => {
+        out.set(chunk, offset);
+        offset += chunk.length;
+      });
+      // Later appends re-concatenate from one chunk instead of hundreds
+      chunks = [out];
+      return out.slice();
+    },
+    reset: () => {
+      chunks = [];
+      length = 0;
+    },
+  };
+};
+
+export const createSessionRecorder = (): SessionRecorder => {
+  let startedAt = Date.now();
+  let events: RecordedEvent[] = [];
+  let frames = new Map<string, Uint8Array>();
+  let connections = 0;
+  let truncated = false;
+  const mic = createTrack(MIC_SAMPLE_RATE);
+  const model = createTrack(MODEL_SAMPLE_RATE);
+
+  const log = (event: RecordedEventBody) => {
+    if (events.length >= MAX_EVENTS) {
+      truncated = true;
+      return;
+    }
+    events.push({ ...event, t: Date.now() - startedAt });
+  };
+
+  const logMic = (connection: number, data: string) => {
+    const span = mic.append(pcmFromBase64(data));
+    if (!span) {
+      truncated = true;
+      return;
+    }
+    // Chunks arrive every few tens of ms; back-to-back ones become one span so the log stays readable
+    const last = events[events.length - 1];
+    if (last?.type === 'mic' && last.connection === connection && last.span.start + last.span.length === span.start) {
+      last.span.length += span.length;
+    } else {
+      log({ type: 'mic', connection, span });
+    }
+  };
+
+  const logFrame = (connection: number, data: string) => {
+    const bytes = decode(data);
+    if (frames.size >= MAX_FRAMES) {
+      truncated = true;
+      log({ type: 'frame', connection, bytes: bytes.length });
+      return;
+    }
+    const file = `frames/${String(frames.size + 1).padStart(4, '0')}.jpg`;
+    frames.set(file, bytes);
+    log({ type: 'frame', connection, file, bytes: bytes.length });
+  };
+
+  const logServer = (connection: number, msg: LiveServerMessage) => {
+    const parts = msg.serverContent?.modelTurn?.parts;
+    if (!parts?.some(p => isAudio(p.inlineData?.mimeType))) {
+      log({ type: 'server', connection, message: msg });
+      return;
+    }
+    const audio: (AudioSpan & { part: number })[] = [];
+    const stripped = parts.map((part, i) => {
+      if (!part.inlineData?.data || !isAudio(part.inlineData.mimeType)) return part;
+      const span = model.append(pcmFromBase64(part.inlineData.data));
+      if (span) audio.push({ ...span, part: i });
+      else truncated = true;
+      return { ...part, inlineData: { ...part.inlineData, data: '' } };
+    });
+    const serverContent = msg.serverContent!;
+    log({
+      type: 'server',
+      connection,
+      message: { ...msg, serverContent: { ...serverContent, modelTurn: { ...serverContent.modelTurn, parts: stripped } } },
+      audio,
+    });
+  };
+
+  const wrap = (transport: LiveTransport): LiveTransport => ({
+    name: transport.name,
+    connect: async (params) => {
+      const connection = connections++;
+      const { callbacks } = params;
+      log({
+        type: 'connect',
+        connection,
+        model: params.model,
+        voice: params.config?.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName,
+        resumed: !!params.config?.sessionResumption?.handle,
+      });
+
+      let session: LiveTransportSession;
+      try {
+        session = await transport.connect({
+          ...params,
+          callbacks: {
+            ...callbacks,
+            onopen: () => {
+              log({ type: 'open', connection });
+              callbacks.onopen?.();
+            },
+            onmessage: (msg) => {
+              logServer(connection, msg);
+              return callbacks.onmessage(msg);
+            },
+            onclose: (e) => {
+              log({ type: 'close', connection, code: e?.code ?? 0, reason: e?.reason ?? '' });
+              callbacks.onclose?.(e);
+            },
+            onerror: (e) => {
+              log({ type: 'error', connection, message: e?.message ?? 'unknown' });
+              callbacks.onerror?.(e);
+            },
+          },
+        });
+      } catch (err) {
+        log({ type: 'error', connection, message: err instanceof Error ? err.message : String(err) });
+        throw err;
+      }
+
+      return {
+        sendRealtimeInput: (p) => {
+          if (p.media?.data && isAudio(p.media.mimeType)) logMic(connection, p.media.data);
+          else if (p.media?.data && p.media.mimeType?.startsWith('image/')) logFrame(connection, p.media.data);
+          if (p.activityStart) log({ type: 'client', connection, kind: 'activityStart' });
+          if (p.activityEnd) log({ type: 'client', connection, kind: 'activityEnd' });
+          session.sendRealtimeInput(p);
+        },
+        sendClientContent: (p) => {
+          log({ type: 'client', connection, kind: 'clientContent', payload: p });
+          session.sendClientContent(p);
+        },
+        sendToolResponse: (p) => {
+          log({ type: 'client', connection, kind: 'toolResponse', payload: p });
+          session.sendToolResponse(p);
+        },
+        close: () => {
+          log({ type: 'client', connection, kind: 'close' });
+          session.close();
+        },
+      };
+    },
+  });
+
+  const snapshot = (): SessionRecording => ({
+    header: {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      startedAt: new Date(startedAt).toISOString(),
+      micSampleRate: MIC_SAMPLE_RATE,
+      modelSampleRate: MODEL_SAMPLE_RATE,
+      truncated,
+    },
+    events: events.slice(),
+    mic: mic.concat(),
+    model: model.concat(),
+    frames: new Map(frames),
+  });
+
+  const stats = (): RecordingStats => ({
+    durationMs: events.length ? events[events.length - 1].t : 0,
+    events: events.length,
+    frames: frames.size,
+    truncated,
+  });
+
+  const clear = () => {
+    startedAt = Date.now();
+    events = [];
+    frames = new Map();
+    connections = 0;
+    truncated = false;
+    mic.reset();
+    model.reset();
+  };
+
+  return { wrap, log, snapshot, stats, clear };
+};
+
+/** One archive: events.jsonl (header line first), a WAV per audio track, and the camera frames as JPEGs. */
+export const exportRecording = (recording: SessionRecording): Blob => {
+  const encoder = new TextEncoder();
+  const log = [recording.header, ...recording.events].map(line => JSON.stringify(line)).join('\n') + '\n';
+  return createZip([
+    { name: 'events.jsonl', data: encoder.encode(log) },
+    { name: 'mic.wav', data: encodeWav(recording.mic, recording.header.micSampleRate) },
+    { name: 'model.wav', data: encodeWav(recording.model, recording.header.modelSampleRate) },
+    ...[...recording.frames].map(([name, data]) => ({ name, data })),
+  ], new Date(recording.header.startedAt));
+};
+
+export const recordingFileName = (recording: SessionRecording) =>
+  `braj-buddy-session-${recording.header.startedAt.slice(0, 16).replace(/[T:]/g, '-')}.zip`;
+
+export const loadRecording = (bytes: Uint8Array): SessionRecording => {
+  const entries = readZip(bytes);
+  const log = entries.get('events.jsonl');
+  if (!log) throw new Error("No events.jsonl in this archive");
+  const [header, ...events] = new TextDecoder()
+    .decode(log)
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line));
+  if (header?.format !== RECORDING_FORMAT) throw new Error("Not a Braj Buddy session recording");
+  if (header.version > RECORDING_VERSION) throw new Error(`Recording version ${header.version} is newer than this app`);
+
+  const track = (name: string) => {
+    const file = entries.get(name);
+    return file ? decodeWav(file).samples : new Int16Array(0);
+  };
+  const frames = new Map([...entries].filter(([name]) => name.startsWith('frames/')));
+  return { header, events, mic: track('mic.wav'), model: track('model.wav'), frames };
+};
+
+/** The audio of one span, as the base64 PCM the Live API sends. */
+export const spanToBase64 = (track: Int16Array, span: AudioSpan) => {
+  const samples = track.slice(span.start, span.start + span.length);
+  return encode(new Uint8Array(samples.buffer));
+};
+
+// Puts the model audio back into a logged message so it plays again
+const restoreMessage = (recording: SessionRecording, event: Extract<RecordedEvent, { type: 'server' }>): FakeServerMessage => {
+  const parts = event.message.serverContent?.modelTurn?.parts;
+  if (!event.audio?.length || !parts) return event.message;
+  const restored = parts.map((part, i) => {
+    const span = event.audio!.find(a => a.part === i);
+    return span && part.inlineData ? { ...part, inlineData: { ...part.inlineData, data: spanToBase64(recording.model, span) } } : part;
+  });
+  const serverContent = event.message.serverContent!;
+  return { ...event.message, serverContent: { ...serverContent, modelTurn: { ...serverContent.modelTurn, parts: restored } } };
+};
+
+// What the client sent that the next server message was most likely answering
+const WAIT_PRIORITY: FakeClientEventType[] = ['toolResponse', 'clientContent', 'realtimeInput'];
+
+/**
+ * Turns a recording back into scripts for the fake transport: connection N replays what socket N received,
+ * with the original timing. Server messages that followed a client send wait for the same kind of send,
+ * so a tool call still needs its answer. With `waitForUser` off, spoken turns play without anyone speaking.
+ */
+export const recordingToScript = (recording: SessionRecording, { waitForUser = true } = {}): ScriptStep[][] => {
+  const scripts: ScriptStep[][] = [];
+  const cursors = new Map<number, { last: number; waits: Map<FakeClientEventType, number>; clientClosed: boolean }>();
+
+  const wait = (connection: number, event: FakeClientEventType, t: number) => {
+    cursors.get(connection)?.waits.set(event, t);
+  };
+
+  recording.events.forEach(event => {
+    if (event.type === 'connect') {
+      scripts[event.connection] = [];
+      cursors.set(event.connection, { last: event.t, waits: new Map(), clientClosed: false });
+      return;
+    }
+    if (!('connection' in event)) return;
+    const cursor = cursors.get(event.connection);
+    const steps = scripts[event.connection];
+    if (!cursor || !steps) return;
+
+    const gap = (from: number) => Math.min(Math.max(event.t - from, 0), MAX_SCRIPT_GAP_MS);
+    switch (event.type) {
+      case 'mic':
+        if (waitForUser) wait(event.connection, 'realtimeInput', event.t);
+        break;
+      case 'client':
+        if (event.kind === 'close') cursor.clientClosed = true;
+        else if (event.kind === 'toolResponse' || event.kind === 'clientContent') wait(event.connection, event.kind, event.t);
+        else if (waitForUser) wait(event.connection, 'realtimeInput', event.t);
+        break;
+      case 'server': {
+        const awaited = WAIT_PRIORITY.find(kind => cursor.waits.has(kind));
+        let delayMs = gap(cursor.last);
+        if (awaited) {
+          steps.push({ kind: 'waitFor', event: awaited });
+          delayMs = gap(cursor.waits.get(awaited)!);
+          cursor.waits.clear();
+        }
+        steps.push({ kind: 'message', message: restoreMessage(recording, event), delayMs });
+        cursor.last = event.t;
+        break;
+      }
+      case 'error':
+        steps.push({ kind: 'error', message: event.message, delayMs: gap(cursor.last) });
+        cursor.last = event.t;
+        break;
+      case 'close': {
+        // The app hanging up isn't something the server does; the script just runs out
+        const previous = steps[steps.length - 1];
+        if (!cursor.clientClosed && previous?.kind !== 'error') steps.push({ kind: 'close', code: event.code, delayMs: gap(cursor.last) });
+        break;
+      }
+    }
+  });
+
+  // A socket that never got as far as logging anything still needs a script slot
+  return Array.from(scripts, script => script ?? []);
+};
+
+/** A recording as a network-free backend for the hook, e.g. to reproduce a bug report. */
+export const createRecordedLiveTransport = (recording: SessionRecording, options?: { waitForUser?: boolean }): ScriptedLiveTransport =>
+  createScriptedLiveTransport(recordingToScript(recording, options));
+
+const quote = (text: string, max = 80) => `"${text.length > max ? `${text.slice(0, max - 1)}…` : text}"`;
+
+const seconds = (samples: number, sampleRate: number) => `${(samples / sampleRate).toFixed(1)} s`;
+
+/** One line per event for the replay viewer. */
+export const summarizeEvent = (event: RecordedEvent, header: RecordingHeader): string => {
+  switch (event.type) {
+    case 'state':
+      return `Haal: ${event.state.toLowerCase()}`;
+    case 'connect':
+      return `Socket #${event.connection} jod rahe${event.resumed ? ' (resume)' : ''}${event.voice ? ` · ${event.voice}` : ''}`;
+    case 'open':
+      return `Socket #${event.connection} khula`;
+    case 'mic':
+      return `Mic ${seconds(event.span.length, header.micSampleRate)}`;
+    case 'frame':
+      return `Camera frame ${Math.round(event.bytes / 1024)} KB${event.file ? '' : ' (rakha na)'}`;
+    case 'map_result':
+      return `Naksha ${quote(event.query, 40)} → ${event.result.places.length} jagah`;
+    case 'close':
+      return `Socket #${event.connection} band (${event.code}${event.reason ? `, ${event.reason}` : ''})`;
+    case 'error':
+      return `Gadbad: ${event.message}`;
+    case 'client': {
+      if (event.kind === 'activityStart') return 'Bolna shuru';
+      if (event.kind === 'activityEnd') return 'Bolna band';
+      if (event.kind === 'close') return 'App ne socket band kiya';
+      if (event.kind === 'toolResponse') {
+        const responses = (event.payload as { functionResponses?: { name?: string }[] })?.functionResponses ?? [];
+        return `Tool jawab: ${responses.map(r => r.name ?? '?').join(', ')}`;
+      }
+      const text = (event.payload as { turns?: { parts?: { text?: string }[] }[] })?.turns
+        ?.flatMap(turn => turn.parts ?? [])
+        .map(part => part.text ?? '')
+        .join(' ');
+      return `Note: ${quote(text ?? '')}`;
+    }
+    case 'server': {
+      const { message } = event;
+      const content = message.serverContent;
+      const bits: string[] = [];
+      if (content?.inputTranscription?.text) bits.push(`Tumne kaha ${quote(content.inputTranscription.text)}`);
+      if (content?.outputTranscription?.text) bits.push(`Buddy bola ${quote(content.outputTranscription.text)}`);
+      event.audio?.forEach(span => bits.push(`Awaaz ${seconds(span.length, header.modelSampleRate)}`));
+      message.toolCall?.functionCalls?.forEach(call => bits.push(`Tool ${call.name}(${JSON.stringify(call.args ?? {})})`));
+      if (message.toolCallCancellation?.ids?.length) bits.push('Tool radd');
+      if (content?.interrupted) bits.push('Beech mein roka');
+      if (content?.turnComplete) bits.push('Baat poori');
+      if (message.goAway) bits.push(`goAway (${message.goAway.timeLeft ?? '?'})`);
+      if (message.sessionResumptionUpdate?.newHandle) bits.push('Resume handle');
+      if (message.usageMetadata) bits.push(`${message.usageMetadata.totalTokenCount ?? 0} tokens`);
+      return bits.join(' · ') || 'Server sandesh';
+    }
+  }
+};
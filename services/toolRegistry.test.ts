@@ -0,0 +1,101 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Type } from '@google/genai';
+import { createToolRegistry, DEFAULT_TOOL_TIMEOUT_MS, LiveTool } from './toolRegistry';
+
+const tool = (name: string, handler: LiveTool['handler'], timeoutMs?: number): LiveTool => ({
+  declaration: { name, parameters: { type: Type.OBJECT, properties: {} } },
+  handler,
+  timeoutMs,
+});
+
+// Never settles on its own; only an abort can end it
+const hang: LiveTool['handler'] = () => new Promise(() => {});
+
+describe('createToolRegistry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('passes args and location to the handler and echoes id and name', async () => {
+    const handler = vi.fn(async (args: { query: string }) => ({ echoed: args.query }));
+    const registry = createToolRegistry([tool('lookUp', handler)]);
+    const location = { lat: 27.58, lng: 77.7 };
+
+    const responses = await registry.run([{ id: 'c1', name: 'lookUp', args: { query: 'Nidhivan' } }], location);
+
+    expect(handler).toHaveBeenCalledWith({ query: 'Nidhivan' }, expect.objectContaining({ location }));
+    expect(responses).toEqual([{ id: 'c1', name: 'lookUp', response: { echoed: 'Nidhivan' } }]);
+  });
+
+  it('answers an unknown tool name with an error instead of leaving the model waiting', async () => {
+    const registry = createToolRegistry([tool('lookUp', async () => ({}))]);
+
+    const [response] = await registry.run([{ id: 'c1', name: 'flyToMoon', args: {} }], null);
+
+    expect(response).toMatchObject({ id: 'c1', name: 'flyToMoon', response: { error: { code: 'UNKNOWN_TOOL' } } });
+  });
+
+  it('times out a slow handler and aborts its signal', async () => {
+    let signal: AbortSignal | undefined;
+    const registry = createToolRegistry([tool('slow', (_args, ctx) => { signal = ctx.signal; return hang(_args, ctx); }, 1000)]);
+
+    const pending = registry.run([{ id: 'c1', name: 'slow', args: {} }], null);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect((await pending)[0].response).toMatchObject({ error: { code: 'TIMEOUT' } });
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('uses the default timeout when the tool sets none', async () => {
+    const registry = createToolRegistry([tool('slow', hang)]);
+
+    const pending = registry.run([{ id: 'c1', name: 'slow', args: {} }], null);
+    await vi.advanceTimersByTimeAsync(DEFAULT_TOOL_TIMEOUT_MS - 1);
+    let settled = false;
+    pending.then(() => { settled = true; });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(settled).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await pending)[0].response).toMatchObject({ error: { code: 'TIMEOUT' } });
+  });
+
+  it('drops the answer to a call the server cancelled, but still answers the rest', async () => {
+    const registry = createToolRegistry([tool('slow', hang), tool('quick', async () => ({ ok: true }))]);
+
+    const pending = registry.run([
+      { id: 'c1', name: 'slow', args: {} },
+      { id: 'c2', name: 'quick', args: {} },
+    ], null);
+    registry.cancel(['c1']);
+
+    expect(await pending).toEqual([{ id: 'c2', name: 'quick', response: { ok: true } }]);
+  });
+
+  it('cancelAll stops every call in flight', async () => {
+    const registry = createToolRegistry([tool('slow', hang)]);
+
+    const pending = registry.run([{ id: 'c1', name: 'slow', args: {} }, { id: 'c2', name: 'slow', args: {} }], null);
+    registry.cancelAll();
+
+    expect(await pending).toEqual([]);
+  });
+
+  it('reports a throwing handler and answers with HANDLER_FAILED', async () => {
+    const failure = new Error('maps down');
+    const onError = vi.fn();
+    const registry = createToolRegistry([tool('broken', async () => { throw failure; })]);
+
+    const [response] = await registry.run([{ id: 'c1', name: 'broken', args: {} }], null, onError);
+
+    expect(response.response).toEqual({ error: { code: 'HANDLER_FAILED', message: 'maps down' } });
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ id: 'c1' }), failure);
+  });
+});
@@ -0,0 +1,100 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse } from "@google/genai";
+import { GeoLocation } from "../types";
+
+export const DEFAULT_TOOL_TIMEOUT_MS = 15000;
+
+export interface ToolContext {
+  location: GeoLocation | null;
+  // Aborted when the call times out or the server sends a toolCallCancellation for it
+  signal: AbortSignal;
+}
+
+export interface LiveTool<Args = any> {
+  declaration: FunctionDeclaration;
+  handler: (args: Args, ctx: ToolContext) => Promise<Record<string, unknown>>;
+  timeoutMs?: number;
+}
+
+export type ToolErrorCode = 'UNKNOWN_TOOL' | 'TIMEOUT' | 'CANCELLED' | 'HANDLER_FAILED';
+
+const TIMEOUT_REASON = 'timeout';
+
+export interface ToolRegistry {
+  declarations: FunctionDeclaration[];
+  run: (
+    calls: FunctionCall[],
+    location: GeoLocation | null,
+    onError?: (call: FunctionCall, error: unknown) => void
+  ) => Promise<FunctionResponse[]>;
+  cancel: (ids: string[]) => void;
+  cancelAll: () => void;
+}
+
+const errorResponse = (code: ToolErrorCode, message: string) => ({ error: { code, message } });
+
+export const createToolRegistry = (tools: LiveTool[]): ToolRegistry => {
+  const byName = new Map(tools.map(t => [t.declaration.name, t]));
+  const inFlight = new Map<string, AbortController>();
+  const cancelled = new Set<string>();
+
+  const runOne = async (
+    call: FunctionCall,
+    location: GeoLocation | null,
+    onError?: (call: FunctionCall, error: unknown) => void
+  ): Promise<FunctionResponse> => {
+    const reply = (response: Record<string, unknown>): FunctionResponse => ({ id: call.id, name: call.name, response });
+
+    const tool = call.name ? byName.get(call.name) : undefined;
+    if (!tool) {
+      return reply(errorResponse('UNKNOWN_TOOL', `No tool named "${call.name}" is registered.`));
+    }
+
+    const controller = new AbortController();
+    if (call.id) inFlight.set(call.id, controller);
+    const timeoutMs = tool.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+
+    const stopped = new Promise<Record<string, unknown>>(resolve => {
+      controller.signal.addEventListener('abort', () => resolve(
+        controller.signal.reason === TIMEOUT_REASON
+          ? errorResponse('TIMEOUT', `Tool "${call.name}" took longer than ${timeoutMs} ms.`)
+          : errorResponse('CANCELLED', `Tool "${call.name}" was cancelled.`)
+      ));
+    });
+    const timer = window.setTimeout(() => controller.abort(TIMEOUT_REASON), timeoutMs);
+
+    try {
+      return reply(await Promise.race([
+        tool.handler(call.args ?? {}, { location, signal: controller.signal }),
+        stopped,
+      ]));
+    } catch (error: any) {
+      console.error(`Tool "${call.name}" failed:`, error);
+      onError?.(call, error);
+      return reply(errorResponse('HANDLER_FAILED', error?.message || String(error)));
+    } finally {
+      clearTimeout(timer);
+      if (call.id) inFlight.delete(call.id);
+    }
+  };
+
+  const cancel = (ids: string[]) => {
+    ids.forEach(id => {
+      const controller = inFlight.get(id);
+      if (!controller) return;
+      cancelled.add(id);
+      controller.abort();
+    });
+  };
+
+  return {
+    declarations: tools.map(t => t.declaration),
+    // Every call gets a response, even a failed one, otherwise the model sits waiting forever
+    run: async (calls, location, onError) => {
+      const responses = await Promise.all(calls.map(call => runOne(call, location, onError)));
+      // ...except ones the server itself cancelled, which it no longer expects an answer for
+      return responses.filter(r => !(r.id && cancelled.delete(r.id)));
+    },
+    cancel,
+    cancelAll: () => cancel(Array.from(inFlight.keys())),
+  };
+};
@@ -0,0 +1,158 @@
+import { GeoLocation, PlaceResult, Tour, TourProgress, TourWaypoint } from "../types";
+import { distanceMeters, formatDistance } from "../utils/geo";
+import { readSetting, writeSetting } from "../utils/storage";
+import { mapsLinkFor } from "./offlinePoiService";
+import vrindavanHeritageWalk from "../data/tours/vrindavan-heritage-walk.json";
+
+const CUSTOM_TOURS_STORAGE_KEY = "brajBuddy.customTours";
+const PROGRESS_STORAGE_KEY = "brajBuddy.tourProgress";
+// Group leaders load a handful of walks, not a library
+const MAX_CUSTOM_TOURS = 10;
+const MAX_WAYPOINTS = 50;
+const DEFAULT_RADIUS_M = 40;
+// Smaller than a GPS fix can resolve, or bigger than a whole ghat
+const MIN_RADIUS_M = 15;
+const MAX_RADIUS_M = 300;
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const coordinate = (value: unknown): GeoLocation | null => {
+  const { lat, lng } = (value ?? {}) as { lat?: unknown; lng?: unknown };
+  if (typeof lat !== 'number' || typeof lng !== 'number') return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+};
+
+/**
+ * Validates a tour file. Throws with a message naming the first problem, since the person loading it
+ * is usually the one who wrote it and can fix it.
+ */
+export const parseTour = (raw: unknown): Tour => {
+  const data = (raw ?? {}) as Record<string, unknown>;
+  const id = text(data.id);
+  const title = text(data.title);
+  if (!id || !title) throw new Error("Tour needs an id and a title");
+  if (!Array.isArray(data.waypoints) || data.waypoints.length === 0) throw new Error(`"${title}" has no waypoints`);
+  if (data.waypoints.length > MAX_WAYPOINTS) throw new Error(`"${title}" has more than ${MAX_WAYPOINTS} waypoints`);
+
+  const waypoints = data.waypoints.map((w: Record<string, unknown>, index): TourWaypoint => {
+    const name = text(w?.name);
+    const location = coordinate(w?.location);
+    const narration = text(w?.narration);
+    if (!name || !location || !narration) {
+      throw new Error(`Waypoint ${index + 1} of "${title}" needs a name, a location with lat and lng, and a narration`);
+    }
+    const radius = typeof w.radiusMeters === 'number' ? w.radiusMeters : DEFAULT_RADIUS_M;
+    return {
+      id: text(w.id) || `${id}-${index + 1}`,
+      order: typeof w.order === 'number' ? w.order : index + 1,
+      name,
+      location,
+      radiusMeters: Math.min(MAX_RADIUS_M, Math.max(MIN_RADIUS_M, radius)),
+      narration,
+    };
+  });
+  if (new Set(waypoints.map(w => w.id)).size !== waypoints.length) throw new Error(`"${title}" repeats a waypoint id`);
+
+  return {
+    id,
+    title,
+    town: text(data.town),
+    description: text(data.description),
+    // Array sort is stable, so equal orders keep the order they were written in
+    waypoints: [...waypoints].sort((a, b) => a.order - b.order),
+  };
+};
+
+export const BUILT_IN_TOURS: Tour[] = [{ ...parseTour(vrindavanHeritageWalk), builtIn: true }];
+
+export const loadCustomTours = (): Tour[] => {
+  const raw = readSetting(CUSTOM_TOURS_STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const stored = JSON.parse(raw);
+    if (!Array.isArray(stored)) return [];
+    // Re-validated, so a tour saved by an older build can't break this one
+    return stored.flatMap(t => {
+      try {
+        return [parseTour(t)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+// A tour with the same id replaces the old one, so a corrected file can simply be loaded again
+export const saveCustomTour = (tour: Tour): Tour[] => {
+  const tours = [tour, ...loadCustomTours().filter(t => t.id !== tour.id)].slice(0, MAX_CUSTOM_TOURS);
+  writeSetting(CUSTOM_TOURS_STORAGE_KEY, JSON.stringify(tours));
+  return tours;
+};
+
+export const removeCustomTour = (id: string): Tour[] => {
+  const tours = loadCustomTours().filter(t => t.id !== id);
+  writeSetting(CUSTOM_TOURS_STORAGE_KEY, JSON.stringify(tours));
+  return tours;
+};
+
+export const loadTourProgress = (): TourProgress | null => {
+  const raw = readSetting(PROGRESS_STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    const stored = JSON.parse(raw) as TourProgress | null;
+    if (!stored || typeof stored.tourId !== 'string') return null;
+    return {
+      tourId: stored.tourId,
+      startedAt: typeof stored.startedAt === 'number' ? stored.startedAt : Date.now(),
+      narrated: Array.isArray(stored.narrated) ? stored.narrated : [],
+      skipped: Array.isArray(stored.skipped) ? stored.skipped : [],
+      paused: stored.paused === true,
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const saveTourProgress = (progress: TourProgress | null) =>
+  writeSetting(PROGRESS_STORAGE_KEY, progress ? JSON.stringify(progress) : "");
+
+export const isWaypointDone = (progress: TourProgress, id: string) =>
+  progress.narrated.includes(id) || progress.skipped.includes(id);
+
+// The first stop in walking order that hasn't been told or passed by; null once the walk is over
+export const nextWaypoint = (tour: Tour, progress: TourProgress): TourWaypoint | null =>
+  tour.waypoints.find(w => !isWaypointDone(progress, w.id)) ?? null;
+
+// So the walking navigator can lead the group to the next stop
+export const waypointToPlace = (tour: Tour, waypoint: TourWaypoint): PlaceResult => ({
+  uri: mapsLinkFor(waypoint.location),
+  title: waypoint.name,
+  placeId: `tour:${tour.id}:${waypoint.id}`,
+  location: waypoint.location,
+});
+
+export const describeTourStart = (tour: Tour) => {
+  const first = tour.waypoints[0];
+  return `[TOUR] The user is leading a group on "${tour.title}" (${tour.waypoints.length} stops). Greet the group in one or two lines and send them to the first stop, ${first.name}. Don't tell its story yet; that comes when they get there.`;
+};
+
+// After a fresh connect Buddy has forgotten the walk; this puts it back without retelling anything
+export const describeTourResume = (tour: Tour, progress: TourProgress) => {
+  const next = nextWaypoint(tour, progress);
+  const done = tour.waypoints.filter(w => isWaypointDone(progress, w.id)).length;
+  return `[TOUR] The group is on "${tour.title}", ${done} of ${tour.waypoints.length} stops done${
+    next ? `, heading for ${next.name}` : ''
+  }. Just acknowledge in a few words.`;
+};
+
+export const describeTourStop = (tour: Tour, progress: TourProgress, waypoint: TourWaypoint, location: GeoLocation | null) => {
+  const index = tour.waypoints.findIndex(w => w.id === waypoint.id);
+  const after = tour.waypoints.find(w => w.id !== waypoint.id && !isWaypointDone(progress, w.id));
+  const onward = after
+    ? `Then send them on to ${after.name}${location ? `, about ${formatDistance(distanceMeters(location, after.location))} away` : ''}.`
+    : `That was the last stop of the walk.`;
+  return `[TOUR] The group has reached stop ${index + 1} of ${tour.waypoints.length} on "${tour.title}": ${waypoint.name}. ${waypoint.narration} ${onward}`;
+};
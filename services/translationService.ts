@@ -0,0 +1,75 @@
+import { GenerateContentParameters, GoogleGenAI } from "@google/genai";
+import { TokenUsage } from "../types";
+import { toTokenUsage } from "./usageMeter";
+import { readSetting, writeSetting } from "../utils/storage";
+
+export type CaptionLanguage = 'off' | 'en' | 'ta' | 'te' | 'kn' | 'ml' | 'bn' | 'gu' | 'mr' | 'ru' | 'es';
+
+// `label` is what the picker shows (in the language itself), `name` is what the model is told
+export const CAPTION_LANGUAGES: Record<CaptionLanguage, { label: string; name: string }> = {
+  off: { label: 'Band', name: '' },
+  en: { label: 'English', name: 'English' },
+  ta: { label: 'தமிழ்', name: 'Tamil' },
+  te: { label: 'తెలుగు', name: 'Telugu' },
+  kn: { label: 'ಕನ್ನಡ', name: 'Kannada' },
+  ml: { label: 'മലയാളം', name: 'Malayalam' },
+  bn: { label: 'বাংলা', name: 'Bengali' },
+  gu: { label: 'ગુજરાતી', name: 'Gujarati' },
+  mr: { label: 'मराठी', name: 'Marathi' },
+  ru: { label: 'Русский', name: 'Russian' },
+  es: { label: 'Español', name: 'Spanish' },
+};
+
+const LANGUAGE_STORAGE_KEY = "brajBuddy.captionLanguage";
+// Longer than any single spoken sentence; anything bigger is not a caption
+export const MAX_CAPTION_CHARS = 1000;
+
+export const loadCaptionLanguage = (): CaptionLanguage => {
+  const stored = readSetting(LANGUAGE_STORAGE_KEY);
+  return stored && stored in CAPTION_LANGUAGES ? (stored as CaptionLanguage) : 'off';
+};
+
+export const saveCaptionLanguage = (language: CaptionLanguage) => writeSetting(LANGUAGE_STORAGE_KEY, language);
+
+export interface Translation {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface Translator {
+  name: string;
+  translate: (text: string, language: Exclude<CaptionLanguage, 'off'>) => Promise<Translation>;
+}
+
+// Shared with the token proxy, which makes the same call server-side so the key stays off the device
+export const buildTranslationRequest = (text: string, language: Exclude<CaptionLanguage, 'off'>): GenerateContentParameters => ({
+  model: "gemini-2.5-flash",
+  contents: `Translate this line spoken by a joking Braj Bhasha tour guide into ${CAPTION_LANGUAGES[language].name}.
+      Keep the humour and the tone; keep names of gods, temples and places as they are.
+      Reply with the translation only.
+
+      ${text}`,
+  config: {
+    // Captions have to keep up with speech; thinking would only make them late
+    thinkingConfig: { thinkingBudget: 0 },
+  },
+});
+
+export const googleTranslator: Translator = {
+  name: 'google',
+  translate: async (text, language) => {
+    // Always create a new instance right before the call to get the latest key
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent(buildTranslationRequest(text, language));
+    return {
+      text: (response.text ?? "").trim(),
+      usage: response.usageMetadata && toTokenUsage(response.usageMetadata),
+    };
+  },
+};
+
+// For the scripted backend: no key and no network, so show the line as spoken
+export const passthroughTranslator: Translator = {
+  name: 'passthrough',
+  translate: async (text) => ({ text }),
+};
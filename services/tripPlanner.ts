@@ -0,0 +1,181 @@
+import { GeoLocation, Itinerary, PlaceResult, TripStop } from "../types";
+import { distanceMeters } from "../utils/geo";
+
+// Up to this many stops the exact answer is cheap (2^n·n² steps); past it, nearest-neighbour plus 2-opt
+const MAX_EXACT_STOPS = 12;
+const MAX_TWO_OPT_PASSES = 20;
+
+export const tripKeyFor = (place: PlaceResult) => place.placeId ?? place.uri;
+
+const pathLength = (start: GeoLocation | null, points: GeoLocation[]) =>
+  points.reduce((sum, p, i) => {
+    const prev = i === 0 ? start : points[i - 1];
+    return prev ? sum + distanceMeters(prev, p) : sum;
+  }, 0);
+
+const nearestNeighbourOrder = (start: GeoLocation | null, stops: TripStop[]): TripStop[] => {
+  const remaining = [...stops];
+  const ordered: TripStop[] = [];
+  // Without a position, begin at the first place starred and go from there
+  let here = start ?? remaining[0]?.place.location ?? null;
+  while (remaining.length > 0) {
+    let best = 0;
+    if (here) {
+      remaining.forEach((stop, i) => {
+        if (distanceMeters(here!, stop.place.location!) < distanceMeters(here!, remaining[best].place.location!)) best = i;
+      });
+    }
+    const [next] = remaining.splice(best, 1);
+    ordered.push(next);
+    here = next.place.location!;
+  }
+  return ordered;
+};
+
+// Reverses any stretch whose reversal shortens the walk; fixes the crossings nearest-neighbour leaves behind
+const twoOpt = (start: GeoLocation | null, order: TripStop[]): TripStop[] => {
+  let best = order;
+  let bestLength = pathLength(start, best.map(s => s.place.location!));
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const length = pathLength(start, candidate.map(s => s.place.location!));
+        if (length < bestLength - 1) {
+          best = candidate;
+          bestLength = length;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return best;
+};
+
+// Held-Karp over open paths: best[mask][last] is the shortest walk from the start through `mask` ending at `last`
+const exactOrder = (start: GeoLocation | null, stops: TripStop[]): TripStop[] => {
+  const n = stops.length;
+  const points = stops.map(s => s.place.location!);
+  const d = points.map(a => points.map(b => distanceMeters(a, b)));
+  const full = (1 << n) - 1;
+  const best: number[][] = Array.from({ length: 1 << n }, () => new Array(n).fill(Infinity));
+  const prev: number[][] = Array.from({ length: 1 << n }, () => new Array(n).fill(-1));
+  for (let i = 0; i < n; i++) best[1 << i][i] = start ? distanceMeters(start, points[i]) : 0;
+
+  for (let mask = 1; mask <= full; mask++) {
+    for (let last = 0; last < n; last++) {
+      const here = best[mask][last];
+      if (here === Infinity) continue;
+      for (let next = 0; next < n; next++) {
+        if (mask & (1 << next)) continue;
+        const nextMask = mask | (1 << next);
+        if (here + d[last][next] < best[nextMask][next]) {
+          best[nextMask][next] = here + d[last][next];
+          prev[nextMask][next] = last;
+        }
+      }
+    }
+  }
+
+  let last = best[full].indexOf(Math.min(...best[full]));
+  const order: TripStop[] = [];
+  for (let mask = full; last !== -1; ) {
+    order.unshift(stops[last]);
+    const before = prev[mask][last];
+    mask &= ~(1 << last);
+    last = before;
+  }
+  return order;
+};
+
+/**
+ * Orders the starred places into an open walk from `start` (the user's position, when known) that
+ * visits each once. Distances are straight-line, which in Vrindavan's lanes undercounts but ranks fine.
+ */
+export const planItinerary = (start: GeoLocation | null, stops: TripStop[]): Itinerary => {
+  const placed = stops.filter(s => s.place.location);
+  const unplaced = stops.filter(s => !s.place.location);
+  const order = placed.length <= MAX_EXACT_STOPS
+    ? exactOrder(start, placed)
+    : twoOpt(start, nearestNeighbourOrder(start, placed));
+
+  const legs = order.map((stop, i) => {
+    const prev = i === 0 ? start : order[i - 1].place.location!;
+    return { stop, distanceMeters: prev ? distanceMeters(prev, stop.place.location!) : 0 };
+  });
+  return {
+    start,
+    legs,
+    totalMeters: legs.reduce((sum, leg) => sum + leg.distanceMeters, 0),
+    unplaced,
+  };
+};
+
+export const itineraryToJson = (itinerary: Itinerary, createdAt = Date.now()) =>
+  JSON.stringify({
+    app: "Braj Buddy",
+    createdAt: new Date(createdAt).toISOString(),
+    start: itinerary.start && { lat: itinerary.start.lat, lng: itinerary.start.lng },
+    totalMeters: Math.round(itinerary.totalMeters),
+    stops: [
+      ...itinerary.legs.map(({ stop, distanceMeters }, i) => ({
+        order: i + 1,
+        title: stop.place.title,
+        uri: stop.place.uri,
+        lat: stop.place.location!.lat,
+        lng: stop.place.location!.lng,
+        distanceFromPreviousMeters: Math.round(distanceMeters),
+      })),
+      ...itinerary.unplaced.map(stop => ({ order: null, title: stop.place.title, uri: stop.place.uri })),
+    ],
+  }, null, 2);
+
+const escapeXml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Waypoints for the stops plus a route in visiting order, which is what Maps.me, OsmAnd and friends import
+export const itineraryToGpx = (itinerary: Itinerary, createdAt = Date.now()) => {
+  const point = (tag: string, loc: GeoLocation, name: string, link?: string) =>
+    `  <${tag} lat="${loc.lat}" lon="${loc.lng}">\n    <name>${escapeXml(name)}</name>\n${link ? `    <link href="${escapeXml(link)}"/>\n` : ""}  </${tag}>`;
+  const waypoints = itinerary.legs.map(({ stop }) => point("wpt", stop.place.location!, stop.place.title, stop.place.uri));
+  const routePoints = [
+    ...(itinerary.start ? [point("rtept", itinerary.start, "Start")] : []),
+    ...itinerary.legs.map(({ stop }) => point("rtept", stop.place.location!, stop.place.title)),
+  ].map(p => p.replace(/^ {2}/gm, "    "));
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Braj Buddy" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata>
+    <name>Braj Buddy yatra</name>
+    <time>${new Date(createdAt).toISOString()}</time>
+  </metadata>
+${waypoints.join("\n")}
+  <rte>
+    <name>Braj Buddy yatra</name>
+${routePoints.join("\n")}
+  </rte>
+</gpx>
+`;
+};
+
+/** Opens the share sheet where the browser can share files (most phones), else downloads. */
+export const shareFile = async (filename: string, mimeType: string, content: BlobPart, title = "Braj Buddy yatra") => {
+  const file = new File([content], filename, { type: mimeType });
+  if (typeof navigator !== 'undefined' && navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title });
+      return;
+    } catch (err) {
+      // Backing out of the share sheet isn't a failure worth a download
+      if ((err as DOMException)?.name === 'AbortError') return;
+    }
+  }
+  const url = URL.createObjectURL(file);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,138 @@
+import { GenerateContentResponseUsageMetadata, ModalityTokenCount, UsageMetadata } from "@google/genai";
+import { SessionUsageRecord, TokenUsage, UsageBudget, UsageSource } from "../types";
+import { readSetting, writeSetting } from "../utils/storage";
+
+const HISTORY_STORAGE_KEY = "brajBuddy.usageHistory";
+const BUDGET_STORAGE_KEY = "brajBuddy.usageBudget";
+// Enough for a few weeks of tours without letting localStorage creep towards its quota
+const MAX_HISTORY = 60;
+export const BUDGET_WARN_FRACTION = 0.8;
+
+export const DEFAULT_BUDGET: UsageBudget = { sessionTokens: null, dailyTokens: null, onExceed: 'disconnect' };
+
+export const emptyUsage = (): TokenUsage => ({
+  promptTokens: 0,
+  responseTokens: 0,
+  totalTokens: 0,
+  promptByModality: {},
+  responseByModality: {},
+});
+
+const byModality = (details: ModalityTokenCount[] | undefined) => {
+  const out: Record<string, number> = {};
+  details?.forEach(d => {
+    const key = d.modality ?? 'OTHER';
+    out[key] = (out[key] ?? 0) + (d.tokenCount ?? 0);
+  });
+  return out;
+};
+
+// Live messages and generateContent name the response side differently; this flattens both
+export const toTokenUsage = (meta: UsageMetadata | GenerateContentResponseUsageMetadata): TokenUsage => {
+  const live = meta as UsageMetadata;
+  const rest = meta as GenerateContentResponseUsageMetadata;
+  const promptTokens = (meta.promptTokenCount ?? 0) + (meta.toolUsePromptTokenCount ?? 0);
+  const responseTokens = (live.responseTokenCount ?? rest.candidatesTokenCount ?? 0) + (meta.thoughtsTokenCount ?? 0);
+  return {
+    promptTokens,
+    responseTokens,
+    totalTokens: meta.totalTokenCount ?? promptTokens + responseTokens,
+    promptByModality: byModality(meta.promptTokensDetails),
+    responseByModality: byModality(live.responseTokensDetails ?? rest.candidatesTokensDetails),
+  };
+};
+
+const mergeCounts = (a: Record<string, number>, b: Record<string, number>) => {
+  const out = { ...a };
+  Object.entries(b).forEach(([k, v]) => { out[k] = (out[k] ?? 0) + v; });
+  return out;
+};
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  responseTokens: a.responseTokens + b.responseTokens,
+  totalTokens: a.totalTokens + b.totalTokens,
+  promptByModality: mergeCounts(a.promptByModality, b.promptByModality),
+  responseByModality: mergeCounts(a.responseByModality, b.responseByModality),
+});
+
+export const USAGE_SOURCES: UsageSource[] = ['live', 'maps', 'vision', 'captions'];
+
+export const newUsageRecord = (personaId: string, startedAt = Date.now()): SessionUsageRecord => ({
+  id: crypto.randomUUID(),
+  startedAt,
+  personaId,
+  live: emptyUsage(),
+  maps: emptyUsage(),
+  vision: emptyUsage(),
+  captions: emptyUsage(),
+  mapSearches: 0,
+});
+
+export const sessionTotal = (record: SessionUsageRecord) =>
+  USAGE_SOURCES.reduce((sum, source) => sum + record[source].totalTokens, 0);
+
+const readJson = <T>(key: string, fallback: T): T => {
+  const raw = readSetting(key);
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+export const loadUsageHistory = (): SessionUsageRecord[] => {
+  const history = readJson<SessionUsageRecord[]>(HISTORY_STORAGE_KEY, []);
+  if (!Array.isArray(history)) return [];
+  // Records saved before a source was metered have no bucket for it
+  return history.map(r => USAGE_SOURCES.reduce((rec, source) => (rec[source] ? rec : { ...rec, [source]: emptyUsage() }), r));
+};
+
+// Newest first; an entry with the same id is replaced, so a live session can be saved as it goes
+export const saveSessionUsage = (record: SessionUsageRecord): SessionUsageRecord[] => {
+  const history = [record, ...loadUsageHistory().filter(r => r.id !== record.id)].slice(0, MAX_HISTORY);
+  writeSetting(HISTORY_STORAGE_KEY, JSON.stringify(history));
+  return history;
+};
+
+export const clearUsageHistory = () => writeSetting(HISTORY_STORAGE_KEY, "[]");
+
+export const loadBudget = (): UsageBudget => ({ ...DEFAULT_BUDGET, ...readJson<Partial<UsageBudget>>(BUDGET_STORAGE_KEY, {}) });
+
+export const saveBudget = (budget: UsageBudget) => writeSetting(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+
+const startOfDay = (now: number) => {
+  const d = new Date(now);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+// Local calendar day, since that's how a tour day is counted
+export const tokensUsedToday = (history: SessionUsageRecord[], now = Date.now()) => {
+  const since = startOfDay(now);
+  return history.filter(r => r.startedAt >= since).reduce((sum, r) => sum + sessionTotal(r), 0);
+};
+
+export type BudgetStatus = 'ok' | 'warn' | 'exceeded';
+
+export interface BudgetCheck {
+  status: BudgetStatus;
+  // Which cap is closest to (or past) its limit
+  limit: 'session' | 'daily' | null;
+  fraction: number;
+}
+
+export const checkBudget = (sessionTokens: number, dailyTokens: number, budget: UsageBudget): BudgetCheck => {
+  const candidates: { limit: 'session' | 'daily'; fraction: number }[] = [];
+  if (budget.sessionTokens) candidates.push({ limit: 'session', fraction: sessionTokens / budget.sessionTokens });
+  if (budget.dailyTokens) candidates.push({ limit: 'daily', fraction: dailyTokens / budget.dailyTokens });
+  if (candidates.length === 0) return { status: 'ok', limit: null, fraction: 0 };
+
+  const worst = candidates.reduce((a, b) => (b.fraction > a.fraction ? b : a));
+  const status: BudgetStatus = worst.fraction >= 1 ? 'exceeded' : worst.fraction >= BUDGET_WARN_FRACTION ? 'warn' : 'ok';
+  return { status, limit: worst.limit, fraction: worst.fraction };
+};
+
+export const formatTokens = (n: number) =>
+  n < 1000 ? `${n}` : n < 1_000_000 ? `${(n / 1000).toFixed(n < 10_000 ? 1 : 0)}k` : `${(n / 1_000_000).toFixed(1)}M`;
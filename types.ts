@@ -1,12 +1,21 @@
 export interface GeoLocation {
   lat: number;
   lng: number;
+  // The rest only describe a user fix; place coordinates leave them out
+  accuracy?: number; // metres, 68% confidence radius
+  heading?: number; // degrees clockwise from true north, while moving
+  speed?: number; // metres per second
+  timestamp?: number; // ms since epoch when the fix was taken
+  source?: 'gps' | 'manual';
+  // Landmark name for a manual pin
+  label?: string;
 }
 
 export enum ConnectionState {
   DISCONNECTED = 'DISCONNECTED',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR'
 }
 
@@ -15,7 +24,282 @@ export interface GroundingLink {
   title: string;
 }
 
+export interface PlaceResult extends GroundingLink {
+  placeId?: string;
+  location?: GeoLocation;
+  // Relative to where the user stood when the search ran
+  distanceMeters?: number;
+  bearingDegrees?: number;
+}
+
 export interface MapSearchResult {
   text: string;
   links: GroundingLink[];
-}
\ No newline at end of file
+  places: PlaceResult[];
+  // What the grounded search cost; absent for offline results
+  usage?: TokenUsage;
+}
+
+export type TranscriptEntry =
+  | { id: string; kind: 'user'; text: string; timestamp: number; final: boolean }
+  | { id: string; kind: 'model'; text: string; timestamp: number; final: boolean }
+  | { id: string; kind: 'tool_call'; name: string; query: string; timestamp: number }
+  | { id: string; kind: 'map_result'; query: string; result: MapSearchResult; timestamp: number };
+
+export type BrajTown = 'Mathura' | 'Vrindavan' | 'Govardhan' | 'Barsana' | 'Nandgaon' | 'Gokul' | 'Baldeo';
+
+export type PoiCategory = 'temple' | 'ghat' | 'kund' | 'parking' | 'toilet' | 'water' | 'police' | 'hospital' | 'lost_found';
+
+export interface PointOfInterest {
+  id: string;
+  name: string;
+  altNames?: string[];
+  town: BrajTown;
+  category: PoiCategory;
+  tags: string[];
+  location: GeoLocation;
+}
+
+export type SosTrigger = 'long_press' | 'voice';
+
+export interface SosSession {
+  activatedAt: number;
+  trigger: SosTrigger;
+}
+
+// One measured position on the recent trail; manual pins are never recorded
+export interface Breadcrumb {
+  lat: number;
+  lng: number;
+  accuracy?: number;
+  timestamp: number;
+}
+
+export type DarshanSeason = 'summer' | 'winter';
+
+// Clock times are "HH:MM" in Indian Standard Time, whatever the phone's own time zone
+export interface DarshanWindow {
+  from: string;
+  to: string;
+}
+
+export interface TempleTimings {
+  // Matches a PointOfInterest id, which supplies the name, town and location
+  poiId: string;
+  // Absent for ghats and kunds that can be visited any time; only their aartis are scheduled
+  darshan?: Record<DarshanSeason, DarshanWindow[]>;
+  aartis?: Record<DarshanSeason, { name: string; at: string }[]>;
+  note?: string;
+}
+
+export interface BrajFestival {
+  id: string;
+  name: string;
+  altNames?: string[];
+  town: BrajTown;
+  // Where it's centred, when it's one temple or ghat
+  poiId?: string;
+  // "YYYY-MM-DD" per year; lunar festivals move, so each year is listed
+  dates: string[];
+  description: string;
+  // Temples that keep different hours on the day; an empty list means closed
+  timingChanges?: { poiId: string; darshan: DarshanWindow[]; note: string }[];
+}
+
+export interface TempleStatus {
+  poiId: string;
+  name: string;
+  town: BrajTown;
+  distanceMeters?: number;
+  // null where the place doesn't close (ghats and kunds)
+  open: boolean | null;
+  closesAt?: string;
+  nextOpening?: { date: string; at: string };
+  nextAarti?: { name: string; date: string; at: string };
+  season: DarshanSeason;
+  // Set when a festival changes today's hours
+  festivalNote?: string;
+}
+
+export interface FestivalOccurrence {
+  festival: BrajFestival;
+  date: string;
+  daysAway: number;
+}
+
+export interface ScheduleAnswer {
+  // When it was worked out, so the card can say "as of"
+  asOf: number;
+  temples: TempleStatus[];
+  festivals: FestivalOccurrence[];
+}
+
+export interface RouteStep {
+  instruction: string;
+  // Index into WalkingRoute.points where this manoeuvre happens
+  pointIndex: number;
+}
+
+export interface WalkingRoute {
+  destination: PlaceResult;
+  points: GeoLocation[];
+  steps: RouteStep[];
+  distanceMeters: number;
+  provider: string;
+}
+
+export enum NavigationStatus {
+  IDLE = 'IDLE',
+  ROUTING = 'ROUTING',
+  NAVIGATING = 'NAVIGATING',
+  OFF_ROUTE = 'OFF_ROUTE',
+  ARRIVED = 'ARRIVED'
+}
+
+export interface NavigationProgress {
+  remainingMeters: number;
+  crossTrackMeters: number;
+  nextStep: RouteStep | null;
+  distanceToNextStepMeters: number | null;
+}
+
+export type NavigationEvent =
+  | { type: 'started'; route: WalkingRoute }
+  | { type: 'step_ahead'; step: RouteStep; distanceMeters: number }
+  | { type: 'progress'; remainingMeters: number }
+  | { type: 'off_route'; remainingMeters: number }
+  | { type: 'arrived'; destination: PlaceResult };
+
+export interface PersonaProfile {
+  id: string;
+  name: string;
+  description: string;
+  // What the UI calls Buddy under this persona, e.g. "Gunda Online"
+  buddyLabel: string;
+  voiceName: string;
+  persona: string;
+  language: string;
+  directives: string[];
+  maxWordsPerTurn: number;
+  greeting: string;
+}
+
+export interface JournalEntry {
+  id: string;
+  createdAt: number;
+  query: string;
+  result: MapSearchResult;
+  // Where the user was when Buddy answered
+  location: GeoLocation | null;
+}
+
+export interface TripStop {
+  // placeId when there is one, else the Maps link; starring the same place twice is a no-op
+  key: string;
+  place: PlaceResult;
+  addedAt: number;
+}
+
+export interface ItineraryLeg {
+  stop: TripStop;
+  // Straight-line, from the previous stop (or the start for the first one)
+  distanceMeters: number;
+}
+
+export interface Itinerary {
+  start: GeoLocation | null;
+  legs: ItineraryLeg[];
+  totalMeters: number;
+  // Starred places without coordinates can't be ordered; they ride along at the end
+  unplaced: TripStop[];
+}
+
+export interface TourWaypoint {
+  id: string;
+  // Walking order; ties keep file order
+  order: number;
+  name: string;
+  location: GeoLocation;
+  // Entering this circle is "arriving"
+  radiusMeters: number;
+  // What Buddy should tell here, written as an instruction to Buddy rather than the script itself
+  narration: string;
+}
+
+export interface Tour {
+  id: string;
+  title: string;
+  town: string;
+  description: string;
+  // Sorted by order
+  waypoints: TourWaypoint[];
+  builtIn?: boolean;
+}
+
+export interface TourProgress {
+  tourId: string;
+  startedAt: number;
+  // Waypoint ids Buddy has told the story of, and ones the group chose to pass by
+  narrated: string[];
+  skipped: string[];
+  paused: boolean;
+}
+
+export interface LandmarkCard {
+  id: string;
+  createdAt: number;
+  name: string;
+  deity: string | null;
+  history: string;
+  etiquette: string[];
+  // Best link for getting there; from the bundled dataset when it knows the place
+  place: PlaceResult;
+  // 0..1, how sure the identification is
+  confidence: number;
+  // Where the user stood when they took the snapshot
+  takenAt: GeoLocation | null;
+  // Small JPEG data URL so saved cards still show what was photographed
+  thumbnail?: string;
+  provider: string;
+}
+
+// One outputTranscription chunk and when its audio will actually be heard
+export interface SpeechCue {
+  entryId: string;
+  text: string;
+  // Epoch ms; for silent replies, when the text arrived
+  at: number;
+}
+
+export type UsageSource = 'live' | 'maps' | 'vision' | 'captions';
+
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+  // Keyed by modality as the API reports it: TEXT, AUDIO, IMAGE, VIDEO...
+  promptByModality: Record<string, number>;
+  responseByModality: Record<string, number>;
+}
+
+export interface SessionUsageRecord {
+  id: string;
+  startedAt: number;
+  endedAt?: number;
+  personaId: string;
+  live: TokenUsage;
+  maps: TokenUsage;
+  // "Ye kya hai?" snapshot identifications
+  vision: TokenUsage;
+  // Translated caption lines
+  captions: TokenUsage;
+  mapSearches: number;
+  endReason?: 'user' | 'budget' | 'error';
+}
+
+export interface UsageBudget {
+  // null means no cap
+  sessionTokens: number | null;
+  dailyTokens: number | null;
+  onExceed: 'disconnect' | 'audio_only';
+}
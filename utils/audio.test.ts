@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { createBlob, decode, decodePcm16, encode } from './audio';
+
+describe('encode/decode', () => {
+  it('round-trips every byte value', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(decode(encode(bytes))).toEqual(bytes);
+  });
+
+  it('round-trips an empty buffer', () => {
+    expect(decode(encode(new Uint8Array(0)))).toEqual(new Uint8Array(0));
+  });
+});
+
+describe('createBlob', () => {
+  it('labels the PCM with its sample rate', () => {
+    expect(createBlob(new Float32Array(4)).mimeType).toBe('audio/pcm;rate=16000');
+    expect(createBlob(new Float32Array(4), 24000).mimeType).toBe('audio/pcm;rate=24000');
+  });
+
+  it('comes back through decodePcm16 within one 16-bit step', () => {
+    const samples = Float32Array.from([0, 0.25, -0.25, 0.5, -0.5, 0.999, -1]);
+    const back = decodePcm16(decode(createBlob(samples).data));
+    expect(back).toHaveLength(samples.length);
+    back.forEach((value, i) => expect(value).toBeCloseTo(samples[i], 4));
+  });
+
+  it('clamps peaks past full scale instead of wrapping around', () => {
+    const back = decodePcm16(decode(createBlob(Float32Array.from([1.5, -1.5])).data));
+    expect(back[0]).toBeGreaterThan(0.99);
+    expect(back[1]).toBe(-1);
+  });
+});
+
+describe('decodePcm16', () => {
+  it('reads little-endian samples from an offset view', () => {
+    const raw = new Uint8Array([0xff, 0x7f, 0x00, 0x40, 0x00, 0xc0]);
+    // Skip the first sample: 0x4000 is half scale, 0xc000 is minus half
+    expect(Array.from(decodePcm16(raw.subarray(2)))).toEqual([0.5, -0.5]);
+  });
+
+  it('ignores a trailing odd byte', () => {
+    expect(decodePcm16(new Uint8Array(3))).toHaveLength(1);
+  });
+});
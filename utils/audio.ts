@@ -0,0 +1,53 @@
+// Live replies are 16-bit mono PCM; the player keeps them as floats so it can replay and stretch them
+export function decodePcm16(data: Uint8Array): Float32Array {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, data.byteLength >> 1);
+  const out = new Float32Array(dataInt16.length);
+  for (let i = 0; i < dataInt16.length; i++) out[i] = dataInt16[i] / 32768.0;
+  return out;
+}
+
+export function decode(base64: string) {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function encode(bytes: Uint8Array) {
+  let binary = '';
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+// The mic worklet already delivers 16 kHz, but the rate is passed through so the label never lies
+export function createBlob(data: Float32Array, sampleRate = 16000): { data: string; mimeType: string } {
+  const l = data.length;
+  const int16 = new Int16Array(l);
+  for (let i = 0; i < l; i++) {
+    // Clamp first: a loud bazaar peak past 1.0 would otherwise wrap around to a negative sample
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return {
+    data: encode(new Uint8Array(int16.buffer)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
+  };
+}
+
+export async function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const base64data = reader.result as string;
+      resolve(base64data.split(',')[1]);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
@@ -0,0 +1,71 @@
+import { SpeechCue } from '../types';
+
+export interface CaptionSegment {
+  key: string;
+  entryId: string;
+  text: string;
+  // When the first word of this sentence will be heard
+  at: number;
+  // Ends in punctuation, or the turn is over; only complete sentences are worth translating
+  complete: boolean;
+}
+
+// Danda and double danda end Hindi sentences as often as a full stop does
+const SENTENCE = /[^.!?।॥]+(?:[.!?।॥]+|$)/g;
+// Roughly how long Buddy takes to say one character, for deciding when a caption has been heard
+const MS_PER_CHAR = 70;
+const CAPTION_LINGER_MS = 1500;
+
+/**
+ * Rebuilds each model turn from its transcription chunks and splits it into sentences, timing each
+ * sentence by the chunk its first character arrived in.
+ */
+export const buildCaptionSegments = (cues: SpeechCue[], finalEntryIds: Set<string>): CaptionSegment[] => {
+  const byEntry = new Map<string, SpeechCue[]>();
+  cues.forEach(cue => {
+    const list = byEntry.get(cue.entryId);
+    if (list) list.push(cue);
+    else byEntry.set(cue.entryId, [cue]);
+  });
+
+  const segments: CaptionSegment[] = [];
+  byEntry.forEach((entryCues, entryId) => {
+    const text = entryCues.map(c => c.text).join('');
+    const starts: number[] = [];
+    entryCues.reduce((offset, cue) => {
+      starts.push(offset);
+      return offset + cue.text.length;
+    }, 0);
+    const cueAt = (offset: number) => {
+      let i = starts.length - 1;
+      while (i > 0 && starts[i] > offset) i--;
+      return entryCues[i].at;
+    };
+
+    let index = 0;
+    for (const match of text.matchAll(SENTENCE)) {
+      const sentence = match[0].trim();
+      if (!sentence) continue;
+      const leading = match[0].length - match[0].trimStart().length;
+      segments.push({
+        key: `${entryId}:${index++}`,
+        entryId,
+        text: sentence,
+        at: cueAt(match.index! + leading),
+        complete: /[.!?।॥]$/.test(sentence) || finalEntryIds.has(entryId),
+      });
+    }
+  });
+  return segments.sort((a, b) => a.at - b.at);
+};
+
+/** The sentence being heard right now, if any: the latest one to start, until the next starts or it has had its time. */
+export const currentCaption = (segments: CaptionSegment[], now: number): CaptionSegment | null => {
+  let current: CaptionSegment | null = null;
+  for (const segment of segments) {
+    if (segment.at > now) break;
+    current = segment;
+  }
+  if (!current) return null;
+  return now - current.at <= current.text.length * MS_PER_CHAR + CAPTION_LINGER_MS ? current : null;
+};
@@ -0,0 +1,195 @@
+import { blobToBase64 } from './audio';
+import { readSetting, writeSetting } from './storage';
+
+export type FramePresetName = 'saver' | 'balanced' | 'sharp';
+
+export interface FramePreset {
+  label: string;
+  width: number;
+  height: number;
+  quality: number;
+  // While the user is talking or has just asked about the view
+  activeIntervalMs: number;
+  baseIntervalMs: number;
+  // Ceiling for the backoff when nothing in the scene changes
+  idleIntervalMs: number;
+}
+
+export const FRAME_PRESETS: Record<FramePresetName, FramePreset> = {
+  saver: { label: 'Data Bachao', width: 240, height: 135, quality: 0.4, activeIntervalMs: 1500, baseIntervalMs: 4000, idleIntervalMs: 15000 },
+  balanced: { label: 'Theek-Thaak', width: 320, height: 180, quality: 0.5, activeIntervalMs: 1000, baseIntervalMs: 2000, idleIntervalMs: 8000 },
+  sharp: { label: 'Saaf Dikhe', width: 640, height: 360, quality: 0.7, activeIntervalMs: 700, baseIntervalMs: 1500, idleIntervalMs: 5000 },
+};
+
+const PRESET_STORAGE_KEY = 'brajBuddy.framePreset';
+
+export const loadFramePreset = (): FramePresetName => {
+  const stored = readSetting(PRESET_STORAGE_KEY);
+  return stored && stored in FRAME_PRESETS ? (stored as FramePresetName) : 'balanced';
+};
+
+export const saveFramePreset = (name: FramePresetName) => writeSetting(PRESET_STORAGE_KEY, name);
+
+export interface FrameStats {
+  captured: number;
+  sent: number;
+  skippedDuplicate: number;
+  skippedHidden: number;
+}
+
+export interface FrameScheduler {
+  start: () => void;
+  stop: () => void;
+  setPreset: (name: FramePresetName) => void;
+  // User is speaking: keep the rate up for a couple of seconds
+  markActivity: () => void;
+  // "Ye kya hai?": send the next frame even if it looks unchanged, and stay fast for a while
+  boost: (durationMs?: number) => void;
+  getStats: () => FrameStats;
+}
+
+interface FrameSchedulerOptions {
+  getVideo: () => HTMLVideoElement | null;
+  getCanvas: () => HTMLCanvasElement | null;
+  send: (base64Jpeg: string) => void;
+  onStats?: (stats: FrameStats) => void;
+  preset?: FramePresetName;
+}
+
+const THUMB_W = 32;
+const THUMB_H = 18;
+// Mean absolute luma difference (0..1) below which two frames count as the same scene
+const DUPLICATE_THRESHOLD = 0.04;
+const ACTIVITY_WINDOW_MS = 2500;
+const DEFAULT_BOOST_MS = 6000;
+
+const lumaThumbnail = (ctx: CanvasRenderingContext2D): Float32Array => {
+  const { data } = ctx.getImageData(0, 0, THUMB_W, THUMB_H);
+  const luma = new Float32Array(THUMB_W * THUMB_H);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+  }
+  return luma;
+};
+
+const meanAbsDiff = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / a.length;
+};
+
+export const createFrameScheduler = ({ getVideo, getCanvas, send, onStats, preset = 'balanced' }: FrameSchedulerOptions): FrameScheduler => {
+  let current = FRAME_PRESETS[preset];
+  let timer: number | null = null;
+  let running = false;
+  let delay = current.baseIntervalMs;
+  let lastActivity = 0;
+  let boostUntil = 0;
+  let forceNext = false;
+  let lastSentThumb: Float32Array | null = null;
+  const stats: FrameStats = { captured: 0, sent: 0, skippedDuplicate: 0, skippedHidden: 0 };
+
+  const thumbCanvas = document.createElement('canvas');
+  thumbCanvas.width = THUMB_W;
+  thumbCanvas.height = THUMB_H;
+  const thumbCtx = thumbCanvas.getContext('2d', { willReadFrequently: true });
+
+  const schedule = (ms: number) => {
+    if (!running) return;
+    timer = window.setTimeout(tick, ms);
+  };
+
+  const isActive = (now: number) => now < boostUntil || now - lastActivity < ACTIVITY_WINDOW_MS;
+
+  const tick = () => {
+    timer = null;
+    const now = Date.now();
+
+    if (document.hidden) {
+      stats.skippedHidden++;
+      onStats?.({ ...stats });
+      schedule(current.idleIntervalMs);
+      return;
+    }
+
+    const video = getVideo();
+    const canvas = getCanvas();
+    const ctx = canvas?.getContext('2d');
+    if (!video || !canvas || !ctx || video.videoWidth === 0 || !thumbCtx) {
+      schedule(current.baseIntervalMs);
+      return;
+    }
+
+    stats.captured++;
+    thumbCtx.drawImage(video, 0, 0, THUMB_W, THUMB_H);
+    const thumb = lumaThumbnail(thumbCtx);
+    const changed = !lastSentThumb || meanAbsDiff(thumb, lastSentThumb) >= DUPLICATE_THRESHOLD;
+
+    if (changed || forceNext) {
+      forceNext = false;
+      lastSentThumb = thumb;
+      canvas.width = current.width;
+      canvas.height = current.height;
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(async (blob) => {
+        if (!blob || !running) return;
+        try {
+          send(await blobToBase64(blob));
+          stats.sent++;
+          onStats?.({ ...stats });
+        } catch (err) {
+          console.warn("Frame encode failed, sending the next one", err);
+          // This frame never went out, so the next look at the same scene mustn't count as a duplicate
+          if (lastSentThumb === thumb) lastSentThumb = null;
+        }
+      }, 'image/jpeg', current.quality);
+      delay = current.baseIntervalMs;
+    } else {
+      stats.skippedDuplicate++;
+      onStats?.({ ...stats });
+      // Same old gali: back off until something moves
+      delay = Math.min(delay * 2, current.idleIntervalMs);
+    }
+
+    schedule(isActive(now) ? current.activeIntervalMs : delay);
+  };
+
+  const reschedule = () => {
+    if (!running) return;
+    if (timer !== null) clearTimeout(timer);
+    timer = window.setTimeout(tick, current.activeIntervalMs);
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      delay = current.baseIntervalMs;
+      schedule(0);
+    },
+    stop: () => {
+      running = false;
+      if (timer !== null) clearTimeout(timer);
+      timer = null;
+      lastSentThumb = null;
+    },
+    setPreset: (name) => {
+      current = FRAME_PRESETS[name];
+      delay = current.baseIntervalMs;
+      // The model should see the new resolution straight away
+      forceNext = true;
+    },
+    markActivity: () => {
+      const idle = !isActive(Date.now());
+      lastActivity = Date.now();
+      // Cut a long idle backoff short as soon as the user starts talking
+      if (idle) reschedule();
+    },
+    boost: (durationMs = DEFAULT_BOOST_MS) => {
+      boostUntil = Date.now() + durationMs;
+      forceNext = true;
+      reschedule();
+    },
+    getStats: () => ({ ...stats }),
+  };
+};
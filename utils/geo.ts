@@ -0,0 +1,41 @@
+import { GeoLocation, PlaceResult } from '../types';
+
+const EARTH_RADIUS_M = 6371000;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+export const distanceMeters = (from: GeoLocation, to: GeoLocation): number => {
+  const dLat = toRad(to.lat - from.lat);
+  const dLng = toRad(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(from.lat)) * Math.cos(toRad(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+};
+
+// Initial great-circle bearing, degrees clockwise from true north
+export const bearingDegrees = (from: GeoLocation, to: GeoLocation): number => {
+  const lat1 = toRad(from.lat);
+  const lat2 = toRad(to.lat);
+  const dLng = toRad(to.lng - from.lng);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+};
+
+// Signed difference in (-180, 180], positive when the target is to the right
+export const relativeBearing = (bearing: number, heading: number): number => {
+  const diff = (bearing - heading + 540) % 360 - 180;
+  return diff === -180 ? 180 : diff;
+};
+
+export const formatDistance = (meters: number): string =>
+  meters < 1000 ? `${Math.round(meters / 10) * 10} m` : `${(meters / 1000).toFixed(meters < 10000 ? 1 : 0)} km`;
+
+export const withDistanceAndBearing = (places: PlaceResult[], origin: GeoLocation | null): PlaceResult[] =>
+  places.map(place => {
+    if (!origin || !place.location) return place;
+    return {
+      ...place,
+      distanceMeters: distanceMeters(origin, place.location),
+      bearingDegrees: bearingDegrees(origin, place.location),
+    };
+  });
@@ -0,0 +1,53 @@
+import { GeoLocation } from '../types';
+import { distanceMeters } from './geo';
+
+export interface Geofence {
+  id: string;
+  location: GeoLocation;
+  radiusMeters: number;
+}
+
+export type GeofenceEvent = { type: 'enter' | 'exit'; id: string; distanceMeters: number };
+
+export interface GeofenceTracker {
+  // Feed every fix; returns the fences crossed since the last one
+  update: (location: GeoLocation) => GeofenceEvent[];
+  inside: () => string[];
+  reset: () => void;
+}
+
+// Leaving takes noticeably more distance than arriving, so GPS jitter at the edge can't re-trigger
+const EXIT_FACTOR = 1.5;
+
+/**
+ * Enter/exit tracking over circular fences. A vague fix is given the benefit of the doubt, but only up to
+ * half the radius, so a 100 m accuracy circle can't "arrive" at a 30 m temple from the next lane over.
+ */
+export const createGeofenceTracker = (fences: Geofence[]): GeofenceTracker => {
+  let inside = new Set<string>();
+
+  return {
+    update: (location) => {
+      const events: GeofenceEvent[] = [];
+      const next = new Set<string>();
+      fences.forEach(fence => {
+        const distance = distanceMeters(location, fence.location);
+        const slack = Math.min(location.accuracy ?? 0, fence.radiusMeters / 2);
+        const wasInside = inside.has(fence.id);
+        const isInside = wasInside
+          ? distance <= fence.radiusMeters * EXIT_FACTOR + slack
+          : distance <= fence.radiusMeters + slack;
+        if (isInside) next.add(fence.id);
+        if (isInside && !wasInside) events.push({ type: 'enter', id: fence.id, distanceMeters: distance });
+        if (!isInside && wasInside) events.push({ type: 'exit', id: fence.id, distanceMeters: distance });
+      });
+      inside = next;
+      // Nearest first, so when two fences overlap the closer one is told first
+      return events.sort((a, b) => a.distanceMeters - b.distanceMeters);
+    },
+    inside: () => [...inside],
+    reset: () => {
+      inside = new Set();
+    },
+  };
+};
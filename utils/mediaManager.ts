@@ -0,0 +1,196 @@
+import { readSetting, writeSetting } from './storage';
+
+export type CameraFacing = 'user' | 'environment';
+
+export interface MediaPreferences {
+  facing: CameraFacing;
+  // '' means "whichever the browser picks for the facing" / "the default mic"
+  cameraId: string;
+  micId: string;
+}
+
+export const DEFAULT_MEDIA_PREFERENCES: MediaPreferences = { facing: 'environment', cameraId: '', micId: '' };
+
+const MEDIA_STORAGE_KEY = 'brajBuddy.media';
+
+export const loadMediaPreferences = (): MediaPreferences => {
+  const raw = readSetting(MEDIA_STORAGE_KEY);
+  if (!raw) return DEFAULT_MEDIA_PREFERENCES;
+  try {
+    const stored = JSON.parse(raw) as Partial<MediaPreferences>;
+    return {
+      facing: stored.facing === 'user' ? 'user' : 'environment',
+      cameraId: typeof stored.cameraId === 'string' ? stored.cameraId : '',
+      micId: typeof stored.micId === 'string' ? stored.micId : '',
+    };
+  } catch {
+    return DEFAULT_MEDIA_PREFERENCES;
+  }
+};
+
+export const saveMediaPreferences = (preferences: MediaPreferences) =>
+  writeSetting(MEDIA_STORAGE_KEY, JSON.stringify(preferences));
+
+export interface ZoomRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// What the current camera track lets us change; both are mostly rear-camera, Chrome-on-Android features
+export interface CameraControls {
+  zoom: ZoomRange | null;
+  torch: boolean;
+}
+
+const NO_CONTROLS: CameraControls = { zoom: null, torch: false };
+
+// Image-capture constraints aren't in the DOM typings
+type ImageCaptureCapabilities = MediaTrackCapabilities & { zoom?: ZoomRange; torch?: boolean };
+type ImageCaptureSettings = MediaTrackSettings & { zoom?: number; torch?: boolean };
+type ImageCaptureConstraints = MediaTrackConstraintSet & { zoom?: number; torch?: boolean };
+
+export interface MediaManager {
+  // The one stream the preview plays and the live session taps; tracks come and go, the stream stays
+  readonly stream: MediaStream;
+  // Resolves to null when a later start (or stopAll) overtook this one
+  startCamera: (choice: { facing: CameraFacing; deviceId?: string }) => Promise<MediaStreamTrack | null>;
+  stopCamera: () => void;
+  // The mic pipeline gets a stream holding just the shared audio track
+  acquireMic: (deviceId?: string) => Promise<MediaStream>;
+  releaseMic: () => void;
+  stopAll: () => void;
+  cameraControls: () => CameraControls;
+  cameraSettings: () => ImageCaptureSettings | null;
+  setZoom: (zoom: number) => void;
+  setTorch: (on: boolean) => Promise<boolean>;
+}
+
+// A remembered device can be unplugged or, on iOS, get a new id; fall back to the generic request then
+const getTrack = async (kind: 'video' | 'audio', exact: MediaTrackConstraints | null, fallback: MediaTrackConstraints | true) => {
+  if (exact) {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ [kind]: exact });
+      return stream.getTracks()[0];
+    } catch (err) {
+      const name = (err as { name?: string }).name;
+      if (name !== 'OverconstrainedError' && name !== 'NotFoundError') throw err;
+      console.warn(`Saved ${kind} device unavailable, using the default`, err);
+    }
+  }
+  const stream = await navigator.mediaDevices.getUserMedia({ [kind]: fallback });
+  return stream.getTracks()[0];
+};
+
+/**
+ * Owns every capture track the app opens. Phones refuse (or silently mute) a second capture of the same
+ * device, and a forgotten track keeps the recording indicator on, so everything goes through here.
+ */
+export const createMediaManager = (): MediaManager => {
+  const stream = new MediaStream();
+  // Bumped by every start and stop, so a slow getUserMedia can't resurrect a track after it was replaced
+  let cameraRequest = 0;
+  let micRequest = 0;
+  let zoomTarget: number | null = null;
+  let zoomBusy = false;
+
+  const videoTrack = () => stream.getVideoTracks()[0] ?? null;
+  const audioTrack = () => stream.getAudioTracks()[0] ?? null;
+
+  const drop = (track: MediaStreamTrack | null) => {
+    if (!track) return;
+    track.stop();
+    stream.removeTrack(track);
+  };
+
+  const stopCamera = () => {
+    cameraRequest++;
+    drop(videoTrack());
+  };
+
+  const releaseMic = () => {
+    micRequest++;
+    drop(audioTrack());
+  };
+
+  // Pinch gestures fire far faster than applyConstraints settles; only the latest zoom matters
+  const pumpZoom = async () => {
+    zoomBusy = true;
+    while (zoomTarget !== null) {
+      const track = videoTrack();
+      const zoom = zoomTarget;
+      zoomTarget = null;
+      if (!track) break;
+      try {
+        await track.applyConstraints({ advanced: [{ zoom } as ImageCaptureConstraints] });
+      } catch (err) {
+        console.warn("Zoom not applied", err);
+      }
+    }
+    zoomBusy = false;
+  };
+
+  return {
+    stream,
+    startCamera: async ({ facing, deviceId }) => {
+      const request = ++cameraRequest;
+      // Most phones can't open a second camera while one is running, so let go first
+      drop(videoTrack());
+      const track = await getTrack(
+        'video',
+        deviceId ? { deviceId: { exact: deviceId } } : null,
+        { facingMode: { ideal: facing } }
+      );
+      if (request !== cameraRequest) {
+        track.stop();
+        return null;
+      }
+      stream.addTrack(track);
+      return track;
+    },
+    stopCamera,
+    acquireMic: async (deviceId) => {
+      const current = audioTrack();
+      if (current?.readyState === 'live' && (!deviceId || current.getSettings().deviceId === deviceId)) {
+        return new MediaStream([current]);
+      }
+      const request = ++micRequest;
+      drop(current);
+      const track = await getTrack('audio', deviceId ? { deviceId: { exact: deviceId } } : null, true);
+      if (request !== micRequest) {
+        track.stop();
+        throw new DOMException('Mic released while it was starting', 'AbortError');
+      }
+      stream.addTrack(track);
+      return new MediaStream([track]);
+    },
+    releaseMic,
+    stopAll: () => {
+      stopCamera();
+      releaseMic();
+    },
+    cameraControls: () => {
+      const track = videoTrack();
+      if (!track?.getCapabilities) return NO_CONTROLS;
+      const capabilities = track.getCapabilities() as ImageCaptureCapabilities;
+      const zoom = capabilities.zoom && capabilities.zoom.max > capabilities.zoom.min ? capabilities.zoom : null;
+      return { zoom, torch: capabilities.torch === true };
+    },
+    cameraSettings: () => (videoTrack()?.getSettings() as ImageCaptureSettings | undefined) ?? null,
+    setZoom: (zoom) => {
+      zoomTarget = zoom;
+      if (!zoomBusy) pumpZoom();
+    },
+    setTorch: async (on) => {
+      const track = videoTrack();
+      if (!track) return false;
+      try {
+        await track.applyConstraints({ advanced: [{ torch: on } as ImageCaptureConstraints] });
+        return on;
+      } catch (err) {
+        console.warn("Torch not applied", err);
+        return false;
+      }
+    },
+  };
+};
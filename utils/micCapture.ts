@@ -0,0 +1,129 @@
+export const MIC_TARGET_SAMPLE_RATE = 16000;
+// 2048 samples at 16 kHz = 128 ms per chunk sent to the model
+const CHUNK_SIZE = 2048;
+
+// Shipped as a string and loaded from a Blob URL so it works the same under Vite and the AI Studio importmap build
+const workletSource = `
+class MicResamplerProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = options.processorOptions;
+    this.ratio = sampleRate / opts.targetRate;
+    this.chunk = new Float32Array(opts.chunkSize);
+    this.chunkLen = 0;
+    this.pending = [];
+    this.pos = 0;
+    this.sumSquares = 0;
+    this.rmsCount = 0;
+  }
+
+  push(sample) {
+    this.chunk[this.chunkLen++] = sample;
+    if (this.chunkLen === this.chunk.length) {
+      const rms = Math.sqrt(this.sumSquares / Math.max(1, this.rmsCount));
+      this.port.postMessage({ pcm: this.chunk, rms }, [this.chunk.buffer]);
+      this.chunk = new Float32Array(this.chunk.length);
+      this.chunkLen = 0;
+      this.sumSquares = 0;
+      this.rmsCount = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    for (let i = 0; i < input.length; i++) {
+      this.pending.push(input[i]);
+      this.sumSquares += input[i] * input[i];
+    }
+    this.rmsCount += input.length;
+
+    const ratio = this.ratio;
+    if (ratio === 1) {
+      for (let i = 0; i < this.pending.length; i++) this.push(this.pending[i]);
+      this.pending.length = 0;
+      return true;
+    }
+
+    // Downsampling averages every input sample in the output window, which doubles as a cheap low-pass.
+    // Upsampling (ratio < 1) just interpolates between neighbours.
+    while (this.pos + Math.max(ratio, 1) < this.pending.length) {
+      let out;
+      if (ratio > 1) {
+        const start = Math.floor(this.pos);
+        const end = Math.floor(this.pos + ratio);
+        let sum = 0;
+        for (let j = start; j < end; j++) sum += this.pending[j];
+        out = sum / Math.max(1, end - start);
+      } else {
+        const idx = Math.floor(this.pos);
+        const frac = this.pos - idx;
+        out = this.pending[idx] * (1 - frac) + this.pending[idx + 1] * frac;
+      }
+      this.push(out);
+      this.pos += ratio;
+    }
+
+    const consumed = Math.floor(this.pos);
+    this.pending.splice(0, consumed);
+    this.pos -= consumed;
+    return true;
+  }
+}
+
+registerProcessor('mic-resampler', MicResamplerProcessor);
+`;
+
+export interface MicCapture {
+  stop: () => void;
+}
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+const ensureWorklet = async (ctx: AudioContext) => {
+  if (loadedContexts.has(ctx)) return;
+  const url = URL.createObjectURL(new Blob([workletSource], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    loadedContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Streams mic audio resampled to 16 kHz mono, whatever rate the browser actually opened the context at.
+ * `onChunk` gets each Float32 chunk plus the RMS of the raw input for the volume meter.
+ */
+export const startMicCapture = async (
+  ctx: AudioContext,
+  stream: MediaStream,
+  onChunk: (pcm: Float32Array, rms: number) => void
+): Promise<MicCapture> => {
+  if (!ctx.audioWorklet) throw new Error("AudioWorklet not supported in this browser.");
+  await ensureWorklet(ctx);
+
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, 'mic-resampler', {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetRate: MIC_TARGET_SAMPLE_RATE, chunkSize: CHUNK_SIZE },
+  });
+  node.port.onmessage = (e: MessageEvent<{ pcm: Float32Array; rms: number }>) => {
+    onChunk(e.data.pcm, e.data.rms);
+  };
+  source.connect(node);
+  // The node outputs silence; hooking it to the destination keeps Safari pulling it
+  node.connect(ctx.destination);
+
+  return {
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+    },
+  };
+};
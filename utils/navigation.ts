@@ -0,0 +1,73 @@
+import { GeoLocation, NavigationEvent, NavigationProgress, WalkingRoute } from '../types';
+import { bearingDegrees, distanceMeters, formatDistance, relativeBearing } from './geo';
+
+const METERS_PER_DEG_LAT = 111320;
+
+// Flat-earth projection around `origin`; plenty accurate over the few hundred metres of one route segment
+const toLocalXY = (origin: GeoLocation, p: GeoLocation) => ({
+  x: (p.lng - origin.lng) * METERS_PER_DEG_LAT * Math.cos((origin.lat * Math.PI) / 180),
+  y: (p.lat - origin.lat) * METERS_PER_DEG_LAT,
+});
+
+const projectOntoSegment = (a: GeoLocation, b: GeoLocation, p: GeoLocation) => {
+  const B = toLocalXY(a, b);
+  const P = toLocalXY(a, p);
+  const lenSq = B.x * B.x + B.y * B.y;
+  const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, (P.x * B.x + P.y * B.y) / lenSq));
+  const dx = P.x - t * B.x;
+  const dy = P.y - t * B.y;
+  return { t, crossTrack: Math.sqrt(dx * dx + dy * dy), segmentLength: Math.sqrt(lenSq) };
+};
+
+export const routeLength = (points: GeoLocation[]) =>
+  points.slice(1).reduce((sum, p, i) => sum + distanceMeters(points[i], p), 0);
+
+export const computeProgress = (route: WalkingRoute, position: GeoLocation): NavigationProgress => {
+  const { points, steps } = route;
+  if (points.length < 2) {
+    return { remainingMeters: 0, crossTrackMeters: 0, nextStep: null, distanceToNextStepMeters: null };
+  }
+
+  let best = { index: 0, t: 0, crossTrack: Infinity, segmentLength: 0 };
+  for (let i = 0; i < points.length - 1; i++) {
+    const proj = projectOntoSegment(points[i], points[i + 1], position);
+    if (proj.crossTrack < best.crossTrack) best = { index: i, ...proj };
+  }
+
+  const restOfSegment = (1 - best.t) * best.segmentLength;
+  const remainingMeters = restOfSegment + routeLength(points.slice(best.index + 1));
+  const nextStep = steps.find(s => s.pointIndex > best.index) ?? null;
+  const distanceToNextStepMeters = nextStep
+    ? restOfSegment + routeLength(points.slice(best.index + 1, nextStep.pointIndex + 1))
+    : null;
+
+  return { remainingMeters, crossTrackMeters: best.crossTrack, nextStep, distanceToNextStepMeters };
+};
+
+export const describeTurn = (prev: GeoLocation, at: GeoLocation, next: GeoLocation): string => {
+  const turn = relativeBearing(bearingDegrees(at, next), bearingDegrees(prev, at));
+  if (Math.abs(turn) < 25) return 'Seedha chalte raho';
+  if (Math.abs(turn) > 150) return 'Ulta ghoom jao';
+  const side = turn > 0 ? 'daayein' : 'baayein';
+  return Math.abs(turn) < 60 ? `Halka ${side} mudo` : `${side.charAt(0).toUpperCase()}${side.slice(1)} mudo`;
+};
+
+const COMPASS_POINTS = ['uttar', 'uttar-poorab', 'poorab', 'dakshin-poorab', 'dakshin', 'dakshin-paschim', 'paschim', 'uttar-paschim'];
+
+export const compassPoint = (bearing: number) => COMPASS_POINTS[Math.round(bearing / 45) % 8];
+
+// Phrased as a note from the app so the model retells it in persona instead of reading it out verbatim
+export const describeNavigationEvent = (event: NavigationEvent): string => {
+  switch (event.type) {
+    case 'started':
+      return `[NAV] User started walking to "${event.route.destination.title}", ${formatDistance(event.route.distanceMeters)} away. First: ${event.route.steps[0]?.instruction}.`;
+    case 'step_ahead':
+      return `[NAV] In about ${formatDistance(event.distanceMeters)}: ${event.step.instruction}.`;
+    case 'progress':
+      return `[NAV] ${formatDistance(event.remainingMeters)} left to the destination. Keep them going.`;
+    case 'off_route':
+      return `[NAV] User has wandered off the route, now ${formatDistance(event.remainingMeters)} from the destination. Steer them back towards it.`;
+    case 'arrived':
+      return `[NAV] User has arrived at "${event.destination.title}". Welcome them.`;
+  }
+};
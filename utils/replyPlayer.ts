@@ -0,0 +1,176 @@
+import { readSetting, writeSetting } from './storage';
+import { createTimeStretcher, TimeStretcher } from './timeStretch';
+
+export interface PlaybackSettings {
+  // 0..1 on top of the system volume
+  volume: number;
+  rate: number;
+  muted: boolean;
+  // '' is the system default output
+  sinkId: string;
+}
+
+export const DEFAULT_PLAYBACK: PlaybackSettings = { volume: 1, rate: 1, muted: false, sinkId: '' };
+export const PLAYBACK_RATES = [0.75, 0.85, 1, 1.15] as const;
+
+// Enough to go back past a short "haan ji" to the line that mattered
+const MAX_REPLAY_TURNS = 3;
+// Buddy stays faintly audible under the user, so it's obvious it will stop if they keep talking
+const DUCKED_GAIN = 0.2;
+const DUCK_ATTACK_SECONDS = 0.05;
+const DUCK_RELEASE_SECONDS = 0.25;
+const VOLUME_RAMP_SECONDS = 0.02;
+
+const PLAYBACK_STORAGE_KEY = 'brajBuddy.playback';
+
+export const loadPlaybackSettings = (): PlaybackSettings => {
+  const raw = readSetting(PLAYBACK_STORAGE_KEY);
+  if (!raw) return DEFAULT_PLAYBACK;
+  try {
+    const stored = JSON.parse(raw) as Partial<PlaybackSettings>;
+    return {
+      volume: typeof stored.volume === 'number' ? Math.min(1, Math.max(0, stored.volume)) : DEFAULT_PLAYBACK.volume,
+      rate: PLAYBACK_RATES.find(r => r === stored.rate) ?? DEFAULT_PLAYBACK.rate,
+      muted: stored.muted === true,
+      sinkId: typeof stored.sinkId === 'string' ? stored.sinkId : DEFAULT_PLAYBACK.sinkId,
+    };
+  } catch {
+    return DEFAULT_PLAYBACK;
+  }
+};
+
+export const savePlaybackSettings = (settings: PlaybackSettings) =>
+  writeSetting(PLAYBACK_STORAGE_KEY, JSON.stringify(settings));
+
+// Chrome and Edge only so far; not in the DOM typings yet
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+export const supportsOutputSelection = () =>
+  typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+export interface ReplyPlayer {
+  // One chunk of the reply being spoken
+  play: (pcm: Float32Array) => void;
+  // The reply is over (or was cut off); it becomes the one replayLast() repeats
+  endTurn: () => void;
+  // Silences whatever is queued
+  stop: () => void;
+  replayLast: () => boolean;
+  canReplay: () => boolean;
+  apply: (settings: PlaybackSettings) => void;
+  setDucked: (ducked: boolean) => void;
+  // How long until something queued now would start playing
+  queuedSeconds: () => number;
+}
+
+const concat = (chunks: Float32Array[]) => {
+  const out = new Float32Array(chunks.reduce((n, c) => n + c.length, 0));
+  chunks.reduce((offset, c) => {
+    out.set(c, offset);
+    return offset + c.length;
+  }, 0);
+  return out;
+};
+
+/**
+ * Schedules reply audio gaplessly through duck -> volume -> output, stretching it to the chosen
+ * speed, and keeps the raw PCM of the last few replies so one can be heard again.
+ */
+export const createReplyPlayer = ({
+  ctx,
+  sampleRate,
+  settings,
+  onTalkingChange,
+}: {
+  ctx: AudioContext;
+  sampleRate: number;
+  settings: PlaybackSettings;
+  onTalkingChange: (talking: boolean) => void;
+}): ReplyPlayer => {
+  const duckNode = ctx.createGain();
+  const volumeNode = ctx.createGain();
+  duckNode.connect(volumeNode);
+  volumeNode.connect(ctx.destination);
+
+  const sources = new Set<AudioBufferSourceNode>();
+  let nextStartTime = 0;
+  let current = settings;
+  let sinkId = '';
+  // Created at the first chunk of a reply, so a speed change never lands mid-sentence
+  let stretcher: TimeStretcher | null = null;
+  let turnChunks: Float32Array[] = [];
+  let turns: Float32Array[] = [];
+
+  const schedule = (samples: Float32Array) => {
+    if (samples.length === 0) return;
+    const buffer = ctx.createBuffer(1, samples.length, sampleRate);
+    buffer.copyToChannel(samples, 0);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(duckNode);
+    source.onended = () => {
+      sources.delete(source);
+      if (sources.size === 0) onTalkingChange(false);
+    };
+    nextStartTime = Math.max(nextStartTime, ctx.currentTime);
+    source.start(nextStartTime);
+    nextStartTime += buffer.duration;
+    sources.add(source);
+    onTalkingChange(true);
+  };
+
+  const stop = () => {
+    sources.forEach(s => { try { s.stop(); } catch {} });
+    sources.clear();
+    nextStartTime = 0;
+    stretcher = null;
+    onTalkingChange(false);
+  };
+
+  const apply = (settings: PlaybackSettings) => {
+    current = settings;
+    volumeNode.gain.setTargetAtTime(settings.muted ? 0 : settings.volume, ctx.currentTime, VOLUME_RAMP_SECONDS);
+    const sinkable = ctx as SinkableAudioContext;
+    if (settings.sinkId !== sinkId && sinkable.setSinkId) {
+      sinkId = settings.sinkId;
+      // A device unplugged since it was picked just leaves the audio where it was
+      sinkable.setSinkId(settings.sinkId).catch(err => console.warn("Could not switch audio output", err));
+    }
+  };
+  apply(settings);
+
+  return {
+    play: (pcm) => {
+      turnChunks.push(pcm);
+      stretcher ??= createTimeStretcher(current.rate, sampleRate);
+      schedule(stretcher.process(pcm));
+    },
+    endTurn: () => {
+      if (stretcher) schedule(stretcher.flush());
+      stretcher = null;
+      if (turnChunks.length === 0) return;
+      turns = [...turns, concat(turnChunks)].slice(-MAX_REPLAY_TURNS);
+      turnChunks = [];
+    },
+    stop,
+    replayLast: () => {
+      const last = turns[turns.length - 1];
+      if (!last) return false;
+      stop();
+      const replay = createTimeStretcher(current.rate, sampleRate);
+      schedule(replay.process(last));
+      schedule(replay.flush());
+      return true;
+    },
+    canReplay: () => turns.length > 0,
+    apply,
+    setDucked: (ducked) => {
+      duckNode.gain.setTargetAtTime(
+        ducked ? DUCKED_GAIN : 1,
+        ctx.currentTime,
+        ducked ? DUCK_ATTACK_SECONDS : DUCK_RELEASE_SECONDS
+      );
+    },
+    queuedSeconds: () => Math.max(0, nextStartTime - ctx.currentTime),
+  };
+};
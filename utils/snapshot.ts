@@ -0,0 +1,43 @@
+import { blobToBase64 } from './audio';
+
+export interface Snapshot {
+  // Sent to the vision call
+  base64Jpeg: string;
+  // Kept with the saved card
+  thumbnailDataUrl: string;
+}
+
+// Sharper than any streaming preset: the vision call sees one frame, so it may as well be a good one
+const SNAPSHOT_WIDTH = 1024;
+const SNAPSHOT_QUALITY = 0.85;
+const THUMB_WIDTH = 192;
+const THUMB_QUALITY = 0.6;
+
+const toJpeg = (canvas: HTMLCanvasElement, quality: number) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+
+/**
+ * Grabs the current camera frame through the shared canvas. The frame scheduler resizes the same
+ * canvas on every tick, which is fine: toBlob copies the pixels before anything else can run.
+ * Resolves to null when there is no picture yet (camera denied or still starting).
+ */
+export const captureSnapshot = async (video: HTMLVideoElement | null, canvas: HTMLCanvasElement | null): Promise<Snapshot | null> => {
+  const ctx = canvas?.getContext('2d');
+  if (!video || !canvas || !ctx || video.videoWidth === 0) return null;
+
+  const scale = Math.min(1, SNAPSHOT_WIDTH / video.videoWidth);
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  // Taken from the same pixels before awaiting anything, so the card shows exactly what was sent
+  const thumb = document.createElement('canvas');
+  thumb.width = THUMB_WIDTH;
+  thumb.height = Math.round(THUMB_WIDTH * canvas.height / canvas.width);
+  thumb.getContext('2d')?.drawImage(canvas, 0, 0, thumb.width, thumb.height);
+  const thumbnailDataUrl = thumb.toDataURL('image/jpeg', THUMB_QUALITY);
+
+  const full = await toJpeg(canvas, SNAPSHOT_QUALITY);
+  if (!full) return null;
+  return { base64Jpeg: await blobToBase64(full), thumbnailDataUrl };
+};
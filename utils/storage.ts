@@ -0,0 +1,16 @@
+// localStorage can throw in private mode or when disabled; settings just fall back to defaults then
+export const readSetting = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+export const writeSetting = (key: string, value: string) => {
+  try {
+    localStorage.setItem(key, value);
+  } catch (e) {
+    console.warn(`Could not save ${key}`, e);
+  }
+};
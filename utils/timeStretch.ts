@@ -0,0 +1,123 @@
+// WSOLA (waveform-similarity overlap-add): changes speed without the chipmunk effect that
+// AudioBufferSourceNode.playbackRate has. Works on a stream, so a reply can be stretched chunk by chunk.
+
+const FRAME_SECONDS = 0.03;
+// How far a frame may slide to line up with the previous one; about one pitch period of a low voice
+const TOLERANCE_SECONDS = 0.01;
+// Correlating every other sample in every other position is plenty for speech and halves the work twice
+const SEARCH_STEP = 2;
+const CORRELATION_STEP = 2;
+
+export interface TimeStretcher {
+  process: (input: Float32Array) => Float32Array;
+  // End of the stream: returns whatever is still held back
+  flush: () => Float32Array;
+}
+
+const passthrough: TimeStretcher = { process: input => input, flush: () => new Float32Array(0) };
+
+/** `rate` > 1 is faster (shorter output), < 1 slower. */
+export const createTimeStretcher = (rate: number, sampleRate: number): TimeStretcher => {
+  if (rate === 1) return passthrough;
+
+  const frame = Math.round(sampleRate * FRAME_SECONDS / 2) * 2;
+  const synthesisHop = frame / 2;
+  const analysisHop = synthesisHop * rate;
+  const tolerance = Math.round(sampleRate * TOLERANCE_SECONDS);
+  // Periodic Hann sums to exactly 1 at 50% overlap, so no gain correction is needed
+  const window = new Float32Array(frame).map((_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frame));
+
+  let input = new Float32Array(0);
+  let inputStart = 0; // absolute sample index of input[0]
+  let received = 0;
+  let output = new Float32Array(frame * 4);
+  let outputStart = 0; // absolute sample index of output[0]
+  let emitted = 0;
+  let nextFrame = 0;
+  let previousPos = -1;
+
+  const append = (chunk: Float32Array) => {
+    const merged = new Float32Array(input.length + chunk.length);
+    merged.set(input);
+    merged.set(chunk, input.length);
+    input = merged;
+    received += chunk.length;
+  };
+
+  // Slide the nominal frame to where it best continues the previous frame's natural next stretch
+  const bestPos = (nominal: number) => {
+    if (previousPos < 0) return nominal;
+    const natural = previousPos + synthesisHop - inputStart;
+    let best = nominal;
+    let bestScore = -Infinity;
+    for (let offset = -tolerance; offset <= tolerance; offset += SEARCH_STEP) {
+      const start = nominal + offset - inputStart;
+      if (start < 0) continue;
+      let score = 0;
+      for (let i = 0; i < frame; i += CORRELATION_STEP) score += input[start + i] * input[natural + i];
+      if (score > bestScore) {
+        bestScore = score;
+        best = nominal + offset;
+      }
+    }
+    return best;
+  };
+
+  const run = () => {
+    for (;;) {
+      const nominal = Math.round(nextFrame * analysisHop);
+      const needed = Math.max(nominal + tolerance + frame, previousPos >= 0 ? previousPos + synthesisHop + frame : 0);
+      if (needed > inputStart + input.length) break;
+
+      const pos = bestPos(nominal);
+      const at = nextFrame * synthesisHop - outputStart;
+      if (at + frame > output.length) {
+        const grown = new Float32Array((at + frame) * 2);
+        grown.set(output);
+        output = grown;
+      }
+      for (let i = 0; i < frame; i++) output[at + i] += input[pos - inputStart + i] * window[i];
+      previousPos = pos;
+      nextFrame++;
+    }
+
+    // Later frames only add from the next frame's start onwards, so everything before it is final
+    const ready = nextFrame * synthesisHop - outputStart;
+    const out = output.slice(0, ready);
+    output = output.slice(ready);
+    if (output.length < frame * 2) {
+      const grown = new Float32Array(frame * 4);
+      grown.set(output);
+      output = grown;
+    }
+    outputStart += ready;
+    emitted += out.length;
+
+    // Nothing before the next search window or the next natural continuation is needed again
+    const keepFrom = Math.min(Math.round(nextFrame * analysisHop) - tolerance, previousPos + synthesisHop);
+    if (keepFrom > inputStart) {
+      input = input.slice(keepFrom - inputStart);
+      inputStart = keepFrom;
+    }
+    return out;
+  };
+
+  return {
+    process: (chunk) => {
+      append(chunk);
+      return run();
+    },
+    flush: () => {
+      const expected = Math.round(received / rate);
+      // Silence after the end lets the last real samples form whole frames
+      append(new Float32Array(frame + tolerance * 2 + synthesisHop));
+      const tail = run();
+      const missing = expected - emitted;
+      if (missing <= 0) return tail.slice(0, Math.max(0, tail.length + missing));
+      const out = new Float32Array(tail.length + missing);
+      out.set(tail);
+      out.set(output.subarray(0, missing), tail.length);
+      return out;
+    },
+  };
+};
@@ -0,0 +1,83 @@
+import { readSetting, writeSetting } from './storage';
+
+export type MicMode = 'auto' | 'hold';
+
+export interface VoiceActivityOptions {
+  // Speech has to be this many times louder than the tracked background
+  thresholdRatio?: number;
+  // Absolute floor so a silent room doesn't make every breath "speech"
+  minThreshold?: number;
+  // Consecutive loud chunks needed to open; filters single clanks of a temple bell
+  attackChunks?: number;
+  // Quiet chunks tolerated before closing, so pauses between words don't cut the turn
+  hangoverChunks?: number;
+}
+
+export interface VoiceActivityDetector {
+  // Feed one chunk's RMS; returns whether the user is currently speaking
+  update: (rms: number) => boolean;
+  reset: () => void;
+  readonly noiseFloor: number;
+}
+
+const INITIAL_NOISE_FLOOR = 0.01;
+// The floor follows quiet quickly and loud backgrounds slowly, so speech itself can't raise it much
+const FLOOR_FALL = 0.3;
+const FLOOR_RISE = 0.02;
+
+/**
+ * Energy-based VAD over the per-chunk RMS from the mic worklet. The noise floor adapts only
+ * while nobody is speaking, which keeps a busy bazaar from counting as a never-ending turn.
+ */
+export const createVoiceActivityDetector = ({
+  thresholdRatio = 3,
+  minThreshold = 0.015,
+  attackChunks = 2,
+  hangoverChunks = 6,
+}: VoiceActivityOptions = {}): VoiceActivityDetector => {
+  let noiseFloor = INITIAL_NOISE_FLOOR;
+  let speaking = false;
+  let loudRun = 0;
+  let quietRun = 0;
+
+  const update = (rms: number) => {
+    const threshold = Math.max(minThreshold, noiseFloor * thresholdRatio);
+    const loud = rms > threshold;
+
+    if (speaking) {
+      quietRun = loud ? 0 : quietRun + 1;
+      if (quietRun > hangoverChunks) {
+        speaking = false;
+        loudRun = 0;
+      }
+    } else {
+      loudRun = loud ? loudRun + 1 : 0;
+      if (loudRun >= attackChunks) {
+        speaking = true;
+        quietRun = 0;
+      } else {
+        const rate = rms < noiseFloor ? FLOOR_FALL : FLOOR_RISE;
+        noiseFloor += (rms - noiseFloor) * rate;
+      }
+    }
+    return speaking;
+  };
+
+  return {
+    update,
+    reset: () => {
+      speaking = false;
+      loudRun = 0;
+      quietRun = 0;
+    },
+    get noiseFloor() {
+      return noiseFloor;
+    },
+  };
+};
+
+const MIC_MODE_STORAGE_KEY = 'brajBuddy.micMode';
+
+export const loadMicMode = (): MicMode => (readSetting(MIC_MODE_STORAGE_KEY) === 'hold' ? 'hold' : 'auto');
+
+export const saveMicMode = (mode: MicMode) => writeSetting(MIC_MODE_STORAGE_KEY, mode);
@@ -0,0 +1,48 @@
+// 16-bit mono PCM in a plain RIFF/WAVE container, the one format every player and editor opens
+const HEADER_BYTES = 44;
+
+export const encodeWav = (samples: Int16Array, sampleRate: number): Uint8Array => {
+  const out = new Uint8Array(HEADER_BYTES + samples.byteLength);
+  const view = new DataView(out.buffer);
+  const ascii = (offset: number, text: string) => [...text].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+
+  ascii(0, 'RIFF');
+  view.setUint32(4, 36 + samples.byteLength, true);
+  ascii(8, 'WAVE');
+  ascii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  ascii(36, 'data');
+  view.setUint32(40, samples.byteLength, true);
+  out.set(new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength), HEADER_BYTES);
+  return out;
+};
+
+/** Reads back what encodeWav wrote. Walks the chunks rather than assuming 44 bytes, so an edited file still loads. */
+export const decodeWav = (bytes: Uint8Array): { sampleRate: number; samples: Int16Array } => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tag = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  if (tag(0) !== 'RIFF' || tag(8) !== 'WAVE') throw new Error("Not a WAV file");
+
+  let sampleRate = 0;
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (tag(offset) === 'fmt ') {
+      if (view.getUint16(body, true) !== 1 || view.getUint16(body + 14, true) !== 16) throw new Error("Only 16-bit PCM WAV is supported");
+      sampleRate = view.getUint32(body + 4, true);
+    } else if (tag(offset) === 'data') {
+      // Copied so the samples are aligned whatever the chunk layout was
+      const data = bytes.slice(body, body + Math.min(size, bytes.byteLength - body));
+      return { sampleRate, samples: new Int16Array(data.buffer, 0, data.byteLength >> 1) };
+    }
+    offset = body + size + (size & 1);
+  }
+  throw new Error("WAV file has no data");
+};
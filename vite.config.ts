@@ -4,15 +4,25 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // BUDDY_KEY_MODE=proxy keeps the key out of the bundle; the page then gets tokens from `npm run proxy`
+    const keyMode = env.BUDDY_KEY_MODE === 'proxy' ? 'proxy' : 'key';
+    const bundledKey = keyMode === 'proxy' ? '' : env.GEMINI_API_KEY;
+    // xfwd passes each phone's address on, so the token proxy rate-limits them one by one
+    const apiProxy = { '/api': { target: `http://localhost:${env.PROXY_PORT || 8787}`, xfwd: true } };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: apiProxy,
+      },
+      preview: {
+        proxy: apiProxy,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(bundledKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(bundledKey),
+        'process.env.BUDDY_KEY_MODE': JSON.stringify(keyMode)
       },
       resolve: {
         alias: {